@@ -1,10 +1,28 @@
 import logger from "../utils/logger.js";
-import { generateResponses } from "../utils/openai.js";
-
-interface AnalysisResult {
-  identifiedPaths: string[];
+import { LLMClient, LLMUsage } from "../llm/llmClient.js";
+import { createLLMClientFromEnv } from "../llm/createLLMClient.js";
+import {
+  ScenarioGenerationResult,
+  generateScenarios,
+} from "../llm/scenarios.js";
+import { CallerIntent, PromptBuilder } from "../prompts/promptBuilder.js";
+import {
+  TranscriptionResult,
+  getAgentText,
+} from "../transcription/transcriber.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { GENERAL_DOMAIN_PACK } from "../domains/domainPack.js";
+import { proposeDomainPack } from "../llm/domainProposal.js";
+import { ThemeClassifier, ThemeScores } from "../themes/themeClassifier.js";
+
+export interface AnalysisResult {
+  identifiedPaths: CallerIntent[];
   isTerminalState: boolean;
   confidence: number;
+  /** Tokens spent on the model to produce this analysis */
+  usage?: LLMUsage;
+  /** Confidence in each theme the agent's response touched */
+  themeScores?: ThemeScores;
 }
 
 interface ConversationContext {
@@ -14,31 +32,34 @@ interface ConversationContext {
   customerPreferences?: string[];
 }
 
+export interface ResponseAnalyzerOptions {
+  /** Shared with the orchestrator so both agree on the run's domain pack */
+  domain?: DomainContext;
+  /**
+   * Ask the model to propose a domain pack when the agent matches none,
+   * instead of treating it as a general business
+   */
+  proposeUnknownDomains?: boolean;
+  /** Shared with the orchestrator and tree so theme ids line up */
+  themes?: ThemeClassifier;
+}
+
 export class ResponseAnalyzer {
   private context: ConversationContext;
-
-  private static readonly TERMINAL_INDICATORS = [
-    "goodbye",
-    "thank you for calling",
-    "have a nice day",
-    "is there anything else",
-    "end of our call",
-    "have a great",
-    "bye",
-  ];
-
-  private static readonly INFO_REQUEST_PATTERNS = [
-    { pattern: /your (name|full name)/, info: "name" },
-    { pattern: /(address|location|where.*located)/, info: "address" },
-    { pattern: /(phone.*number|contact.*number)/, info: "phone" },
-    { pattern: /(email|e-mail)/, info: "email" },
-    {
-      pattern: /(existing|current|previous) customer/,
-      info: "customer_status",
-    },
-  ];
-
-  constructor() {
+  private readonly llmClient: LLMClient;
+  private readonly domain: DomainContext;
+  private readonly proposeUnknownDomains: boolean;
+  private readonly themes: ThemeClassifier;
+  private readonly promptBuilder = new PromptBuilder();
+
+  constructor(
+    llmClient: LLMClient = createLLMClientFromEnv(),
+    options: ResponseAnalyzerOptions = {}
+  ) {
+    this.llmClient = llmClient;
+    this.domain = options.domain ?? new DomainContext();
+    this.proposeUnknownDomains = options.proposeUnknownDomains ?? false;
+    this.themes = options.themes ?? new ThemeClassifier(this.domain);
     this.context = {
       businessType: "",
       requestedInfo: [],
@@ -47,22 +68,35 @@ export class ResponseAnalyzer {
     };
   }
 
-  public async analyzeResponse(response: string): Promise<AnalysisResult> {
+  /**
+   * Analyzes only the agent's turns of a diarized transcript so themes and
+   * follow-up paths are not extracted from our own caller's words.
+   * `intentPath` is what the caller did to reach this point; identified paths
+   * are the next intents to try on top of it.
+   */
+  public async analyzeTranscript(
+    transcription: TranscriptionResult,
+    intentPath: CallerIntent[] = []
+  ): Promise<AnalysisResult> {
+    return this.analyzeResponse(getAgentText(transcription), intentPath);
+  }
+
+  public async analyzeResponse(
+    response: string,
+    intentPath: CallerIntent[] = []
+  ): Promise<AnalysisResult> {
     try {
       const normalizedResponse = response.toLowerCase();
 
-      // Detect business type if not already set
-      if (!this.context.businessType) {
-        this.context.businessType = this.detectBusinessType(response);
-        logger.info("Detected business type", {
-          businessContext: this.context.businessType,
-          responsePreview: response.substring(0, 50),
-        });
-      }
+      const detectionUsage = this.context.businessType
+        ? undefined
+        : await this.detectBusinessType(response);
 
       this.updateConversationContext(response);
 
-      const identifiedPaths = await this.generateContextualPrompts(response);
+      const { intents: identifiedPaths, usage } =
+        await this.generateContextualIntents(response, intentPath);
+      const themes = await this.themes.classify(response);
       const isTerminalState = this.isTerminalState(
         normalizedResponse,
         identifiedPaths.length > 0
@@ -80,13 +114,25 @@ export class ResponseAnalyzer {
         requestedInfo: this.context.requestedInfo,
         isTerminal: isTerminalState,
         confidence,
-        firstPath: identifiedPaths[0]?.substring(0, 30),
+        themes: Array.from(themes.themes),
+        firstPath: identifiedPaths[0]?.goal.substring(0, 30),
       });
 
       return {
         identifiedPaths,
         isTerminalState,
         confidence,
+        usage: {
+          promptTokens:
+            usage.promptTokens +
+            themes.usage.promptTokens +
+            (detectionUsage?.promptTokens ?? 0),
+          completionTokens:
+            usage.completionTokens +
+            themes.usage.completionTokens +
+            (detectionUsage?.completionTokens ?? 0),
+        },
+        themeScores: themes.scores,
       };
     } catch (error) {
       logger.error("Error analyzing response", {
@@ -94,7 +140,7 @@ export class ResponseAnalyzer {
         response: response.substring(0, 100),
       });
       return {
-        identifiedPaths: [this.createDefaultSystemPrompt()],
+        identifiedPaths: [this.createDefaultIntent()],
         isTerminalState: false,
         confidence: 0.3,
       };
@@ -102,9 +148,7 @@ export class ResponseAnalyzer {
   }
 
   private updateConversationContext(response: string): void {
-    const requestedInfo = ResponseAnalyzer.INFO_REQUEST_PATTERNS.filter(
-      ({ pattern }) => pattern.test(response.toLowerCase())
-    ).map(({ info }) => info);
+    const requestedInfo = this.domain.getRequestedInfo(response);
 
     if (requestedInfo.length > 0) {
       this.context.requestedInfo = [
@@ -123,136 +167,125 @@ export class ResponseAnalyzer {
   }
 
   private extractDiscussedServices(response: string): string[] {
-    const services = new Set<string>();
-    const normalizedResponse = response.toLowerCase();
-
-    if (this.context.businessType === "hvac_plumbing") {
-      if (
-        normalizedResponse.includes("ac") ||
-        normalizedResponse.includes("air conditioning")
-      )
-        services.add("ac_service");
-      if (
-        normalizedResponse.includes("heat") ||
-        normalizedResponse.includes("heating")
-      )
-        services.add("heating");
-      if (
-        normalizedResponse.includes("plumb") ||
-        normalizedResponse.includes("pipe")
-      )
-        services.add("plumbing");
-      if (normalizedResponse.includes("maintenance"))
-        services.add("maintenance");
-      if (normalizedResponse.includes("emergency"))
-        services.add("emergency_service");
-    } else if (this.context.businessType === "auto_dealership") {
-      if (
-        normalizedResponse.includes("new car") ||
-        normalizedResponse.includes("new vehicle")
-      )
-        services.add("new_car_sales");
-      if (
-        normalizedResponse.includes("used") ||
-        normalizedResponse.includes("pre-owned")
-      )
-        services.add("used_car_sales");
-      if (
-        normalizedResponse.includes("service") ||
-        normalizedResponse.includes("repair")
-      )
-        services.add("service_department");
-      if (normalizedResponse.includes("trade")) services.add("trade_in");
-      if (normalizedResponse.includes("test drive")) services.add("test_drive");
-    }
-
-    return Array.from(services);
+    return this.domain.extractServices(response);
   }
 
-  private async generateContextualPrompts(response: string): Promise<string[]> {
-    const prompts: string[] = [];
+  private async generateContextualIntents(
+    response: string,
+    intentPath: CallerIntent[]
+  ): Promise<{ intents: CallerIntent[]; usage: LLMUsage }> {
+    const intents: CallerIntent[] = [];
 
     if (this.context.requestedInfo?.length) {
-      prompts.push(this.createInfoProvisionPrompt());
-      prompts.push(this.createInfoAvoidancePrompt());
+      intents.push(this.createInfoProvisionIntent());
+      intents.push(this.createInfoAvoidanceIntent());
     }
 
     if (this.context.servicesDiscussed?.length) {
       for (const service of this.context.servicesDiscussed) {
-        prompts.push(this.createServiceSpecificPrompt(service));
+        intents.push(this.createServiceSpecificIntent(service));
       }
     }
 
-    const aiPrompts = await this.generateAIPrompts(response);
-    prompts.push(...aiPrompts);
+    const { scenarios, usage } = await this.generateAIIntents(
+      response,
+      intentPath
+    );
+    intents.push(...scenarios);
 
-    return prompts;
+    return { intents, usage };
   }
 
-  private createInfoProvisionPrompt(): string {
+  private createInfoProvisionIntent(): CallerIntent {
     const requestedInfo = this.context.requestedInfo?.join(" and ") || "";
-    return `You are a customer willing to provide ${requestedInfo}.
-When the agent asks:
-1. Provide the requested information clearly
-2. Show interest in learning about specific services
-3. Ask about next steps or service options
-Your goal is to understand the full service process when providing customer information.`;
+    return {
+      persona: `a customer willing to provide ${requestedInfo}`,
+      goal: "understand the full service process when providing customer information",
+      steps: [
+        "Provide the requested information clearly when the agent asks",
+        "Ask about next steps or service options",
+      ],
+    };
   }
 
-  private createInfoAvoidancePrompt(): string {
-    return `You are a customer who prefers not to provide personal information yet.
-When the agent asks:
-1. Politely explain you'd like to learn about services first
-2. Ask specific questions about service options and pricing
-3. Express interest but maintain privacy
-Your goal is to understand how the agent handles customers who prefer initial anonymity.`;
+  private createInfoAvoidanceIntent(): CallerIntent {
+    return {
+      persona: "a customer who prefers not to provide personal information yet",
+      goal: "understand how the agent handles customers who prefer initial anonymity",
+      steps: [
+        "Politely explain you'd like to learn about services before giving personal details",
+        "Ask specific questions about service options and pricing",
+      ],
+    };
   }
 
-  private createServiceSpecificPrompt(service: string): string {
+  private createServiceSpecificIntent(service: string): CallerIntent {
     const serviceName = service.replace(/_/g, " ");
-    return `You are a customer specifically interested in ${serviceName}.
-When the agent responds:
-1. Ask detailed questions about this service
-2. Inquire about pricing, availability, and process
-3. Show strong interest in moving forward
-4. Be ready to provide information if required
-Your goal is to fully understand the ${serviceName} offering and requirements.`;
+    return {
+      persona: `a customer specifically interested in ${serviceName}`,
+      goal: `fully understand the ${serviceName} offering and requirements`,
+      steps: [
+        `Ask detailed questions about ${serviceName}`,
+        "Inquire about pricing, availability, and process",
+      ],
+    };
   }
 
-  private async generateAIPrompts(response: string): Promise<string[]> {
-    const prompt = `Based on this ${this.context.businessType} agent's response: "${response}"
+  private async generateAIIntents(
+    response: string,
+    intentPath: CallerIntent[]
+  ): Promise<ScenarioGenerationResult> {
+    const history =
+      intentPath.length > 0
+        ? `\nTo reach this point the caller did the following: ${this.promptBuilder.describePath(
+            intentPath
+          )}.
+Each scenario's steps must continue from there; do not repeat earlier steps.`
+        : "";
+    // Personas are layered on by the orchestrator, but scenarios should
+    // still be ones that caller would pursue
+    const persona = intentPath[intentPath.length - 1]?.callerPersona;
+    const personaNote = persona
+      ? `\nThe caller is ${persona.description}.`
+      : "";
+    const prompt = `Based on this ${this.context.businessType} agent's response: "${response}"${history}${personaNote}
 Generate 2-3 different customer scenarios that would:
 1. Naturally follow up on specific points mentioned
 2. Explore different aspects of the services discussed
 3. Represent realistic customer situations
 Keep scenarios focused and specific to the actual conversation.`;
 
-    return await generateResponses(prompt, {
+    return generateScenarios(this.llmClient, prompt, {
       temperature: 0.7,
-      maxResponses: 3,
+      maxScenarios: 3,
     });
   }
 
-  private detectBusinessType(response: string): string {
-    const normalizedResponse = response.toLowerCase();
-
-    if (
-      normalizedResponse.includes("air conditioning") ||
-      normalizedResponse.includes("plumbing") ||
-      normalizedResponse.includes("hvac") ||
-      normalizedResponse.includes("heating")
-    ) {
-      return "hvac_plumbing";
-    } else if (
-      normalizedResponse.includes("auto") ||
-      normalizedResponse.includes("car") ||
-      normalizedResponse.includes("dealership") ||
-      normalizedResponse.includes("vehicle")
-    ) {
-      return "auto_dealership";
+  /**
+   * Settles the run's domain pack from the first response unless one was
+   * configured. Returns the tokens spent if the model had to propose a pack.
+   */
+  private async detectBusinessType(
+    response: string
+  ): Promise<LLMUsage | undefined> {
+    let usage: LLMUsage | undefined;
+
+    if (!this.domain.isResolved()) {
+      let pack = this.domain.detect(response);
+      if (!pack && this.proposeUnknownDomains) {
+        const proposal = await proposeDomainPack(this.llmClient, response);
+        pack = proposal.pack;
+        usage = proposal.usage;
+      }
+      this.domain.resolve(pack ?? GENERAL_DOMAIN_PACK);
     }
 
-    return "general_business";
+    this.context.businessType = this.domain.getPack().id;
+    logger.info("Detected business type", {
+      businessContext: this.context.businessType,
+      responsePreview: response.substring(0, 50),
+    });
+    return usage;
   }
 
   private isTerminalState(
@@ -263,22 +296,22 @@ Keep scenarios focused and specific to the actual conversation.`;
       return false;
     }
 
-    return ResponseAnalyzer.TERMINAL_INDICATORS.some((indicator) =>
-      response.includes(indicator)
-    );
+    return this.domain.isTerminal(response);
   }
 
-  private createDefaultSystemPrompt(): string {
-    return `You are a customer calling to inquire about available services.
-When the agent answers:
-1. Ask about their main services
-2. Show interest in learning more
-3. Be ready to ask follow-up questions
-Your goal is to understand what services they offer.`;
+  private createDefaultIntent(): CallerIntent {
+    return {
+      persona: "a customer calling to inquire about available services",
+      goal: "understand what services they offer",
+      steps: [
+        "Ask about their main services",
+        "Show interest in learning more",
+      ],
+    };
   }
 
   private calculateConfidence(
-    paths: string[],
+    paths: CallerIntent[],
     response: string,
     context: ConversationContext
   ): number {
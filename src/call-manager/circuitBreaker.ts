@@ -0,0 +1,154 @@
+import logger from "../utils/logger.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a probe request is let through */
+  resetTimeoutMs?: number;
+  /** Decides which errors count against the API; defaults to all of them */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  /** When requests will be let through again, if the circuit is not closed */
+  retryAt: Date | null;
+}
+
+export class CircuitOpenError extends Error {
+  public readonly retryAt: Date;
+
+  constructor(retryAt: Date) {
+    super(`Circuit is open until ${retryAt.toISOString()}`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+// How long other callers wait while a half-open probe is in flight
+const PROBE_WAIT_MS = 1000;
+
+/**
+ * Stops sending requests to an API after repeated failures. Once the reset
+ * timeout has passed, a single probe request is let through: if it succeeds
+ * the circuit closes, otherwise it opens again.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private isProbeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold =
+      options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    this.isFailure = options.isFailure ?? (() => true);
+  }
+
+  /**
+   * Runs `request` unless the circuit is open, in which case it throws a
+   * CircuitOpenError without calling it.
+   */
+  public async execute<T>(request: () => Promise<T>): Promise<T> {
+    this.acquire(Date.now());
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure(Date.now());
+      } else {
+        // The API answered, so it is healthy even if the request was bad
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  public getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : null,
+      retryAt: this.getRetryAt(Date.now()),
+    };
+  }
+
+  private acquire(now: number): void {
+    if (this.state === "open") {
+      const retryAt = this.openedAt! + this.resetTimeoutMs;
+      if (now < retryAt) {
+        throw new CircuitOpenError(new Date(retryAt));
+      }
+      this.transition("half-open");
+    }
+
+    if (this.state === "half-open") {
+      if (this.isProbeInFlight) {
+        throw new CircuitOpenError(new Date(now + PROBE_WAIT_MS));
+      }
+      this.isProbeInFlight = true;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.isProbeInFlight = false;
+    if (this.state !== "closed") {
+      this.openedAt = null;
+      this.transition("closed");
+    }
+  }
+
+  private recordFailure(now: number): void {
+    this.consecutiveFailures++;
+    this.isProbeInFlight = false;
+
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.openedAt = now;
+      this.transition("open");
+    }
+  }
+
+  private getRetryAt(now: number): Date | null {
+    if (this.state === "open") {
+      return new Date(this.openedAt! + this.resetTimeoutMs);
+    }
+    if (this.state === "half-open") {
+      return new Date(now + PROBE_WAIT_MS);
+    }
+    return null;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+
+    const details = {
+      from: previous,
+      to: state,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    if (state === "open") {
+      logger.warn("Circuit breaker opened", details);
+    } else {
+      logger.info("Circuit breaker state changed", details);
+    }
+  }
+}
@@ -1,34 +1,102 @@
-import axios, { AxiosResponse } from "axios";
-import axiosRetry from "axios-retry";
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import axiosRetry, { retryAfter } from "axios-retry";
 import logger from "../utils/logger.js";
-
-axiosRetry(axios, {
-  retries: 3,
-  retryDelay: axiosRetry.exponentialDelay,
-  retryCondition: (error) => {
-    return (
-      axiosRetry.isNetworkOrIdempotentRequestError(error) ||
-      (error.response?.status ?? 0) >= 500
-    );
-  },
-});
+import { TokenBucket } from "./tokenBucket.js";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  CircuitStatus,
+} from "./circuitBreaker.js";
 
 interface CallResponse {
   id: string;
   status?: string;
 }
 
+/**
+ * The limiter and circuit breaker can be shared by several call managers,
+ * since the API's limits apply to the account rather than to a single run.
+ */
+export interface CallManagerOptions {
+  rateLimiter?: TokenBucket;
+  circuitBreaker?: CircuitBreaker;
+  httpClient?: AxiosInstance;
+}
+
+// The API allows one new call every 500ms
+const DEFAULT_CALL_INTERVAL_MS = 500;
+
+/**
+ * Whether an error says something about the API's health. Other 4xx
+ * responses mean the request itself was rejected.
+ */
+export function isCallApiFailure(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  return error.response.status >= 500 || error.response.status === 429;
+}
+
+/** A request to the voice agent API failed or was rejected */
+export class CallApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CallApiError";
+  }
+}
+
 export class CallManager {
   private baseUrl: string;
   private token: string;
-
-  constructor(baseUrl: string, token: string) {
+  private readonly http: AxiosInstance;
+  private readonly rateLimiter: TokenBucket;
+  private readonly circuitBreaker: CircuitBreaker;
+
+  constructor(
+    baseUrl: string,
+    token: string,
+    options: CallManagerOptions = {}
+  ) {
     if (!baseUrl || !token) {
       throw new Error("baseUrl and token are required");
     }
 
     this.baseUrl = baseUrl;
     this.token = token;
+    this.rateLimiter =
+      options.rateLimiter ??
+      new TokenBucket({
+        capacity: 1,
+        refillIntervalMs: DEFAULT_CALL_INTERVAL_MS,
+      });
+    this.circuitBreaker =
+      options.circuitBreaker ??
+      new CircuitBreaker({ isFailure: isCallApiFailure });
+
+    // Retries are configured on our own client so other axios users in the
+    // process are unaffected
+    this.http = options.httpClient ?? axios.create();
+    axiosRetry(this.http, {
+      retries: 3,
+      retryDelay: axiosRetry.exponentialDelay,
+      retryCondition: (error) => {
+        return (
+          axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+          (error.response?.status ?? 0) >= 500 ||
+          error.response?.status === 429
+        );
+      },
+      onRetry: (retryCount, error) => {
+        if (error.response?.status === 429) {
+          // exponentialDelay already waits for Retry-After; hold back other
+          // requests for as long
+          const delayMs = retryAfter(error);
+          this.rateLimiter.pauseFor(delayMs);
+          logger.warn("Call API rate limit hit, backing off", {
+            retryCount,
+            retryAfterMs: delayMs,
+          });
+        }
+      },
+    });
 
     logger.info("CallManager initialized", {
       baseUrl,
@@ -53,21 +121,25 @@ export class CallManager {
     }
 
     try {
-      const response: AxiosResponse<CallResponse> = await axios.post(
-        `${this.baseUrl}/start-call`,
-        {
-          phone_number: phoneNumber,
-          prompt: systemPrompt,
-          webhook_url: webhookUrl,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.token}`,
-            "Content-Type": "application/json",
-          },
-          timeout: 10000, // 10 second timeout
-        }
-      );
+      const response: AxiosResponse<CallResponse> =
+        await this.circuitBreaker.execute(async () => {
+          await this.rateLimiter.take();
+          return this.http.post(
+            `${this.baseUrl}/start-call`,
+            {
+              phone_number: phoneNumber,
+              prompt: systemPrompt,
+              webhook_url: webhookUrl,
+            },
+            {
+              headers: {
+                Authorization: `Bearer ${this.token}`,
+                "Content-Type": "application/json",
+              },
+              timeout: 10000, // 10 second timeout
+            }
+          );
+        });
 
       logger.info("Call initiated successfully", {
         callId: response.data.id,
@@ -77,6 +149,11 @@ export class CallManager {
 
       return response.data.id;
     } catch (error) {
+      // Callers wait for the circuit instead of counting this as a failure
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       logger.error("Failed to initiate call", {
@@ -91,7 +168,7 @@ export class CallManager {
           : undefined,
       });
 
-      throw new Error(
+      throw new CallApiError(
         `Failed to initiate call to ${phoneNumber}: ${errorMessage}`
       );
     }
@@ -110,7 +187,7 @@ export class CallManager {
         timestamp: new Date().toISOString(),
       });
 
-      const response: AxiosResponse = await axios.get(
+      const response: AxiosResponse = await this.http.get(
         `${this.baseUrl.replace(
           "/rest/exercise",
           ""
@@ -145,7 +222,11 @@ export class CallManager {
           : undefined,
       });
 
-      throw new Error(`Failed to retrieve recording: ${errorMessage}`);
+      throw new CallApiError(`Failed to retrieve recording: ${errorMessage}`);
     }
   }
+
+  public getCircuitStatus(): CircuitStatus {
+    return this.circuitBreaker.getStatus();
+  }
 }
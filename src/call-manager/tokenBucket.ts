@@ -0,0 +1,85 @@
+export interface TokenBucketOptions {
+  /** Requests allowed in a burst */
+  capacity: number;
+  /** Time to earn back one token */
+  refillIntervalMs: number;
+}
+
+/**
+ * Token-bucket rate limiter. Callers are served in order, and `pauseFor`
+ * holds everyone back, e.g. while the API asks us to back off with a 429.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillIntervalMs: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private pausedUntil = 0;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: TokenBucketOptions) {
+    if (options.capacity < 1) {
+      throw new Error("Token bucket capacity must be at least 1");
+    }
+    if (options.refillIntervalMs < 0) {
+      throw new Error("Token bucket refill interval must not be negative");
+    }
+
+    this.capacity = options.capacity;
+    this.refillIntervalMs = options.refillIntervalMs;
+    this.tokens = options.capacity;
+  }
+
+  /**
+   * Resolves once the caller may send a request.
+   */
+  public take(): Promise<void> {
+    const turn = this.pending.then(() => this.acquire());
+    this.pending = turn;
+    return turn;
+  }
+
+  public pauseFor(durationMs: number): void {
+    const until = Date.now() + durationMs;
+    if (until <= this.pausedUntil) return;
+
+    // One request may go as soon as the pause ends, not a whole burst
+    this.pausedUntil = until;
+    this.tokens = Math.min(this.tokens, 1);
+    this.lastRefill = until;
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await this.sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+
+      await this.sleep((1 - this.tokens) * this.refillIntervalMs);
+    }
+  }
+
+  private refill(now: number): void {
+    if (this.refillIntervalMs === 0) {
+      this.tokens = this.capacity;
+    } else if (now > this.lastRefill) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.lastRefill) / this.refillIntervalMs
+      );
+    }
+    this.lastRefill = Math.max(this.lastRefill, now);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, Math.ceil(ms)));
+  }
+}
@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+import "dotenv/config.js";
+import path from "path";
+import chalk from "chalk";
+import {
+  getCostRates,
+  getExportDir,
+  replaySuite,
+  startServer,
+  writeRunReports,
+} from "./index.js";
+import { loadRunConfig, toDiscoveryConfig } from "./config/runConfig.js";
+import { ConfigValidationError } from "./config/schema.js";
+import { PersonaLibrary } from "./personas/personaLibrary.js";
+import { DomainPackLibrary } from "./domains/domainPack.js";
+import { DomainContext } from "./domains/domainContext.js";
+import {
+  RegressionSuiteGenerator,
+  loadRegressionSuite,
+} from "./regression/regressionSuite.js";
+import { StateStore } from "./persistence/stateStore.js";
+import { DiscoverySnapshot } from "./orchestrator/discoveryOrchestrator.js";
+import { ConversationTree } from "./discovery/conversationTree.js";
+import {
+  BudgetReport,
+  BudgetTracker,
+} from "./orchestrator/budgetTracker.js";
+
+const USAGE = `Usage: discover <command> [options]
+
+Commands:
+  run <config> [--out <dir>]    Start the server and a run from a config file
+  resume <runId> [--out <dir>]  Start the server and continue a saved run
+  serve                         Start the server without a run
+  export <runId> [--out <dir>]  Write a saved run's reports
+  report <runId>                Print a summary of a saved run
+  suite <runId> [--out <file>]  Write a regression suite from a saved run
+  replay <suite> [--out <dir>] [--phone <number>]
+                                Replay a regression suite and grade it
+
+--out <dir> replaces EXPORT_DIR: run, resume and export write to
+<dir>/<runId>, and replay to <dir>/replays/replay_<timestamp>. For suite,
+--out is the file to write.
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  out?: string;
+  phone?: string;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const positional: string[] = [];
+  let out: string | undefined;
+  let phone: string | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--out") {
+      out = rest[++i];
+      if (!out) {
+        throw new UsageError("--out needs a path");
+      }
+    } else if (rest[i] === "--phone") {
+      phone = rest[++i];
+      if (!phone) {
+        throw new UsageError("--phone needs a number");
+      }
+    } else if (rest[i].startsWith("--")) {
+      throw new UsageError(`Unknown option: ${rest[i]}`);
+    } else {
+      positional.push(rest[i]);
+    }
+  }
+
+  return { command, positional, out, phone };
+}
+
+function requireArgument(args: ParsedArgs, name: string): string {
+  if (args.positional.length !== 1) {
+    throw new UsageError(`${args.command} takes exactly one <${name}>`);
+  }
+  return args.positional[0];
+}
+
+async function loadSnapshot(runId: string): Promise<DiscoverySnapshot> {
+  const stateStore = new StateStore<DiscoverySnapshot>(
+    process.env.STATE_DIR || "data/runs"
+  );
+  if (!(await stateStore.exists(runId))) {
+    throw new UsageError(`No snapshot found for run ${runId}`);
+  }
+  return stateStore.load(runId);
+}
+
+function getBudgetReport(snapshot: DiscoverySnapshot): BudgetReport {
+  const tracker = new BudgetTracker({
+    budget: snapshot.config.budget,
+    costRates: getCostRates(),
+  });
+  if (snapshot.budgetUsage) {
+    tracker.restore(snapshot.budgetUsage);
+  }
+  return tracker.getReport();
+}
+
+async function exportSnapshot(runId: string, out?: string): Promise<void> {
+  const snapshot = await loadSnapshot(runId);
+  const outputDir = path.join(out ?? getExportDir(), runId);
+
+  await writeRunReports(
+    ConversationTree.fromSnapshot(snapshot.tree),
+    getBudgetReport(snapshot),
+    outputDir,
+    snapshot.domainPack
+  );
+  console.log(`Wrote reports for ${runId} to ${outputDir}`);
+}
+
+async function printReport(runId: string): Promise<void> {
+  const snapshot = await loadSnapshot(runId);
+  const tree = ConversationTree.fromSnapshot(snapshot.tree);
+  const summary = tree.getTreeSummary();
+  const budget = getBudgetReport(snapshot);
+  const { config, state } = snapshot;
+  const savedAt = new Date(snapshot.savedAt).toLocaleString();
+
+  console.log(chalk.bold(`\n=== Run ${snapshot.runId} ===`));
+  console.log(chalk.dim(`Saved: ${savedAt}`));
+  console.log(`Target: ${config.phoneNumber}`);
+  console.log(`Strategy: ${config.explorationStrategy ?? "best-first"}`);
+  console.log(
+    `Status: ${state.isRunning ? "interrupted while running" : "stopped"}` +
+      (state.budgetExhausted
+        ? chalk.red(` (budget exhausted: ${state.budgetExhausted})`)
+        : "")
+  );
+
+  console.log(chalk.bold("\nCalls"));
+  console.log(chalk.green(`  Completed: ${state.completedCallCount}`));
+  console.log(chalk.red(`  Failed: ${state.failedCallCount}`));
+  console.log(chalk.magenta(`  Timed out: ${state.timedOutCallCount}`));
+  console.log(`  Still queued: ${snapshot.callQueue.length}`);
+
+  console.log(chalk.bold("\nConversation tree"));
+  console.log(
+    `  Paths: ${summary.completedPaths}/${summary.totalPaths} completed`
+  );
+  console.log(
+    `  Depth: ${summary.maxDepthReached} of ${summary.maxAllowedDepth}`
+  );
+  console.log(`  Collapsed duplicates: ${summary.collapsedPaths}`);
+  console.log(
+    `  Themes (${summary.uniqueThemesExplored}): ` +
+      (summary.exploredThemes.join(", ") || "none")
+  );
+
+  console.log(chalk.bold("\nBudget"));
+  Object.entries(budget.utilization).forEach(([metric, fraction]) => {
+    console.log(`  ${metric}: ${Math.round(fraction * 100)}% of limit`);
+  });
+  const cost = budget.estimatedCostUsd.total.toFixed(2);
+  console.log(chalk.blue(`  Estimated cost: $${cost}`));
+}
+
+async function writeSuite(runId: string, out?: string): Promise<void> {
+  const snapshot = await loadSnapshot(runId);
+  const filePath =
+    out ?? path.join(getExportDir(), runId, "regression-suite.yaml");
+  const generator = new RegressionSuiteGenerator();
+
+  const suite = generator.generate(
+    ConversationTree.fromSnapshot(snapshot.tree),
+    {
+      name: `Run ${runId}`,
+      phoneNumber: snapshot.config.phoneNumber,
+      sourceRunId: runId,
+      domain: new DomainContext(undefined, snapshot.domainPack),
+    }
+  );
+  if (suite.cases.length === 0) {
+    throw new UsageError(`Run ${runId} has no completed paths to replay`);
+  }
+  await generator.save(suite, filePath);
+  console.log(`Wrote ${suite.cases.length} cases to ${filePath}`);
+}
+
+/**
+ * Returns whether every case passed.
+ */
+async function replay(
+  suitePath: string,
+  out?: string,
+  phone?: string
+): Promise<boolean> {
+  const suite = await loadRegressionSuite(suitePath);
+  const outputDir = path.join(
+    out ?? getExportDir(),
+    "replays",
+    `replay_${Date.now()}`
+  );
+  const report = await replaySuite(suite, { outputDir, phoneNumber: phone });
+
+  console.log(chalk.bold(`\n=== Replay of ${report.suite} ===`));
+  report.cases.forEach((result) => {
+    const color =
+      result.status === "passed"
+        ? chalk.green
+        : result.status === "failed"
+        ? chalk.red
+        : chalk.magenta;
+    console.log(color(`  [${result.status}] ${result.name}`));
+    if (result.error) {
+      console.log(chalk.dim(`      ${result.error}`));
+    }
+    result.results
+      .filter((check) => !check.passed)
+      .forEach((check) =>
+        console.log(
+          chalk.dim(`      ${check.expectation.description}: ${check.detail}`)
+        )
+      );
+  });
+  console.log(
+    `\nPassed: ${report.passed}, failed: ${report.failed}, ` +
+      `errors: ${report.errored}`
+  );
+  console.log(chalk.dim(`Report: ${path.join(outputDir, "replay-report.json")}`));
+
+  return report.failed === 0 && report.errored === 0;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const args = parseArgs(argv);
+
+  switch (args.command) {
+    case "run": {
+      const file = await loadRunConfig(requireArgument(args, "config"));
+      const personas = await PersonaLibrary.fromFiles(file.personaFiles ?? []);
+      const domainPacks = file.domainPackFiles
+        ? await DomainPackLibrary.fromFiles(file.domainPackFiles)
+        : undefined;
+      await startServer({
+        run: toDiscoveryConfig(file, { personas, domainPacks }),
+        exportDir: args.out ?? file.outputDir,
+        domainPacks,
+      });
+      return;
+    }
+    case "resume":
+      await startServer({
+        resumeRunId: requireArgument(args, "runId"),
+        exportDir: args.out,
+      });
+      return;
+    case "serve":
+      await startServer();
+      return;
+    case "export":
+      await exportSnapshot(requireArgument(args, "runId"), args.out);
+      return;
+    case "report":
+      await printReport(requireArgument(args, "runId"));
+      return;
+    case "suite":
+      await writeSuite(requireArgument(args, "runId"), args.out);
+      return;
+    case "replay": {
+      const passed = await replay(
+        requireArgument(args, "suite"),
+        args.out,
+        args.phone
+      );
+      // The webhook server would otherwise keep the process alive
+      process.exit(passed ? 0 : 1);
+      return;
+    }
+    case undefined:
+    case "help":
+    case "--help":
+      console.log(USAGE);
+      return;
+    default:
+      throw new UsageError(`Unknown command: ${args.command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof ConfigValidationError) {
+    console.error(chalk.red(error.message));
+  } else if (error instanceof UsageError) {
+    console.error(chalk.red(error.message));
+    console.error(USAGE);
+  } else {
+    console.error(
+      chalk.red(error instanceof Error ? error.message : "Unknown error")
+    );
+  }
+  process.exit(1);
+});
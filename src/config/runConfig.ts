@@ -0,0 +1,236 @@
+import path from "path";
+import { DiscoveryConfig } from "../orchestrator/discoveryOrchestrator.js";
+import {
+  RUN_BUDGET_KEYS,
+  RunBudget,
+} from "../orchestrator/budgetTracker.js";
+import {
+  EXPLORATION_STRATEGIES,
+  ExplorationStrategyName,
+} from "../orchestrator/explorationStrategy.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+import { PersonaLibrary } from "../personas/personaLibrary.js";
+import { DomainPackLibrary } from "../domains/domainPack.js";
+import {
+  ConfigIssue,
+  ConfigValidationError,
+  FieldSchema,
+  readConfigFile,
+  validateSchema,
+} from "./schema.js";
+
+export interface SeedIntent {
+  goal: string;
+  steps: string[];
+  /** Dial the seed as this persona only, instead of every listed persona */
+  persona?: string;
+}
+
+/**
+ * A discovery run as written in a YAML or JSON config file.
+ */
+export interface RunConfigFile {
+  target: {
+    phoneNumber: string;
+    webhookUrl?: string;
+  };
+  /** Who the caller pretends to be; each seed is tried as each persona */
+  personas?: string[];
+  /** Goals for the first calls, instead of a general introductory call */
+  seeds?: SeedIntent[];
+  /** Ids of library personas every discovered intent is also tried as */
+  callerPersonas?: string[];
+  /** Persona files to add to the built-in library */
+  personaFiles?: string[];
+  /** Id of the agent's domain pack; detected from its first response if unset */
+  domain?: string;
+  /** Domain pack files to add to the built-in packs */
+  domainPackFiles?: string[];
+  maxDepth?: number;
+  maxConcurrentCalls?: number;
+  minTimeBetweenCalls?: number;
+  maxCallDuration?: number;
+  retryDelayMs?: number;
+  similarityThreshold?: number;
+  strategy?: ExplorationStrategyName;
+  budget?: RunBudget;
+  outputDir?: string;
+}
+
+const BUDGET_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: Object.fromEntries(
+    RUN_BUDGET_KEYS.map((key) => [key, { type: "number", min: 0 }])
+  ),
+};
+
+export const RUN_CONFIG_SCHEMA: FieldSchema = {
+  type: "object",
+  required: true,
+  fields: {
+    target: {
+      type: "object",
+      required: true,
+      fields: {
+        phoneNumber: { type: "string", required: true },
+        webhookUrl: { type: "string" },
+      },
+    },
+    personas: { type: "array", items: { type: "string" }, minItems: 1 },
+    seeds: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        fields: {
+          goal: { type: "string", required: true },
+          steps: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            required: true,
+          },
+          persona: { type: "string" },
+        },
+      },
+    },
+    callerPersonas: { type: "array", items: { type: "string" } },
+    personaFiles: { type: "array", items: { type: "string" } },
+    domain: { type: "string" },
+    domainPackFiles: { type: "array", items: { type: "string" } },
+    maxDepth: { type: "number", min: 1, integer: true },
+    maxConcurrentCalls: { type: "number", min: 1, integer: true },
+    minTimeBetweenCalls: { type: "number", min: 0 },
+    maxCallDuration: { type: "number", min: 1 },
+    retryDelayMs: { type: "number", min: 0 },
+    similarityThreshold: { type: "number", min: 0, max: 1 },
+    strategy: { type: "enum", values: EXPLORATION_STRATEGIES },
+    budget: BUDGET_SCHEMA,
+    outputDir: { type: "string" },
+  },
+};
+
+/** Libraries that ids in a run config are looked up in */
+export interface RunConfigLibraries {
+  personas?: PersonaLibrary;
+  domainPacks?: DomainPackLibrary;
+}
+
+const DEFAULT_PERSONA = "a customer making your first call to this business";
+
+/**
+ * Reads a run config from a `.yaml`, `.yml` or `.json` file and validates it.
+ * Persona files, domain pack files and the output directory are resolved
+ * relative to the config file.
+ */
+export async function loadRunConfig(filePath: string): Promise<RunConfigFile> {
+  const parsed = await readConfigFile(filePath, `run config ${filePath}`);
+  const file = parseRunConfig(parsed, filePath);
+
+  const resolve = (relativePath: string) =>
+    path.resolve(path.dirname(filePath), relativePath);
+
+  return {
+    ...file,
+    personaFiles: file.personaFiles?.map(resolve),
+    domainPackFiles: file.domainPackFiles?.map(resolve),
+    outputDir: file.outputDir && resolve(file.outputDir),
+  };
+}
+
+/**
+ * Checks a parsed config against RUN_CONFIG_SCHEMA and reports every
+ * problem at once, each with the path of the key it is about.
+ */
+export function parseRunConfig(
+  value: unknown,
+  source: string = "config"
+): RunConfigFile {
+  const issues = validateSchema(value, RUN_CONFIG_SCHEMA);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(`run config ${source}`, issues);
+  }
+  return value as RunConfigFile;
+}
+
+// Paths on the server's disk, which API clients must not choose
+const FILE_ONLY_KEYS = ["personaFiles", "domainPackFiles", "outputDir"] as const;
+
+/**
+ * Validates a run config sent to the runs API. It has the same shape as a
+ * config file, but keys naming files on the server are rejected.
+ */
+export function parseRunRequest(value: unknown): RunConfigFile {
+  const file = parseRunConfig(value, "request");
+  const issues = FILE_ONLY_KEYS.filter((key) => file[key] !== undefined).map(
+    (key) => ({ path: key, message: "is only supported in config files" })
+  );
+  if (issues.length > 0) {
+    throw new ConfigValidationError("run config request", issues);
+  }
+  return file;
+}
+
+/**
+ * Turns a config file into the orchestrator's config. Seeds are expanded
+ * into one intent per persona, and caller personas and the domain are
+ * looked up in `libraries`, the built-ins by default.
+ */
+export function toDiscoveryConfig(
+  file: RunConfigFile,
+  libraries: RunConfigLibraries = {}
+): Partial<DiscoveryConfig> {
+  const library = libraries.personas ?? new PersonaLibrary();
+  const domainPacks = libraries.domainPacks ?? new DomainPackLibrary();
+
+  const issues: ConfigIssue[] = [];
+  const knownPersonas = library.list().map((persona) => persona.id);
+  (file.callerPersonas ?? []).forEach((id, index) => {
+    if (!library.has(id)) {
+      issues.push({
+        path: `callerPersonas[${index}]`,
+        message: `is not a known persona (known: ${knownPersonas.join(", ")})`,
+      });
+    }
+  });
+  if (file.domain !== undefined && !domainPacks.has(file.domain)) {
+    const known = domainPacks.list().map((pack) => pack.id);
+    issues.push({
+      path: "domain",
+      message: `is not a known domain pack (known: ${known.join(", ")})`,
+    });
+  }
+  if (issues.length > 0) {
+    throw new ConfigValidationError("run config", issues);
+  }
+
+  const personas = file.personas ?? [DEFAULT_PERSONA];
+  const seedIntents: CallerIntent[] = (file.seeds ?? []).flatMap((seed) =>
+    (seed.persona ? [seed.persona] : personas).map((persona) => ({
+      persona,
+      goal: seed.goal,
+      steps: seed.steps,
+    }))
+  );
+
+  const config: Partial<DiscoveryConfig> = {
+    phoneNumber: file.target.phoneNumber,
+    webhookUrl: file.target.webhookUrl,
+    maxDepth: file.maxDepth,
+    maxConcurrentCalls: file.maxConcurrentCalls,
+    minTimeBetweenCalls: file.minTimeBetweenCalls,
+    maxCallDuration: file.maxCallDuration,
+    retryDelayMs: file.retryDelayMs,
+    similarityThreshold: file.similarityThreshold,
+    explorationStrategy: file.strategy,
+    budget: file.budget,
+    seedIntents: seedIntents.length > 0 ? seedIntents : undefined,
+    callerPersonas: file.callerPersonas?.map((id) => library.get(id)),
+    domainPack: file.domain ? domainPacks.get(file.domain) : undefined,
+  };
+
+  // Unset keys fall back to the orchestrator's defaults
+  return Object.fromEntries(
+    Object.entries(config).filter(([, field]) => field !== undefined)
+  ) as Partial<DiscoveryConfig>;
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import path from "path";
+import yaml from "js-yaml";
+
+export interface ConfigIssue {
+  /** Dotted path to the offending key, e.g. `seeds[1].goal` */
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  public readonly issues: ConfigIssue[];
+
+  /**
+   * `source` names what was invalid, e.g. `run config discovery.yaml`.
+   */
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(
+      `Invalid ${source}:\n` +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join("\n")
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+export type FieldSchema =
+  | { type: "string"; required?: boolean }
+  | {
+      type: "number";
+      required?: boolean;
+      min?: number;
+      max?: number;
+      integer?: boolean;
+    }
+  | { type: "enum"; values: readonly string[]; required?: boolean }
+  | {
+      type: "array";
+      items: FieldSchema;
+      minItems?: number;
+      required?: boolean;
+    }
+  | {
+      type: "object";
+      fields: Record<string, FieldSchema>;
+      required?: boolean;
+    };
+
+/**
+ * Reads a `.yaml`, `.yml` or `.json` file. Syntax errors are reported as a
+ * ConfigValidationError so they print like any other config problem.
+ */
+export async function readConfigFile(
+  filePath: string,
+  source: string
+): Promise<unknown> {
+  const contents = await fs.readFile(filePath, "utf-8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    return extension === ".json" ? JSON.parse(contents) : yaml.load(contents);
+  } catch (error) {
+    throw new ConfigValidationError(source, [
+      {
+        path: "(file)",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    ]);
+  }
+}
+
+/**
+ * Checks a value against a schema and returns every problem at once, each
+ * with the path of the key it is about. Unknown keys are problems too.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: FieldSchema
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validate(value, schema, "", issues);
+  return issues;
+}
+
+function validate(
+  value: unknown,
+  schema: FieldSchema,
+  keyPath: string,
+  issues: ConfigIssue[]
+): void {
+  const report = (message: string) =>
+    issues.push({ path: keyPath || "(root)", message });
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string" || !value.trim()) {
+        report("must be a non-empty string");
+      }
+      return;
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        report("must be a number");
+      } else if (schema.integer && !Number.isInteger(value)) {
+        report("must be a whole number");
+      } else if (schema.min !== undefined && value < schema.min) {
+        report(`must be at least ${schema.min}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        report(`must be at most ${schema.max}`);
+      }
+      return;
+
+    case "enum":
+      if (typeof value !== "string" || !schema.values.includes(value)) {
+        report(`must be one of ${schema.values.join(", ")}`);
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        report("must be a list");
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        report(`must have at least ${schema.minItems} item(s)`);
+      }
+      value.forEach((item, index) =>
+        validate(item, schema.items, `${keyPath}[${index}]`, issues)
+      );
+      return;
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        report("must be a mapping of keys to values");
+        return;
+      }
+
+      const fields = value as Record<string, unknown>;
+      const prefix = keyPath ? `${keyPath}.` : "";
+      Object.keys(fields)
+        .filter((key) => !Object.hasOwn(schema.fields, key))
+        .forEach((key) =>
+          issues.push({
+            path: `${prefix}${key}`,
+            message: "is not a known key",
+          })
+        );
+
+      Object.entries(schema.fields).forEach(([key, fieldSchema]) => {
+        if (fields[key] === undefined || fields[key] === null) {
+          if (fieldSchema.required) {
+            issues.push({ path: `${prefix}${key}`, message: "is required" });
+          }
+          return;
+        }
+        validate(fields[key], fieldSchema, `${prefix}${key}`, issues);
+      });
+      return;
+    }
+  }
+}
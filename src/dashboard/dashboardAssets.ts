@@ -0,0 +1,239 @@
+/**
+ * Static assets of the live dashboard. The script is served as its own file
+ * because helmet's default Content-Security-Policy blocks inline scripts.
+ */
+
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Voice Agent Discovery</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; display: flex; height: 100vh; color: #212121; }
+  aside { width: 280px; border-right: 1px solid #e0e0e0; overflow-y: auto; padding: 12px; box-sizing: border-box; }
+  main { flex: 1; overflow-y: auto; padding: 16px 24px; }
+  h1 { font-size: 18px; margin: 0 0 12px; }
+  h2 { font-size: 16px; margin: 0 0 8px; }
+  .run { display: block; width: 100%; text-align: left; padding: 8px; margin-bottom: 6px; border: 1px solid #e0e0e0; border-radius: 4px; background: #fff; cursor: pointer; font: inherit; }
+  .run.selected { border-color: #1565c0; background: #e3f2fd; }
+  .run small { display: block; color: #616161; }
+  #summary { color: #616161; margin-bottom: 12px; }
+  #connection { font-size: 12px; margin-left: 8px; }
+  details { margin: 4px 0 4px 18px; border-left: 3px solid #9e9e9e; padding-left: 8px; }
+  details > summary { cursor: pointer; padding: 2px 0; }
+  .status { display: inline-block; min-width: 86px; font-size: 12px; font-weight: 600; }
+  .status-unexplored { color: #9e9e9e; }
+  .status-in-progress { color: #f9a825; }
+  .status-completed { color: #2e7d32; }
+  .status-failed { color: #c62828; }
+  details.status-in-progress { border-color: #f9a825; }
+  details.status-completed { border-color: #2e7d32; }
+  details.status-failed { border-color: #c62828; }
+  .turn { margin: 2px 0; white-space: pre-wrap; }
+  .turn b { display: inline-block; min-width: 56px; }
+  .meta { font-size: 12px; color: #616161; margin: 4px 0; }
+  .collapsed { font-size: 12px; color: #757575; font-style: italic; }
+  #log { font-family: monospace; font-size: 12px; margin-top: 24px; border-top: 1px solid #e0e0e0; padding-top: 8px; }
+  #log div { padding: 1px 0; }
+</style>
+</head>
+<body>
+<aside>
+  <h1>Runs</h1>
+  <div id="runs">Loading...</div>
+</aside>
+<main>
+  <h2 id="title">Select a run<span id="connection"></span></h2>
+  <div id="summary"></div>
+  <div id="tree"></div>
+  <div id="log"></div>
+</main>
+<script src="app.js"></script>
+</body>
+</html>
+`;
+
+export const DASHBOARD_SCRIPT = `(function () {
+  "use strict";
+
+  var API = "../runs";
+  var MAX_LOG_LINES = 200;
+  var selectedRunId = null;
+  var source = null;
+  var refreshTimer = null;
+  // Keeps expanded nodes open across re-renders
+  var openNodes = {};
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function getJson(path) {
+    return fetch(API + path).then(function (res) {
+      if (!res.ok) throw new Error(res.status + " " + res.statusText);
+      return res.json();
+    });
+  }
+
+  function loadRuns() {
+    return getJson("").then(function (body) {
+      var container = document.getElementById("runs");
+      container.textContent = "";
+      if (body.runs.length === 0) {
+        container.textContent = "No runs yet.";
+      }
+      body.runs.forEach(function (run) {
+        var button = el("button", "run" + (run.runId === selectedRunId ? " selected" : ""));
+        button.appendChild(el("span", null, run.runId));
+        button.appendChild(el("small", null, run.phoneNumber + " - " + run.status));
+        button.addEventListener("click", function () {
+          location.hash = run.runId;
+        });
+        container.appendChild(button);
+      });
+      if (!selectedRunId && body.runs.length > 0 && !location.hash) {
+        location.hash = body.runs[0].runId;
+      }
+    });
+  }
+
+  function renderSummary(run) {
+    var summary = run.state.treeSummary;
+    document.getElementById("summary").textContent =
+      run.status + " - " + summary.totalPaths + " paths, " +
+      summary.completedPaths + " completed, " + run.state.failedCallCount + " failed calls, " +
+      run.state.timedOutCallCount + " timed out, " +
+      summary.collapsedPaths + " collapsed, " + run.state.activeCallCount + " active, " +
+      run.state.queueLength + " queued, ~$" +
+      run.state.budget.estimatedCostUsd.total.toFixed(2) + " spent" +
+      (run.state.budgetExhausted
+        ? " - budget exhausted (" + run.state.budgetExhausted + ")"
+        : "") +
+      (run.state.dialingPausedUntil
+        ? " - dialing paused until " + run.state.dialingPausedUntil.slice(11, 19)
+        : "");
+  }
+
+  function renderNode(node, byId) {
+    var details = el("details", "status-" + node.status);
+    details.open = !!openNodes[node.id];
+    details.addEventListener("toggle", function () {
+      openNodes[node.id] = details.open;
+    });
+
+    var summary = el("summary");
+    summary.appendChild(el("span", "status status-" + node.status, node.status));
+    summary.appendChild(document.createTextNode(node.pathSummary || node.id));
+    details.appendChild(summary);
+
+    var meta = "call " + node.callId + ", depth " + node.depth;
+    if (node.retryCount > 0) meta += ", " + node.retryCount + " retries";
+    if (node.durationMs !== null) meta += ", " + Math.round(node.durationMs / 1000) + "s";
+    if (node.themes.length > 0) meta += ", themes: " + node.themes.join(", ");
+    if (node.analysis) meta += ", confidence " + node.analysis.confidence;
+    details.appendChild(el("div", "meta", meta));
+
+    if (node.turns.length > 0) {
+      node.turns.forEach(function (turn) {
+        var line = el("div", "turn");
+        line.appendChild(el("b", null, turn.role));
+        line.appendChild(document.createTextNode(turn.text));
+        details.appendChild(line);
+      });
+    } else if (node.transcript) {
+      details.appendChild(el("div", "turn", node.transcript));
+    }
+
+    node.collapsedPaths.forEach(function (collapsed) {
+      details.appendChild(el("div", "collapsed",
+        "Collapsed into " + collapsed.duplicateOf + " (" + collapsed.matchedOn +
+        ", " + collapsed.similarity.toFixed(2) + ")"));
+    });
+
+    node.children.forEach(function (childId) {
+      if (byId[childId]) details.appendChild(renderNode(byId[childId], byId));
+    });
+    return details;
+  }
+
+  function renderTree(report) {
+    var byId = {};
+    report.nodes.forEach(function (node) { byId[node.id] = node; });
+    var container = document.getElementById("tree");
+    container.textContent = "";
+    report.nodes.forEach(function (node) {
+      if (node.parentId === null) container.appendChild(renderNode(node, byId));
+    });
+  }
+
+  function logEvent(event) {
+    var log = document.getElementById("log");
+    var payload = event.payload;
+    var line = event.timestamp.slice(11, 19) + " " + event.type;
+    if (payload.nodeId) line += " " + payload.nodeId;
+    if (payload.callId) line += " (" + payload.callId + ")";
+    if (payload.metric) {
+      line += " " + payload.metric + " " + Math.round(payload.used) + "/" + payload.limit;
+    }
+    log.insertBefore(el("div", null, line), log.firstChild);
+    while (log.childNodes.length > MAX_LOG_LINES) log.removeChild(log.lastChild);
+  }
+
+  function refresh() {
+    if (refreshTimer) return;
+    refreshTimer = setTimeout(function () {
+      refreshTimer = null;
+      var runId = selectedRunId;
+      Promise.all([getJson("/" + runId), getJson("/" + runId + "/tree")])
+        .then(function (results) {
+          if (runId !== selectedRunId) return;
+          renderSummary(results[0]);
+          renderTree(results[1]);
+        })
+        .catch(function (error) { console.error(error); });
+      loadRuns();
+    }, 250);
+  }
+
+  function select(runId) {
+    if (source) source.close();
+    selectedRunId = runId;
+    openNodes = {};
+    document.getElementById("title").firstChild.textContent = runId;
+    document.getElementById("log").textContent = "";
+    var connection = document.getElementById("connection");
+
+    source = new EventSource(API + "/" + encodeURIComponent(runId) + "/events");
+    source.onopen = function () { connection.textContent = "live"; };
+    source.onerror = function () { connection.textContent = "reconnecting..."; };
+    source.addEventListener("snapshot", function (message) {
+      var snapshot = JSON.parse(message.data);
+      renderSummary(snapshot.run);
+      renderTree(snapshot.tree);
+    });
+    [
+      "RunStarted", "NodeAdded", "CallQueued", "CallStarted", "CallCompleted",
+      "CallFailed", "CallTimedOut", "PathsIdentified", "NodeTerminal",
+      "BudgetWarning", "BudgetExhausted", "RunFinished"
+    ].forEach(function (type) {
+      source.addEventListener(type, function (message) {
+        logEvent(JSON.parse(message.data));
+        refresh();
+      });
+    });
+    loadRuns();
+  }
+
+  window.addEventListener("hashchange", function () {
+    if (location.hash.length > 1) select(decodeURIComponent(location.hash.slice(1)));
+  });
+
+  loadRuns().then(function () {
+    if (location.hash.length > 1) select(decodeURIComponent(location.hash.slice(1)));
+  });
+  setInterval(loadRuns, 10000);
+})();
+`;
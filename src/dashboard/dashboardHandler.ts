@@ -0,0 +1,40 @@
+import { Router, Request, Response } from "express";
+import { DASHBOARD_HTML, DASHBOARD_SCRIPT } from "./dashboardAssets.js";
+
+/**
+ * Serves the browser dashboard. It reads runs from the runs API and follows
+ * the selected run over its Server-Sent Events stream, so it is meant to be
+ * mounted next to the runs router.
+ */
+export class DashboardHandler {
+  private router: Router;
+
+  constructor() {
+    this.router = Router();
+    this.configureRoutes();
+  }
+
+  private configureRoutes(): void {
+    this.router.get("/", this.handleIndex.bind(this));
+    this.router.get("/app.js", this.handleScript.bind(this));
+  }
+
+  private handleIndex(req: Request, res: Response): void {
+    // The page loads its script and the API relative to the mount path
+    const [path, query] = req.originalUrl.split("?");
+    if (!path.endsWith("/")) {
+      res.redirect(301, `${path}/${query ? `?${query}` : ""}`);
+      return;
+    }
+
+    res.status(200).type("html").send(DASHBOARD_HTML);
+  }
+
+  private handleScript(req: Request, res: Response): void {
+    res.status(200).type("application/javascript").send(DASHBOARD_SCRIPT);
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
@@ -1,26 +1,89 @@
 import logger from "../utils/logger.js";
-
-enum NodeStatus {
+import { TranscriptTurn } from "../transcription/transcriber.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+import { AnalysisResult } from "../analyzer/responseAnalyzer.js";
+import { DiscoveryEventPublisher } from "../events/discoveryEvents.js";
+import {
+  ThemeClassifier,
+  ThemeScores,
+  mergeThemeScores,
+} from "../themes/themeClassifier.js";
+
+export enum NodeStatus {
   UNEXPLORED = "unexplored",
   IN_PROGRESS = "in-progress",
   COMPLETED = "completed",
   FAILED = "failed",
 }
 
-interface CallNode {
+export interface CallNode {
   id: string;
   systemPrompt: string;
   responseReceived: string;
+  transcript?: TranscriptTurn[];
   callId: string;
   status: NodeStatus;
   children: CallNode[];
   parentId: string | null;
   timestamp: Date;
+  completedAt?: Date;
   depth: number;
   potentialPrompts?: string[];
   retryCount: number;
   pathSignature: string;
   exploredThemes: Set<string>;
+  /**
+   * Confidence in each theme found in the prompt, response or analysis.
+   * Missing from nodes snapshotted before themes were scored.
+   */
+  themeScores?: ThemeScores;
+  collapsedPaths?: CollapsedPath[];
+  /** What the caller does on this branch, on top of its ancestors' steps */
+  intent?: CallerIntent;
+  /** Intents from the root down to and including this node */
+  intentPath: CallerIntent[];
+  /** Id of the persona the caller played, if not the plain intent */
+  personaId?: string;
+  analysis?: AnalysisResult;
+}
+
+export interface AddNodeOptions {
+  nodeId?: string;
+  intent?: CallerIntent;
+}
+
+/**
+ * A candidate prompt that was not explored because it was semantically
+ * equivalent to an existing path. `duplicateOf` is the node it collapsed into.
+ */
+export interface CollapsedPath {
+  prompt: string;
+  duplicateOf: string;
+  matchedOn: "prompt" | "response";
+  similarity: number;
+  collapsedAt: string;
+}
+
+/**
+ * JSON-safe form of a CallNode. Children are stored by id so the tree can be
+ * rebuilt without duplicating subtrees in the snapshot.
+ */
+export interface SerializedCallNode
+  extends Omit<
+    CallNode,
+    "children" | "timestamp" | "completedAt" | "exploredThemes"
+  > {
+  children: string[];
+  timestamp: string;
+  completedAt?: string;
+  exploredThemes: string[];
+}
+
+export interface ConversationTreeSnapshot {
+  maxDepth: number;
+  rootId: string | null;
+  nodes: SerializedCallNode[];
+  exploredSignatures: string[];
 }
 
 export class ConversationTree {
@@ -29,15 +92,27 @@ export class ConversationTree {
   private maxDepth: number;
   private exploredSignatures: Set<string>;
   private readonly MAX_CHILDREN_PER_NODE = 5;
-
-  constructor(maxDepth: number = 10) {
+  private readonly publish?: DiscoveryEventPublisher;
+  private readonly themes: ThemeClassifier;
+
+  constructor(
+    maxDepth: number = 10,
+    publish?: DiscoveryEventPublisher,
+    themes: ThemeClassifier = new ThemeClassifier()
+  ) {
     this.nodes = new Map();
     this.rootNode = null;
     this.maxDepth = maxDepth;
     this.exploredSignatures = new Set();
+    this.publish = publish;
+    this.themes = themes;
   }
 
-  public initializeRoot(systemPrompt: string, callId: string): CallNode {
+  public initializeRoot(
+    systemPrompt: string,
+    callId: string,
+    intent?: CallerIntent
+  ): CallNode {
     if (this.rootNode) {
       throw new Error("Tree already initialized");
     }
@@ -55,6 +130,10 @@ export class ConversationTree {
       retryCount: 0,
       pathSignature: this.generatePathSignature(systemPrompt),
       exploredThemes: new Set(),
+      themeScores: {},
+      intent,
+      intentPath: intent ? [intent] : [],
+      personaId: intent?.callerPersona?.id,
     };
 
     this.rootNode = rootNode;
@@ -66,6 +145,7 @@ export class ConversationTree {
       callId,
       systemPromptPreview: systemPrompt.substring(0, 50),
     });
+    this.publishNodeAdded(rootNode);
 
     return rootNode;
   }
@@ -73,7 +153,8 @@ export class ConversationTree {
   public addNode(
     parentId: string,
     systemPrompt: string,
-    callId: string
+    callId: string,
+    options: AddNodeOptions = {}
   ): CallNode {
     const parentNode = this.nodes.get(parentId);
     if (!parentNode) {
@@ -84,7 +165,7 @@ export class ConversationTree {
       throw new Error(`Maximum depth ${this.maxDepth} reached`);
     }
 
-    if (parentNode.children.length >= this.MAX_CHILDREN_PER_NODE) {
+    if (!this.hasChildSlot(parentNode, options.intent?.callerPersona?.id)) {
       throw new Error(`Maximum children limit reached for node ${parentId}`);
     }
 
@@ -93,8 +174,10 @@ export class ConversationTree {
       throw new Error("Similar conversation path already explored");
     }
 
+    const themeScores = this.themes.scoreText(systemPrompt);
+
     const newNode: CallNode = {
-      id: `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: options.nodeId ?? ConversationTree.createNodeId(),
       systemPrompt,
       responseReceived: "",
       callId,
@@ -105,7 +188,13 @@ export class ConversationTree {
       depth: parentNode.depth + 1,
       retryCount: 0,
       pathSignature,
-      exploredThemes: new Set(this.extractThemes(systemPrompt)),
+      exploredThemes: this.themes.selectThemes(themeScores),
+      themeScores,
+      intent: options.intent,
+      intentPath: options.intent
+        ? [...parentNode.intentPath, options.intent]
+        : [...parentNode.intentPath],
+      personaId: options.intent?.callerPersona?.id,
     };
 
     parentNode.children.push(newNode);
@@ -119,14 +208,32 @@ export class ConversationTree {
       pathSignature,
       themes: Array.from(newNode.exploredThemes),
     });
+    this.publishNodeAdded(newNode);
 
     return newNode;
   }
 
+  private publishNodeAdded(node: CallNode): void {
+    this.publish?.("NodeAdded", {
+      nodeId: node.id,
+      parentId: node.parentId,
+      depth: node.depth,
+      callId: node.callId,
+      prompt: node.systemPrompt,
+      intent: node.intent ?? null,
+    });
+  }
+
+  /**
+   * Records the agent's side of a completed call. `response` should contain
+   * only what the agent said; the full diarized transcript is kept alongside
+   * it for reporting.
+   */
   public updateNodeWithResponse(
     nodeId: string,
     response: string,
-    potentialPrompts?: string[]
+    potentialPrompts?: string[],
+    transcript?: TranscriptTurn[]
   ): Set<string> {
     const node = this.nodes.get(nodeId);
     if (!node) {
@@ -140,12 +247,15 @@ export class ConversationTree {
     );
 
     node.responseReceived = response;
+    node.transcript = transcript;
     node.potentialPrompts = uniquePrompts;
     node.status = NodeStatus.COMPLETED;
+    node.completedAt = new Date();
 
     // Update and return explored themes based on response
-    const responseThemes = this.extractThemes(response);
-    responseThemes.forEach((theme) => node.exploredThemes.add(theme));
+    const responseScores = this.themes.scoreText(response);
+    this.recordThemeScores(node, responseScores);
+    const responseThemes = this.themes.selectThemes(responseScores);
 
     logger.info("Updated node with agent response", {
       nodeId,
@@ -157,13 +267,84 @@ export class ConversationTree {
     return responseThemes;
   }
 
-  public getNodesWithUnexploredPaths(): CallNode[] {
+  /**
+   * Stores the analysis of a node's response. Returns the themes it found
+   * that the node had not been tagged with yet.
+   */
+  public recordAnalysis(
+    nodeId: string,
+    analysis: AnalysisResult
+  ): Set<string> {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+
+    node.analysis = analysis;
+    const newThemes = this.recordThemeScores(node, analysis.themeScores ?? {});
+
+    if (analysis.isTerminalState) {
+      this.publish?.("NodeTerminal", { nodeId, reason: "conversation-ended" });
+    } else if (node.depth >= this.maxDepth - 1) {
+      this.publish?.("NodeTerminal", { nodeId, reason: "max-depth" });
+    }
+
+    return newThemes;
+  }
+
+  /**
+   * Merges scores into the node's, keeping the higher confidence, and tags
+   * the node with themes that reach the threshold. Returns the themes the
+   * node was not tagged with before.
+   */
+  private recordThemeScores(node: CallNode, scores: ThemeScores): Set<string> {
+    node.themeScores = mergeThemeScores(node.themeScores ?? {}, scores);
+
+    const newThemes = new Set<string>();
+    this.themes.selectThemes(node.themeScores).forEach((theme) => {
+      if (!node.exploredThemes.has(theme)) {
+        node.exploredThemes.add(theme);
+        newThemes.add(theme);
+      }
+    });
+    return newThemes;
+  }
+
+  public static createNodeId(): string {
+    return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  public recordCollapsedPath(nodeId: string, collapsed: CollapsedPath): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+
+    node.collapsedPaths = [...(node.collapsedPaths ?? []), collapsed];
+
+    logger.info("Collapsed duplicate conversation path", {
+      nodeId,
+      duplicateOf: collapsed.duplicateOf,
+      matchedOn: collapsed.matchedOn,
+      similarity: collapsed.similarity,
+      promptPreview: collapsed.prompt.substring(0, 50),
+    });
+  }
+
+  /**
+   * Completed nodes that found follow-up paths and can still take children
+   * from the plain caller or one of `personaIds`, those with the fewest
+   * children first.
+   */
+  public getNodesWithUnexploredPaths(personaIds: string[] = []): CallNode[] {
+    const groups = [undefined, ...personaIds];
     const nodesWithPaths = Array.from(this.nodes.values()).filter(
       (node) =>
         node.status === NodeStatus.COMPLETED &&
         (node.potentialPrompts?.length ?? 0) > 0 &&
-        node.depth < this.maxDepth &&
-        node.children.length < this.MAX_CHILDREN_PER_NODE
+        // Same limits addNode enforces
+        node.depth < this.maxDepth - 1 &&
+        groups.some((personaId) => this.hasChildSlot(node, personaId))
     );
 
     return nodesWithPaths.sort((a, b) => {
@@ -174,6 +355,30 @@ export class ConversationTree {
     });
   }
 
+  /**
+   * Whether addNode would accept another child of `parentId` dialed as
+   * `personaId`, ignoring redundancy.
+   */
+  public canTakeChild(parentId: string, personaId?: string): boolean {
+    const parentNode = this.nodes.get(parentId);
+    return (
+      parentNode !== undefined &&
+      parentNode.depth < this.maxDepth - 1 &&
+      this.hasChildSlot(parentNode, personaId)
+    );
+  }
+
+  /**
+   * Each caller persona, and the plain caller, gets its own children limit,
+   * so persona variants of an intent are not crowded out by the plain ones.
+   */
+  private hasChildSlot(node: CallNode, personaId?: string): boolean {
+    const siblings = node.children.filter(
+      (child) => child.personaId === personaId
+    );
+    return siblings.length < this.MAX_CHILDREN_PER_NODE;
+  }
+
   private generatePathSignature(prompt: string): string {
     const normalized = prompt
       .toLowerCase()
@@ -209,27 +414,89 @@ export class ConversationTree {
   }
 
   private extractThemes(text: string): Set<string> {
-    const themes = new Set<string>();
-    const normalizedText = text.toLowerCase();
-
-    if (normalizedText.includes("emergency")) themes.add("emergency_service");
-    if (normalizedText.includes("maintenance")) themes.add("maintenance");
-    if (normalizedText.includes("repair")) themes.add("repair");
-    if (normalizedText.includes("installation")) themes.add("installation");
-    if (normalizedText.includes("quote")) themes.add("quote");
-    if (normalizedText.includes("pricing")) themes.add("pricing");
-    if (normalizedText.includes("name")) themes.add("personal_info");
-    if (normalizedText.includes("address")) themes.add("location_info");
-    if (normalizedText.includes("contact")) themes.add("contact_info");
-    if (normalizedText.includes("schedule")) themes.add("scheduling");
-
-    return themes;
+    return this.themes.extractThemes(text);
   }
 
   public getAllNodes(): CallNode[] {
     return Array.from(this.nodes.values());
   }
 
+  public getNode(nodeId: string): CallNode | undefined {
+    return this.nodes.get(nodeId);
+  }
+
+  public markNodeFailed(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+
+    node.status = NodeStatus.FAILED;
+    this.publish?.("NodeTerminal", { nodeId, reason: "failed" });
+  }
+
+  public toSnapshot(): ConversationTreeSnapshot {
+    return {
+      maxDepth: this.maxDepth,
+      rootId: this.rootNode?.id ?? null,
+      nodes: Array.from(this.nodes.values()).map((node) => ({
+        ...node,
+        children: node.children.map((child) => child.id),
+        timestamp: node.timestamp.toISOString(),
+        completedAt: node.completedAt?.toISOString(),
+        exploredThemes: Array.from(node.exploredThemes),
+      })),
+      exploredSignatures: Array.from(this.exploredSignatures),
+    };
+  }
+
+  public static fromSnapshot(
+    snapshot: ConversationTreeSnapshot,
+    publish?: DiscoveryEventPublisher,
+    themes?: ThemeClassifier
+  ): ConversationTree {
+    const tree = new ConversationTree(snapshot.maxDepth, publish, themes);
+
+    snapshot.nodes.forEach((serialized) => {
+      tree.nodes.set(serialized.id, {
+        ...serialized,
+        children: [],
+        timestamp: new Date(serialized.timestamp),
+        completedAt: serialized.completedAt
+          ? new Date(serialized.completedAt)
+          : undefined,
+        exploredThemes: new Set(serialized.exploredThemes),
+        intentPath: serialized.intentPath ?? [],
+      });
+    });
+
+    // Second pass so children can be linked regardless of snapshot order
+    snapshot.nodes.forEach((serialized) => {
+      const node = tree.nodes.get(serialized.id)!;
+      node.children = serialized.children.map((childId) => {
+        const child = tree.nodes.get(childId);
+        if (!child) {
+          throw new Error(
+            `Snapshot is missing child node ${childId} of ${serialized.id}`
+          );
+        }
+        return child;
+      });
+    });
+
+    tree.rootNode = snapshot.rootId
+      ? tree.nodes.get(snapshot.rootId) ?? null
+      : null;
+    tree.exploredSignatures = new Set(snapshot.exploredSignatures);
+
+    logger.info("Conversation tree restored from snapshot", {
+      nodeCount: tree.nodes.size,
+      rootId: snapshot.rootId,
+    });
+
+    return tree;
+  }
+
   public getTreeSummary() {
     const totalNodes = this.nodes.size;
     const completedNodes = Array.from(this.nodes.values()).filter(
@@ -244,6 +511,11 @@ export class ConversationTree {
       node.exploredThemes.forEach((theme) => allThemes.add(theme));
     });
 
+    const collapsedPaths = Array.from(this.nodes.values()).reduce(
+      (count, node) => count + (node.collapsedPaths?.length ?? 0),
+      0
+    );
+
     return {
       totalPaths: totalNodes,
       completedPaths: completedNodes,
@@ -251,6 +523,7 @@ export class ConversationTree {
       maxAllowedDepth: this.maxDepth,
       uniqueThemesExplored: allThemes.size,
       exploredThemes: Array.from(allThemes),
+      collapsedPaths,
     };
   }
 }
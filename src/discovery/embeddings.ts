@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import logger from "../utils/logger.js";
+
+/**
+ * Turns text into vectors for similarity comparisons. Embedders that learn
+ * corpus statistics implement `fit`; their vectors change as more text is
+ * seen, so callers should not cache them.
+ */
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+  fit?(texts: string[]): void;
+}
+
+export type EmbeddingProvider = "local" | "openai";
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "for",
+  "from", "have", "how", "i", "if", "in", "is", "it", "me", "my", "of", "on",
+  "or", "so", "that", "the", "their", "them", "they", "this", "to", "was",
+  "we", "what", "when", "with", "you", "your",
+]);
+
+/**
+ * Offline TF-IDF embedder using feature hashing, so vectors have a fixed size
+ * without keeping a vocabulary. Unigrams and bigrams are both hashed to give
+ * some weight to word order. Words shared by every prompt (template text)
+ * receive a low IDF and stop dominating the similarity.
+ */
+export class TfIdfEmbedder implements Embedder {
+  public readonly name = "tfidf";
+  private readonly dimensions: number;
+  private readonly documentFrequency: Map<number, number> = new Map();
+  private documentCount = 0;
+
+  constructor(dimensions: number = 1024) {
+    this.dimensions = dimensions;
+  }
+
+  public fit(texts: string[]): void {
+    texts.forEach((text) => {
+      this.documentCount++;
+      new Set(this.extractFeatures(text)).forEach((feature) => {
+        this.documentFrequency.set(
+          feature,
+          (this.documentFrequency.get(feature) ?? 0) + 1
+        );
+      });
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const counts = new Map<number, number>();
+    this.extractFeatures(text).forEach((feature) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    });
+
+    counts.forEach((count, feature) => {
+      const df = this.documentFrequency.get(feature) ?? 0;
+      const idf = Math.log((1 + this.documentCount) / (1 + df)) + 1;
+      vector[feature] += (1 + Math.log(count)) * idf;
+    });
+
+    return normalize(vector);
+  }
+
+  private extractFeatures(text: string): number[] {
+    const tokens = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+
+    const features = tokens.map((token) => this.hash(token));
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(this.hash(`${tokens[i]} ${tokens[i + 1]}`));
+    }
+    return features;
+  }
+
+  private hash(feature: string): number {
+    return (
+      createHash("md5").update(feature).digest().readUInt32LE(0) %
+      this.dimensions
+    );
+  }
+}
+
+/**
+ * Embedder backed by the OpenAI embeddings endpoint.
+ */
+export class OpenAIEmbedder implements Embedder {
+  public readonly name: string;
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string | undefined, model = "text-embedding-3-small") {
+    if (!apiKey) {
+      throw new Error("OpenAI API key is missing.");
+    }
+
+    this.name = model;
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.name,
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+export function createEmbedder(provider: EmbeddingProvider): Embedder {
+  logger.info("Creating embedder for path deduplication", { provider });
+
+  switch (provider) {
+    case "local":
+      return new TfIdfEmbedder();
+    case "openai":
+      return new OpenAIEmbedder(process.env.OPENAI_API_KEY);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
@@ -0,0 +1,148 @@
+import logger from "../utils/logger.js";
+import { Embedder, cosineSimilarity } from "./embeddings.js";
+
+export type IndexedTextKind = "prompt" | "response";
+
+interface IndexedText {
+  ownerId: string;
+  kind: IndexedTextKind;
+  text: string;
+  scope?: string;
+  vector?: number[];
+}
+
+export interface DuplicateMatch {
+  ownerId: string;
+  kind: IndexedTextKind;
+  similarity: number;
+}
+
+export interface DuplicateQuery {
+  excludeOwnerId?: string;
+  scope?: string;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Similarity-based dedup layer for conversation paths. Caller prompts and
+ * agent responses are indexed separately under the id of the node (or queued
+ * call) they belong to; a candidate is a duplicate when its cosine
+ * similarity to an indexed text of the same kind and scope reaches the
+ * threshold.
+ */
+export class SemanticDeduplicator {
+  private readonly embedder: Embedder;
+  private readonly threshold: number;
+  private entries: IndexedText[] = [];
+
+  constructor(
+    embedder: Embedder,
+    threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+  ) {
+    if (threshold <= 0 || threshold > 1) {
+      throw new Error(
+        `Similarity threshold must be in (0, 1], received ${threshold}`
+      );
+    }
+
+    this.embedder = embedder;
+    this.threshold = threshold;
+  }
+
+  public getThreshold(): number {
+    return this.threshold;
+  }
+
+  public async add(
+    ownerId: string,
+    kind: IndexedTextKind,
+    text: string,
+    scope?: string
+  ): Promise<void> {
+    if (!text.trim()) return;
+
+    const entry: IndexedText = { ownerId, kind, text, scope };
+    if (this.embedder.fit) {
+      this.embedder.fit([text]);
+    } else {
+      [entry.vector] = await this.embedder.embed([text]);
+    }
+
+    this.entries.push(entry);
+  }
+
+  public remove(ownerId: string): void {
+    this.entries = this.entries.filter((entry) => entry.ownerId !== ownerId);
+  }
+
+  public clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Returns the most similar indexed text of the same kind and scope if it
+   * reaches the threshold, ignoring entries owned by `excludeOwnerId`.
+   */
+  public async findDuplicate(
+    text: string,
+    kind: IndexedTextKind,
+    { excludeOwnerId, scope }: DuplicateQuery = {}
+  ): Promise<DuplicateMatch | null> {
+    const candidates = this.entries.filter(
+      (entry) =>
+        entry.kind === kind &&
+        entry.scope === scope &&
+        entry.ownerId !== excludeOwnerId
+    );
+    if (!text.trim() || candidates.length === 0) return null;
+
+    const [queryVector, ...candidateVectors] = await this.embedTexts([
+      text,
+      ...candidates,
+    ]);
+
+    let best: DuplicateMatch | null = null;
+    candidates.forEach((entry, index) => {
+      const similarity = cosineSimilarity(queryVector, candidateVectors[index]);
+      if (!best || similarity > best.similarity) {
+        best = { ownerId: entry.ownerId, kind, similarity };
+      }
+    });
+
+    const match = best as DuplicateMatch | null;
+    if (!match || match.similarity < this.threshold) return null;
+
+    logger.debug("Found semantically duplicate text", {
+      kind,
+      duplicateOf: match.ownerId,
+      similarity: match.similarity,
+      textPreview: text.substring(0, 50),
+    });
+
+    return match;
+  }
+
+  /**
+   * Embeds the query alongside indexed entries. Vectors from embedders that
+   * learn corpus statistics go stale as the index grows, so those are always
+   * recomputed; other vectors are reused.
+   */
+  private async embedTexts(
+    items: Array<string | IndexedText>
+  ): Promise<number[][]> {
+    if (this.embedder.fit) {
+      return this.embedder.embed(
+        items.map((item) => (typeof item === "string" ? item : item.text))
+      );
+    }
+
+    const [query] = items as [string];
+    const [queryVector] = await this.embedder.embed([query]);
+    const cached = (items.slice(1) as IndexedText[]).map(
+      (entry) => entry.vector!
+    );
+
+    return [queryVector, ...cached];
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  DomainPack,
+  DomainPackLibrary,
+  GENERAL_DOMAIN_PACK,
+  KeywordCategory,
+  ThemeDefinition,
+  containsKeyword,
+  matchCategories,
+} from "./domainPack.js";
+
+/**
+ * The domain pack a run is using. It starts as the general pack unless one
+ * is configured, and is settled once the agent's business is recognized.
+ * The analyzer and orchestrator share one context, and it supplies the
+ * theme taxonomy to their ThemeClassifier.
+ */
+export class DomainContext {
+  private pack: DomainPack;
+  private resolved: boolean;
+  private readonly library: DomainPackLibrary;
+
+  constructor(
+    library: DomainPackLibrary = new DomainPackLibrary(),
+    pack?: DomainPack
+  ) {
+    this.library = library;
+    this.pack = pack ?? GENERAL_DOMAIN_PACK;
+    this.resolved = pack !== undefined;
+  }
+
+  public getPack(): DomainPack {
+    return this.pack;
+  }
+
+  public isResolved(): boolean {
+    return this.resolved;
+  }
+
+  public resolve(pack: DomainPack): void {
+    this.pack = pack;
+    this.resolved = true;
+  }
+
+  /** The library pack matching the text, or null for an unknown business */
+  public detect(text: string): DomainPack | null {
+    return this.library.detect(text);
+  }
+
+  /** The general themes followed by the pack's own */
+  public getThemes(): ThemeDefinition[] {
+    return [...GENERAL_DOMAIN_PACK.themes, ...this.getExtraCategories("themes")];
+  }
+
+  public extractServices(text: string): string[] {
+    return matchCategories(text, this.pack.services);
+  }
+
+  public getRequestedInfo(text: string): string[] {
+    return matchCategories(text, this.getInfoRequests());
+  }
+
+  /** The general info requests followed by the pack's own */
+  public getInfoRequests(): KeywordCategory[] {
+    return [
+      ...GENERAL_DOMAIN_PACK.infoRequests,
+      ...this.getExtraCategories("infoRequests"),
+    ];
+  }
+
+  public isTerminal(text: string): boolean {
+    return this.getTerminalPhrases().some((phrase) =>
+      containsKeyword(text, phrase)
+    );
+  }
+
+  public getTerminalPhrases(): string[] {
+    return Array.from(
+      new Set([
+        ...GENERAL_DOMAIN_PACK.terminalPhrases,
+        ...this.pack.terminalPhrases,
+      ])
+    );
+  }
+
+  private getExtraCategories(key: "themes" | "infoRequests") {
+    return this.pack === GENERAL_DOMAIN_PACK ? [] : this.pack[key];
+  }
+}
@@ -0,0 +1,457 @@
+import {
+  ConfigIssue,
+  ConfigValidationError,
+  FieldSchema,
+  readConfigFile,
+  validateSchema,
+} from "../config/schema.js";
+
+/** A labelled set of keywords, used for themes, services and info requests */
+export interface KeywordCategory {
+  id: string;
+  /** Words or phrases matched case-insensitively as whole words */
+  keywords: string[];
+}
+
+/**
+ * A theme in the taxonomy paths and responses are tagged with. Patterns are
+ * case-insensitive regular expressions for wording keywords cannot catch.
+ */
+export interface ThemeDefinition extends KeywordCategory {
+  patterns?: string[];
+}
+
+/**
+ * What discovery knows about one kind of business: how to recognize its
+ * agent, what it offers, what it asks callers for and how its calls end.
+ */
+export interface DomainPack {
+  id: string;
+  name: string;
+  /** Words in an agent's response that identify this kind of business */
+  keywords: string[];
+  services: KeywordCategory[];
+  /** Details the agent may ask the caller for */
+  infoRequests: KeywordCategory[];
+  /** Phrases that mean the agent is ending the call */
+  terminalPhrases: string[];
+  /** Added to the themes every pack shares */
+  themes: ThemeDefinition[];
+}
+
+export interface DomainPackFile {
+  packs: DomainPack[];
+}
+
+export class UnknownDomainPackError extends Error {
+  constructor(packId: string) {
+    super(`Unknown domain pack: ${packId}`);
+    this.name = "UnknownDomainPackError";
+  }
+}
+
+const KEYWORD_CATEGORIES_SCHEMA: FieldSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    fields: {
+      id: { type: "string", required: true },
+      keywords: {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        required: true,
+      },
+    },
+  },
+};
+
+export const DOMAIN_PACK_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    id: { type: "string", required: true },
+    name: { type: "string", required: true },
+    keywords: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+      required: true,
+    },
+    services: { ...KEYWORD_CATEGORIES_SCHEMA, required: true },
+    infoRequests: { ...KEYWORD_CATEGORIES_SCHEMA, required: true },
+    terminalPhrases: {
+      type: "array",
+      items: { type: "string" },
+      required: true,
+    },
+    themes: {
+      type: "array",
+      required: true,
+      items: {
+        type: "object",
+        fields: {
+          id: { type: "string", required: true },
+          keywords: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            required: true,
+          },
+          patterns: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+};
+
+const DOMAIN_PACK_FILE_SCHEMA: FieldSchema = {
+  type: "object",
+  required: true,
+  fields: {
+    packs: {
+      type: "array",
+      required: true,
+      minItems: 1,
+      items: DOMAIN_PACK_SCHEMA,
+    },
+  },
+};
+
+/**
+ * Used until an agent's business is recognized, and for agents that match
+ * no pack. Its themes, info requests and terminal phrases apply to every
+ * pack.
+ */
+export const GENERAL_DOMAIN_PACK: DomainPack = {
+  id: "general_business",
+  name: "general business",
+  keywords: [],
+  services: [],
+  infoRequests: [
+    { id: "name", keywords: ["your name", "your full name"] },
+    { id: "address", keywords: ["address", "location", "where you are located"] },
+    { id: "phone", keywords: ["phone number", "contact number", "callback number"] },
+    { id: "email", keywords: ["email", "e-mail", "email address"] },
+    {
+      id: "customer_status",
+      keywords: ["existing customer", "current customer", "previous customer"],
+    },
+  ],
+  terminalPhrases: [
+    "goodbye",
+    "thank you for calling",
+    "have a nice day",
+    "is there anything else",
+    "end of our call",
+    "have a great",
+    "bye",
+  ],
+  themes: [
+    { id: "emergency_service", keywords: ["emergency", "urgent"] },
+    { id: "maintenance", keywords: ["maintenance"] },
+    { id: "repair", keywords: ["repair", "fix"] },
+    { id: "installation", keywords: ["installation", "install"] },
+    { id: "quote", keywords: ["quote", "estimate"] },
+    {
+      id: "pricing",
+      keywords: ["pricing", "price", "cost", "fee"],
+      patterns: ["how much (does|is|would|will)", "\\$\\d+"],
+    },
+    { id: "personal_info", keywords: ["name"] },
+    { id: "location_info", keywords: ["address", "location"] },
+    {
+      id: "contact_info",
+      keywords: ["contact", "phone number", "email"],
+      patterns: ["\\(?\\d{3}\\)?[ .-]\\d{3}[ .-]\\d{4}"],
+    },
+    {
+      id: "scheduling",
+      keywords: ["schedule", "appointment", "booking", "book"],
+      patterns: [
+        "\\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\\b",
+        "\\b\\d{1,2}(:\\d{2})? ?(am|pm)\\b",
+      ],
+    },
+  ],
+};
+
+export const BUILT_IN_DOMAIN_PACKS: DomainPack[] = [
+  {
+    id: "hvac_plumbing",
+    name: "HVAC and plumbing",
+    keywords: [
+      "air conditioning",
+      "plumbing",
+      "plumber",
+      "hvac",
+      "heating",
+      "furnace",
+    ],
+    services: [
+      { id: "ac_service", keywords: ["ac", "air conditioning", "cooling"] },
+      { id: "heating", keywords: ["heat", "heating", "furnace", "boiler"] },
+      { id: "plumbing", keywords: ["plumbing", "pipe", "leak", "drain"] },
+      { id: "maintenance", keywords: ["maintenance", "tune-up"] },
+      { id: "emergency_service", keywords: ["emergency"] },
+    ],
+    infoRequests: [
+      { id: "system_age", keywords: ["how old", "age of the system"] },
+    ],
+    terminalPhrases: ["technician will be there"],
+    themes: [
+      { id: "membership_plan", keywords: ["membership", "service plan"] },
+    ],
+  },
+  {
+    id: "auto_dealership",
+    name: "auto dealership",
+    keywords: ["auto", "car", "cars", "dealership", "vehicle"],
+    services: [
+      { id: "new_car_sales", keywords: ["new car", "new vehicle"] },
+      { id: "used_car_sales", keywords: ["used", "pre-owned"] },
+      { id: "service_department", keywords: ["service", "repair", "oil change"] },
+      { id: "trade_in", keywords: ["trade", "trade-in"] },
+      { id: "test_drive", keywords: ["test drive"] },
+    ],
+    infoRequests: [
+      { id: "vehicle", keywords: ["make and model", "vin", "mileage"] },
+    ],
+    terminalPhrases: ["see you at the dealership"],
+    themes: [{ id: "financing", keywords: ["financing", "lease", "loan"] }],
+  },
+  {
+    id: "medical_scheduling",
+    name: "dental and medical office",
+    keywords: [
+      "dental",
+      "dentist",
+      "clinic",
+      "doctor",
+      "patient",
+      "medical office",
+    ],
+    services: [
+      { id: "cleaning", keywords: ["cleaning", "checkup", "check-up"] },
+      { id: "new_patient_visit", keywords: ["new patient"] },
+      { id: "urgent_care", keywords: ["toothache", "pain", "same-day"] },
+      { id: "prescription_refill", keywords: ["refill", "prescription"] },
+    ],
+    infoRequests: [
+      { id: "date_of_birth", keywords: ["date of birth", "birthday"] },
+      { id: "insurance", keywords: ["insurance", "insurance provider"] },
+    ],
+    terminalPhrases: ["see you at your appointment"],
+    themes: [
+      { id: "insurance_coverage", keywords: ["insurance", "coverage", "copay"] },
+      { id: "cancellation", keywords: ["cancel", "reschedule"] },
+    ],
+  },
+  {
+    id: "restaurant",
+    name: "restaurant",
+    keywords: ["restaurant", "reservation", "menu", "dine", "takeout"],
+    services: [
+      { id: "reservations", keywords: ["reservation", "table"] },
+      { id: "takeout", keywords: ["takeout", "pickup", "to go"] },
+      { id: "delivery", keywords: ["delivery", "deliver"] },
+      { id: "private_events", keywords: ["private event", "catering"] },
+    ],
+    infoRequests: [
+      { id: "party_size", keywords: ["how many people", "party size"] },
+    ],
+    terminalPhrases: ["enjoy your meal"],
+    themes: [
+      { id: "dietary_needs", keywords: ["allergy", "gluten", "vegan"] },
+      { id: "hours", keywords: ["open", "hours", "close"] },
+    ],
+  },
+  {
+    id: "insurance_claims",
+    name: "insurance claims",
+    keywords: ["claim", "claims", "policy", "insurance", "adjuster"],
+    services: [
+      { id: "new_claim", keywords: ["file a claim", "new claim"] },
+      { id: "claim_status", keywords: ["claim status", "status of your claim"] },
+      { id: "policy_changes", keywords: ["policy change", "update your policy"] },
+      { id: "roadside_assistance", keywords: ["roadside", "tow"] },
+    ],
+    infoRequests: [
+      { id: "policy_number", keywords: ["policy number"] },
+      { id: "claim_number", keywords: ["claim number"] },
+      { id: "incident_date", keywords: ["date of the incident", "when did"] },
+    ],
+    terminalPhrases: ["an adjuster will contact you"],
+    themes: [
+      { id: "coverage", keywords: ["coverage", "deductible"] },
+      { id: "documentation", keywords: ["photos", "documents", "police report"] },
+    ],
+  },
+  {
+    id: "banking",
+    name: "bank",
+    keywords: ["bank", "banking", "account", "credit card", "debit card"],
+    services: [
+      { id: "account_balance", keywords: ["balance"] },
+      { id: "card_services", keywords: ["lost card", "stolen card", "card"] },
+      { id: "loans", keywords: ["loan", "mortgage"] },
+      { id: "fraud", keywords: ["fraud", "unauthorized", "dispute"] },
+    ],
+    infoRequests: [
+      { id: "account_number", keywords: ["account number"] },
+      { id: "verification", keywords: ["last four", "security question", "verify"] },
+    ],
+    terminalPhrases: [],
+    themes: [
+      { id: "identity_verification", keywords: ["verify", "verification"] },
+      { id: "transfer", keywords: ["transfer", "wire"] },
+    ],
+  },
+  {
+    id: "utilities",
+    name: "utility company",
+    keywords: ["utility", "electric", "electricity", "gas company", "water service"],
+    services: [
+      { id: "outage", keywords: ["outage", "power is out"] },
+      { id: "billing", keywords: ["bill", "billing", "payment"] },
+      { id: "start_service", keywords: ["start service", "new service"] },
+      { id: "stop_service", keywords: ["stop service", "disconnect"] },
+    ],
+    infoRequests: [
+      { id: "service_address", keywords: ["service address"] },
+      { id: "account_number", keywords: ["account number"] },
+    ],
+    terminalPhrases: [],
+    themes: [
+      { id: "payment_plan", keywords: ["payment plan", "payment arrangement"] },
+      { id: "outage_report", keywords: ["outage", "restore"] },
+    ],
+  },
+];
+
+/**
+ * The packs discovery can recognize: the built-in ones plus any loaded from
+ * pack files.
+ */
+export class DomainPackLibrary {
+  private readonly packs: Map<string, DomainPack>;
+
+  constructor(packs: DomainPack[] = BUILT_IN_DOMAIN_PACKS) {
+    this.packs = new Map(packs.map((pack) => [pack.id, pack]));
+  }
+
+  /**
+   * Loads the built-in packs, then each YAML or JSON pack file in order, so
+   * later files override earlier packs with the same id.
+   */
+  public static async fromFiles(
+    filePaths: string[]
+  ): Promise<DomainPackLibrary> {
+    const packs = [...BUILT_IN_DOMAIN_PACKS];
+
+    for (const filePath of filePaths) {
+      const source = `domain pack file ${filePath}`;
+      const parsed = await readConfigFile(filePath, source);
+      const issues = validateSchema(parsed, DOMAIN_PACK_FILE_SCHEMA);
+      if (issues.length === 0) {
+        (parsed as DomainPackFile).packs.forEach((pack, index) =>
+          issues.push(...findInvalidPatterns(pack, `packs[${index}].`))
+        );
+      }
+      if (issues.length > 0) {
+        throw new ConfigValidationError(source, issues);
+      }
+      packs.push(...(parsed as DomainPackFile).packs);
+    }
+
+    return new DomainPackLibrary(packs);
+  }
+
+  public has(id: string): boolean {
+    return id === GENERAL_DOMAIN_PACK.id || this.packs.has(id);
+  }
+
+  public get(id: string): DomainPack {
+    if (id === GENERAL_DOMAIN_PACK.id) {
+      return GENERAL_DOMAIN_PACK;
+    }
+
+    const pack = this.packs.get(id);
+    if (!pack) {
+      throw new UnknownDomainPackError(id);
+    }
+    return pack;
+  }
+
+  public list(): DomainPack[] {
+    return Array.from(this.packs.values());
+  }
+
+  /**
+   * The pack whose keywords appear most in the text, or null when none do.
+   * Ties go to the pack listed first.
+   */
+  public detect(text: string): DomainPack | null {
+    let best: { pack: DomainPack; hits: number } | null = null;
+
+    for (const pack of this.packs.values()) {
+      const hits = pack.keywords.filter((keyword) =>
+        containsKeyword(text, keyword)
+      ).length;
+      if (hits > 0 && (!best || hits > best.hits)) {
+        best = { pack, hits };
+      }
+    }
+
+    return best?.pack ?? null;
+  }
+}
+
+/**
+ * Ids of the categories with a keyword in the text.
+ */
+export function matchCategories(
+  text: string,
+  categories: KeywordCategory[]
+): string[] {
+  return categories
+    .filter((category) =>
+      category.keywords.some((keyword) => containsKeyword(text, keyword))
+    )
+    .map((category) => category.id);
+}
+
+/**
+ * Whether the keyword appears as whole words. Underscores count as word
+ * breaks so path signatures match too.
+ */
+export function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(
+    text.toLowerCase()
+  );
+}
+
+/**
+ * Theme patterns that do not compile. Run on every pack loaded from a file,
+ * since ThemeClassifier compiles them while a call is being recorded.
+ * `pathPrefix` locates the pack in its file, e.g. `packs[0].`.
+ */
+export function findInvalidPatterns(
+  pack: DomainPack,
+  pathPrefix = ""
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  pack.themes.forEach((theme, themeIndex) =>
+    theme.patterns?.forEach((pattern, patternIndex) => {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        issues.push({
+          path: `${pathPrefix}themes[${themeIndex}].patterns[${patternIndex}]`,
+          message: "is not a valid regular expression",
+        });
+      }
+    })
+  );
+  return issues;
+}
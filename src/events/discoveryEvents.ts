@@ -0,0 +1,175 @@
+import { EventEmitter } from "events";
+import { CollapsedPath } from "../discovery/conversationTree.js";
+import { AnalysisResult } from "../analyzer/responseAnalyzer.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+import {
+  DiscoveryConfig,
+  RunStopReason,
+} from "../orchestrator/discoveryOrchestrator.js";
+import {
+  BudgetMetric,
+  BudgetWarning,
+} from "../orchestrator/budgetTracker.js";
+import { TranscriptTurn } from "../transcription/transcriber.js";
+import logger from "../utils/logger.js";
+
+export type NodeTerminalReason = "conversation-ended" | "max-depth" | "failed";
+
+/**
+ * Payloads of the events a discovery run emits, keyed by event type.
+ * Together they carry enough to rebuild the run's tree from a recorded log.
+ */
+export interface DiscoveryEventPayloads {
+  /** Also published when a run is resumed after a restart */
+  RunStarted: {
+    config: DiscoveryConfig;
+    resumed: boolean;
+  };
+  /** Published by the ConversationTree when a node is created */
+  NodeAdded: {
+    nodeId: string;
+    parentId: string | null;
+    depth: number;
+    callId: string;
+    prompt: string;
+    intent: CallerIntent | null;
+  };
+  CallQueued: {
+    nodeId: string;
+    parentId: string;
+    prompt: string;
+  };
+  CallStarted: {
+    nodeId: string;
+    callId: string;
+    attempt: number;
+  };
+  /** Published by the WebhookHandler once the recording is transcribed */
+  CallCompleted: {
+    callId: string;
+    text: string;
+    turns: TranscriptTurn[];
+    confidence: number;
+  };
+  /** Published by the WebhookHandler when a call cannot be used */
+  CallFailed: {
+    callId: string;
+    reason: string;
+  };
+  /** Published when no terminal webhook arrived within maxCallDuration */
+  CallTimedOut: {
+    nodeId: string;
+    callId: string;
+    durationMs: number;
+  };
+  PathsIdentified: {
+    nodeId: string;
+    analysis: AnalysisResult;
+    prompts: string[];
+    queuedNodeIds: string[];
+    collapsedPaths: CollapsedPath[];
+  };
+  /** Published by the ConversationTree when a node will get no children */
+  NodeTerminal: {
+    nodeId: string;
+    reason: NodeTerminalReason;
+  };
+  /** Published once per threshold as a metric nears its budget limit */
+  BudgetWarning: BudgetWarning;
+  /** No more calls are dialed; the run stops once active calls finish */
+  BudgetExhausted: {
+    metric: BudgetMetric;
+    used: number;
+    limit: number;
+    activeCallCount: number;
+  };
+  RunFinished: {
+    completedCallCount: number;
+    failedCallCount: number;
+    timedOutCallCount: number;
+    totalPaths: number;
+    stopReason: RunStopReason;
+    estimatedCostUsd: number;
+  };
+}
+
+export type DiscoveryEventType = keyof DiscoveryEventPayloads;
+
+export type DiscoveryEvent = {
+  [K in DiscoveryEventType]: {
+    type: K;
+    runId: string;
+    timestamp: string;
+    payload: DiscoveryEventPayloads[K];
+  };
+}[DiscoveryEventType];
+
+export type DiscoveryEventListener = (event: DiscoveryEvent) => void;
+
+/**
+ * Publishes events on behalf of one run, so publishers that do not know
+ * the run id, like the tree, can still emit them.
+ */
+export type DiscoveryEventPublisher = <K extends DiscoveryEventType>(
+  type: K,
+  payload: DiscoveryEventPayloads[K]
+) => void;
+
+/**
+ * Typed bus for discovery events. One bus may be shared by several runs;
+ * every event carries its run id. Listener errors are logged and never
+ * propagate into the publisher.
+ */
+export class DiscoveryEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // Every sink and open dashboard tab adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  public publish<K extends DiscoveryEventType>(
+    runId: string,
+    type: K,
+    payload: DiscoveryEventPayloads[K]
+  ): void {
+    this.emit({
+      type,
+      runId,
+      timestamp: new Date().toISOString(),
+      payload,
+    } as DiscoveryEvent);
+  }
+
+  /**
+   * Re-emits recorded events unchanged, e.g. to feed a recorded log to
+   * the console visualizer or another sink.
+   */
+  public replay(events: DiscoveryEvent[]): void {
+    events.forEach((event) => this.emit(event));
+  }
+
+  /**
+   * Returns a function that removes the listener.
+   */
+  public subscribe(listener: DiscoveryEventListener): () => void {
+    this.emitter.on("event", listener);
+    return () => {
+      this.emitter.off("event", listener);
+    };
+  }
+
+  private emit(event: DiscoveryEvent): void {
+    this.emitter.listeners("event").forEach((listener) => {
+      try {
+        (listener as DiscoveryEventListener)(event);
+      } catch (error) {
+        logger.error("Discovery event listener failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          type: event.type,
+          runId: event.runId,
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger.js";
+import { DiscoveryEvent, DiscoveryEventBus } from "./discoveryEvents.js";
+
+/**
+ * Records discovery events as JSON lines, one file per run, so a run can be
+ * replayed after the fact. Appends are chained so lines keep event order.
+ */
+export class EventLog {
+  private readonly directory: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(directory: string = "data/events") {
+    this.directory = directory;
+  }
+
+  /**
+   * Returns a function that stops recording.
+   */
+  public record(events: DiscoveryEventBus): () => void {
+    return events.subscribe((event) => {
+      this.pendingWrite = this.pendingWrite.then(() => this.append(event));
+    });
+  }
+
+  /**
+   * Resolves once every event received so far is on disk.
+   */
+  public async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  public async read(runId: string): Promise<DiscoveryEvent[]> {
+    const contents = await fs.readFile(this.getLogPath(runId), "utf-8");
+    return contents
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as DiscoveryEvent);
+  }
+
+  private async append(event: DiscoveryEvent): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(
+        this.getLogPath(event.runId),
+        `${JSON.stringify(event)}\n`,
+        "utf-8"
+      );
+    } catch (error) {
+      // Losing a log line should not affect the run itself
+      logger.error("Failed to record discovery event", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        runId: event.runId,
+        type: event.type,
+      });
+    }
+  }
+
+  private getLogPath(runId: string): string {
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(`Invalid run id: ${runId}`);
+    }
+    return path.join(this.directory, `${runId}.jsonl`);
+  }
+}
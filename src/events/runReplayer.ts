@@ -0,0 +1,172 @@
+import { ConversationTree } from "../discovery/conversationTree.js";
+import { DiscoveryConfig } from "../orchestrator/discoveryOrchestrator.js";
+import { getAgentText } from "../transcription/transcriber.js";
+import logger from "../utils/logger.js";
+import {
+  DiscoveryEvent,
+  DiscoveryEventPayloads,
+} from "./discoveryEvents.js";
+
+export interface ReplayedProgress {
+  activeCallCount: number;
+  completedCallCount: number;
+  failedCallCount: number;
+  timedOutCallCount: number;
+  queueLength: number;
+  isFinished: boolean;
+  lastUpdateTimestamp: Date;
+}
+
+/**
+ * Rebuilds a run's conversation tree and progress counters from its events.
+ * Used to reconstruct a run from a recorded event log, and by subscribers
+ * that need the tree without a reference to the orchestrator.
+ */
+export class RunReplayer {
+  private tree: ConversationTree | null = null;
+  private config: DiscoveryConfig | null = null;
+  private readonly queuedNodeIds: Set<string> = new Set();
+  // Transcripts wait for their analysis, which decides the node's prompts
+  private readonly pendingTranscripts: Map<
+    string,
+    DiscoveryEventPayloads["CallCompleted"]
+  > = new Map();
+  private readonly progress: ReplayedProgress = {
+    activeCallCount: 0,
+    completedCallCount: 0,
+    failedCallCount: 0,
+    timedOutCallCount: 0,
+    queueLength: 0,
+    isFinished: false,
+    lastUpdateTimestamp: new Date(0),
+  };
+
+  public static fromEvents(events: DiscoveryEvent[]): RunReplayer {
+    const replayer = new RunReplayer();
+    events.forEach((event) => replayer.apply(event));
+    return replayer;
+  }
+
+  public apply(event: DiscoveryEvent): void {
+    try {
+      this.applyEvent(event);
+      this.progress.lastUpdateTimestamp = new Date(event.timestamp);
+    } catch (error) {
+      // A log recorded from a crashed process may be missing events
+      logger.warn("Skipping event that does not apply to the replayed run", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        type: event.type,
+        runId: event.runId,
+      });
+    }
+  }
+
+  public getTree(): ConversationTree {
+    if (!this.tree) {
+      this.tree = new ConversationTree();
+    }
+    return this.tree;
+  }
+
+  public getConfig(): DiscoveryConfig | null {
+    return this.config;
+  }
+
+  public getProgress(): ReplayedProgress {
+    return { ...this.progress, queueLength: this.queuedNodeIds.size };
+  }
+
+  private applyEvent(event: DiscoveryEvent): void {
+    switch (event.type) {
+      case "RunStarted":
+        this.config = event.payload.config;
+        this.tree = this.tree ?? new ConversationTree(this.config.maxDepth);
+        // In-flight calls are re-dialed when a run resumes
+        if (event.payload.resumed) {
+          this.progress.activeCallCount = 0;
+        }
+        this.progress.isFinished = false;
+        break;
+
+      case "NodeAdded": {
+        const { nodeId, parentId, callId, prompt, intent } = event.payload;
+        const node = parentId
+          ? this.getTree().addNode(parentId, prompt, callId, {
+              nodeId,
+              intent: intent ?? undefined,
+            })
+          : this.getTree().initializeRoot(prompt, callId, intent ?? undefined);
+        node.timestamp = new Date(event.timestamp);
+        this.queuedNodeIds.delete(nodeId);
+        break;
+      }
+
+      case "CallQueued":
+        this.queuedNodeIds.add(event.payload.nodeId);
+        break;
+
+      case "CallStarted": {
+        const node = this.getNodeOrThrow(event.payload.nodeId);
+        node.callId = event.payload.callId;
+        node.retryCount = event.payload.attempt - 1;
+        this.progress.activeCallCount++;
+        break;
+      }
+
+      case "CallCompleted":
+        this.pendingTranscripts.set(event.payload.callId, event.payload);
+        break;
+
+      case "CallFailed":
+        this.progress.activeCallCount--;
+        break;
+
+      case "CallTimedOut":
+        this.progress.activeCallCount--;
+        this.progress.timedOutCallCount++;
+        break;
+
+      case "PathsIdentified": {
+        const { nodeId, analysis, prompts, collapsedPaths } = event.payload;
+        const node = this.getNodeOrThrow(nodeId);
+        const transcript = this.pendingTranscripts.get(node.callId);
+        this.pendingTranscripts.delete(node.callId);
+
+        this.getTree().updateNodeWithResponse(
+          nodeId,
+          transcript ? getAgentText(transcript) : "",
+          prompts,
+          transcript?.turns ?? []
+        );
+        node.completedAt = new Date(event.timestamp);
+        this.getTree().recordAnalysis(nodeId, analysis);
+        collapsedPaths.forEach((collapsed) =>
+          this.getTree().recordCollapsedPath(nodeId, collapsed)
+        );
+
+        this.progress.activeCallCount--;
+        this.progress.completedCallCount++;
+        break;
+      }
+
+      case "NodeTerminal":
+        if (event.payload.reason === "failed") {
+          this.getTree().markNodeFailed(event.payload.nodeId);
+          this.progress.failedCallCount++;
+        }
+        break;
+
+      case "RunFinished":
+        this.progress.isFinished = true;
+        break;
+    }
+  }
+
+  private getNodeOrThrow(nodeId: string) {
+    const node = this.getTree().getNode(nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} not found`);
+    }
+    return node;
+  }
+}
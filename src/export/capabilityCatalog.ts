@@ -0,0 +1,395 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  CallNode,
+  ConversationTree,
+  NodeStatus,
+} from "../discovery/conversationTree.js";
+import {
+  Embedder,
+  TfIdfEmbedder,
+  cosineSimilarity,
+} from "../discovery/embeddings.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { containsKeyword } from "../domains/domainPack.js";
+import { PromptBuilder } from "../prompts/promptBuilder.js";
+import logger from "../utils/logger.js";
+
+export type CapabilityKind = "intent" | "handoff" | "refusal" | "dead_end";
+
+/** A call that shows a capability, and what the agent said on it */
+export interface CatalogEvidence {
+  nodeId: string;
+  callId: string;
+  goal: string | null;
+  path: string;
+  excerpt: string;
+}
+
+/**
+ * Calls whose agent responses were alike, grouped into one thing the agent
+ * does: handles an intent, hands the caller off, refuses, or gets stuck.
+ */
+export interface Capability {
+  id: string;
+  kind: CapabilityKind;
+  label: string;
+  goals: string[];
+  themes: string[];
+  /** Details the agent asked for on these calls */
+  slots: string[];
+  evidence: CatalogEvidence[];
+}
+
+export interface SlotRequirement {
+  slot: string;
+  evidence: CatalogEvidence[];
+}
+
+export interface CapabilityCatalog {
+  generatedAt: string;
+  domain: string;
+  callsAnalyzed: number;
+  intents: Capability[];
+  slots: SlotRequirement[];
+  handoffs: Capability[];
+  refusals: Capability[];
+  deadEnds: Capability[];
+}
+
+export interface CatalogFiles {
+  json: string;
+  markdown: string;
+}
+
+export interface CapabilityCatalogOptions {
+  /** Supplies the info requests slots are detected from */
+  domain?: DomainContext;
+  embedder?: Embedder;
+  /** Cosine similarity at which two responses join one capability */
+  similarityThreshold?: number;
+}
+
+export const DEFAULT_CLUSTER_THRESHOLD = 0.5;
+
+const HANDOFF_PHRASES = [
+  "transfer you",
+  "transferring you",
+  "connect you",
+  "speak to a manager",
+  "a manager",
+  "supervisor",
+  "representative",
+  "a specialist",
+  "someone will call you back",
+  "call you back",
+  "escalate",
+];
+
+const REFUSAL_PHRASES = [
+  "can't help",
+  "cannot help",
+  "unable to",
+  "not able to",
+  "we don't",
+  "we do not",
+  "we can't",
+  "we cannot",
+  "not something we",
+  "unfortunately",
+];
+
+const EXCERPT_LENGTH = 160;
+
+interface ClassifiedNode {
+  node: CallNode;
+  kind: CapabilityKind;
+  slots: string[];
+  evidence: CatalogEvidence;
+}
+
+/**
+ * Turns an explored tree into a catalog of what the agent can do, for QA
+ * to review without reading every transcript. Each entry links back to the
+ * nodes and calls it was drawn from.
+ */
+export class CapabilityCatalogBuilder {
+  private readonly domain: DomainContext;
+  private readonly embedder: Embedder;
+  private readonly similarityThreshold: number;
+  private readonly promptBuilder = new PromptBuilder();
+
+  constructor(options: CapabilityCatalogOptions = {}) {
+    this.domain = options.domain ?? new DomainContext();
+    this.embedder = options.embedder ?? new TfIdfEmbedder();
+    this.similarityThreshold =
+      options.similarityThreshold ?? DEFAULT_CLUSTER_THRESHOLD;
+  }
+
+  public async build(tree: ConversationTree): Promise<CapabilityCatalog> {
+    const classified = tree
+      .getAllNodes()
+      .filter(
+        (node) =>
+          node.status === NodeStatus.COMPLETED ||
+          node.status === NodeStatus.FAILED
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map((node) => this.classify(node));
+
+    const ofKind = (kind: CapabilityKind) =>
+      classified.filter((item) => item.kind === kind);
+
+    const catalog: CapabilityCatalog = {
+      generatedAt: new Date().toISOString(),
+      domain: this.domain.getPack().id,
+      callsAnalyzed: classified.length,
+      intents: await this.cluster("intent", ofKind("intent")),
+      slots: this.collectSlots(classified),
+      handoffs: await this.cluster("handoff", ofKind("handoff")),
+      refusals: await this.cluster("refusal", ofKind("refusal")),
+      // Failed calls have no response to compare, so each stands alone
+      deadEnds: ofKind("dead_end").map((item, index) =>
+        this.toCapability("dead_end", index, [item])
+      ),
+    };
+
+    logger.info("Built capability catalog", {
+      domain: catalog.domain,
+      callsAnalyzed: catalog.callsAnalyzed,
+      intents: catalog.intents.length,
+      slots: catalog.slots.length,
+      handoffs: catalog.handoffs.length,
+      refusals: catalog.refusals.length,
+      deadEnds: catalog.deadEnds.length,
+    });
+
+    return catalog;
+  }
+
+  public toJson(catalog: CapabilityCatalog): string {
+    return JSON.stringify(catalog, null, 2);
+  }
+
+  public toMarkdown(catalog: CapabilityCatalog): string {
+    const lines = [
+      "# Agent Capability Catalog",
+      "",
+      `Generated ${catalog.generatedAt} from ${catalog.callsAnalyzed} calls ` +
+        `(domain: ${catalog.domain}).`,
+      "",
+      "## Supported intents",
+      "",
+      ...this.formatCapabilities(catalog.intents),
+      "## Required information",
+      "",
+    ];
+
+    if (catalog.slots.length === 0) {
+      lines.push("(none)", "");
+    } else {
+      lines.push(
+        "| Slot | Calls asking | Example |",
+        "| ---- | ------------ | ------- |"
+      );
+      catalog.slots.forEach(({ slot, evidence }) => {
+        lines.push(
+          `| ${slot} | ${evidence.length} | ${this.escapeCell(
+            evidence[0].excerpt
+          )} |`
+        );
+      });
+      lines.push("");
+    }
+
+    lines.push(
+      "## Handoffs and escalations",
+      "",
+      ...this.formatCapabilities(catalog.handoffs),
+      "## Refusals",
+      "",
+      ...this.formatCapabilities(catalog.refusals),
+      "## Dead ends",
+      "",
+      ...this.formatCapabilities(catalog.deadEnds)
+    );
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Writes the catalog as JSON and Markdown into outputDir and returns the
+   * file paths.
+   */
+  public async exportAll(
+    catalog: CapabilityCatalog,
+    outputDir: string
+  ): Promise<CatalogFiles> {
+    const files: CatalogFiles = {
+      json: path.join(outputDir, "capability-catalog.json"),
+      markdown: path.join(outputDir, "capability-catalog.md"),
+    };
+
+    await fs.mkdir(outputDir, { recursive: true });
+    await Promise.all([
+      fs.writeFile(files.json, this.toJson(catalog), "utf-8"),
+      fs.writeFile(files.markdown, this.toMarkdown(catalog), "utf-8"),
+    ]);
+
+    logger.info("Exported capability catalog", { outputDir, files });
+    return files;
+  }
+
+  private classify(node: CallNode): ClassifiedNode {
+    const response = node.responseReceived;
+    const handoff = findPhrase(response, HANDOFF_PHRASES);
+    const refusal = findPhrase(response, REFUSAL_PHRASES);
+    const analysis = node.analysis;
+    // Stuck: the call failed, or the agent neither offered a way forward
+    // nor wrapped up
+    const isDeadEnd =
+      node.status === NodeStatus.FAILED ||
+      (analysis !== undefined &&
+        analysis.identifiedPaths.length === 0 &&
+        !analysis.isTerminalState);
+
+    const kind: CapabilityKind = handoff
+      ? "handoff"
+      : refusal
+      ? "refusal"
+      : isDeadEnd
+      ? "dead_end"
+      : "intent";
+
+    return {
+      node,
+      kind,
+      slots: this.domain.getRequestedInfo(response),
+      evidence: {
+        nodeId: node.id,
+        callId: node.callId,
+        goal: node.intent?.goal ?? null,
+        path: this.promptBuilder.describePath(node.intentPath),
+        excerpt:
+          node.status === NodeStatus.FAILED
+            ? "(call failed)"
+            : getExcerpt(response, handoff ?? refusal),
+      },
+    };
+  }
+
+  /**
+   * Greedily groups calls whose responses are alike: each joins the first
+   * group whose opening response it is similar enough to.
+   */
+  private async cluster(
+    kind: CapabilityKind,
+    items: ClassifiedNode[]
+  ): Promise<Capability[]> {
+    if (items.length === 0) return [];
+
+    const texts = items.map((item) => item.node.responseReceived);
+    this.embedder.fit?.(texts);
+    const vectors = await this.embedder.embed(texts);
+
+    const groups: { vector: number[]; members: ClassifiedNode[] }[] = [];
+    items.forEach((item, index) => {
+      const group = groups.find(
+        ({ vector }) =>
+          cosineSimilarity(vector, vectors[index]) >= this.similarityThreshold
+      );
+      if (group) {
+        group.members.push(item);
+      } else {
+        groups.push({ vector: vectors[index], members: [item] });
+      }
+    });
+
+    return groups.map(({ members }, index) =>
+      this.toCapability(kind, index, members)
+    );
+  }
+
+  private toCapability(
+    kind: CapabilityKind,
+    index: number,
+    members: ClassifiedNode[]
+  ): Capability {
+    const goals = unique(
+      members.map(({ node }) => node.intent?.goal ?? "").filter(Boolean)
+    );
+
+    return {
+      id: `${kind}_${index + 1}`,
+      kind,
+      label: goals[0] ?? members[0].evidence.excerpt,
+      goals,
+      themes: unique(
+        members.flatMap(({ node }) => Array.from(node.exploredThemes))
+      ).sort(),
+      slots: unique(members.flatMap((member) => member.slots)),
+      evidence: members.map((member) => member.evidence),
+    };
+  }
+
+  private collectSlots(items: ClassifiedNode[]): SlotRequirement[] {
+    const bySlot = new Map<string, CatalogEvidence[]>();
+    items.forEach((item) =>
+      item.slots.forEach((slot) =>
+        bySlot.set(slot, [...(bySlot.get(slot) ?? []), item.evidence])
+      )
+    );
+
+    return Array.from(bySlot.entries())
+      .map(([slot, evidence]) => ({ slot, evidence }))
+      .sort((a, b) => b.evidence.length - a.evidence.length);
+  }
+
+  private formatCapabilities(capabilities: Capability[]): string[] {
+    if (capabilities.length === 0) return ["(none)", ""];
+
+    return capabilities.flatMap((capability) => [
+      `### ${capability.label}`,
+      "",
+      ...(capability.goals.length > 1
+        ? [`- Caller goals: ${capability.goals.join("; ")}`]
+        : []),
+      `- Themes: ${capability.themes.join(", ") || "(none)"}`,
+      `- Asks for: ${capability.slots.join(", ") || "(nothing)"}`,
+      "- Evidence:",
+      ...capability.evidence.map(
+        (evidence) =>
+          `  - \`${evidence.nodeId}\` (call \`${evidence.callId}\`): ` +
+          `"${evidence.excerpt}"`
+      ),
+      "",
+    ]);
+  }
+
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|");
+  }
+}
+
+function findPhrase(text: string, phrases: string[]): string | undefined {
+  return phrases.find((phrase) => containsKeyword(text, phrase));
+}
+
+/**
+ * The sentence containing the phrase, or the start of the response.
+ */
+function getExcerpt(response: string, phrase?: string): string {
+  const sentences = response.match(/[^.!?]+[.!?]*/g) ?? [response];
+  const sentence = phrase
+    ? sentences.find((candidate) => containsKeyword(candidate, phrase))
+    : undefined;
+  const excerpt = (sentence ?? response).trim();
+
+  return excerpt.length > EXCERPT_LENGTH
+    ? `${excerpt.substring(0, EXCERPT_LENGTH - 3)}...`
+    : excerpt;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,373 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  CallNode,
+  CollapsedPath,
+  ConversationTree,
+  NodeStatus,
+} from "../discovery/conversationTree.js";
+import logger from "../utils/logger.js";
+import { TranscriptTurn } from "../transcription/transcriber.js";
+import { CallerIntent, PromptBuilder } from "../prompts/promptBuilder.js";
+import { AnalysisResult } from "../analyzer/responseAnalyzer.js";
+import { ThemeScores } from "../themes/themeClassifier.js";
+
+export interface ReportNode {
+  id: string;
+  parentId: string | null;
+  callId: string;
+  depth: number;
+  status: NodeStatus;
+  prompt: string;
+  intentPath: CallerIntent[];
+  pathSummary: string;
+  persona: string | null;
+  transcript: string;
+  turns: TranscriptTurn[];
+  themes: string[];
+  /** Confidence in each theme, including ones below the threshold */
+  themeScores: ThemeScores;
+  potentialPrompts: string[];
+  analysis: AnalysisResult | null;
+  collapsedPaths: CollapsedPath[];
+  retryCount: number;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  children: string[];
+}
+
+export interface ConversationReport {
+  generatedAt: string;
+  summary: ReturnType<ConversationTree["getTreeSummary"]>;
+  nodes: ReportNode[];
+}
+
+export interface ExportedFiles {
+  mermaid: string;
+  dot: string;
+  json: string;
+  html: string;
+}
+
+/**
+ * Turns a ConversationTree into artifacts that can be attached to tickets or
+ * diffed between runs: Mermaid and Graphviz diagrams, a structured JSON
+ * report and a self-contained HTML page.
+ */
+export class TreeExporter {
+  private static readonly LABEL_LENGTH = 80;
+  private readonly promptBuilder = new PromptBuilder();
+
+  private static readonly STATUS_COLORS: Record<NodeStatus, string> = {
+    [NodeStatus.UNEXPLORED]: "#9e9e9e",
+    [NodeStatus.IN_PROGRESS]: "#f9a825",
+    [NodeStatus.COMPLETED]: "#2e7d32",
+    [NodeStatus.FAILED]: "#c62828",
+  };
+
+  public buildReport(tree: ConversationTree): ConversationReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      summary: tree.getTreeSummary(),
+      nodes: this.getOrderedNodes(tree).map((node) =>
+        this.buildNodeReport(node)
+      ),
+    };
+  }
+
+  public buildNodeReport(node: CallNode): ReportNode {
+    return {
+      id: node.id,
+      parentId: node.parentId,
+      callId: node.callId,
+      depth: node.depth,
+      status: node.status,
+      prompt: node.systemPrompt,
+      intentPath: node.intentPath,
+      pathSummary: this.promptBuilder.describePath(node.intentPath),
+      persona: node.personaId ?? null,
+      transcript: node.responseReceived,
+      turns: node.transcript ?? [],
+      themes: Array.from(node.exploredThemes),
+      themeScores: node.themeScores ?? {},
+      potentialPrompts: node.potentialPrompts ?? [],
+      analysis: node.analysis ?? null,
+      collapsedPaths: node.collapsedPaths ?? [],
+      retryCount: node.retryCount,
+      startedAt: node.timestamp.toISOString(),
+      completedAt: node.completedAt?.toISOString() ?? null,
+      durationMs: node.completedAt
+        ? node.completedAt.getTime() - node.timestamp.getTime()
+        : null,
+      children: node.children.map((child) => child.id),
+    };
+  }
+
+  public toJson(tree: ConversationTree): string {
+    return JSON.stringify(this.buildReport(tree), null, 2);
+  }
+
+  public toMermaid(tree: ConversationTree): string {
+    const nodes = this.getOrderedNodes(tree);
+    const ids = this.createShortIds(nodes);
+    const lines = ["flowchart TD"];
+
+    nodes.forEach((node) => {
+      const label = this.escapeMermaid(
+        `[${node.status}] ${this.truncate(node.systemPrompt)}`
+      );
+      lines.push(`  ${ids.get(node.id)}["${label}"]`);
+    });
+
+    nodes.forEach((node) => {
+      node.children.forEach((child) => {
+        lines.push(`  ${ids.get(node.id)} --> ${ids.get(child.id)}`);
+      });
+    });
+
+    Object.entries(TreeExporter.STATUS_COLORS).forEach(([status, color]) => {
+      lines.push(
+        `  classDef ${this.toClassName(status)} stroke:${color},stroke-width:2px`
+      );
+    });
+
+    nodes.forEach((node) => {
+      lines.push(
+        `  class ${ids.get(node.id)} ${this.toClassName(node.status)}`
+      );
+    });
+
+    return lines.join("\n") + "\n";
+  }
+
+  public toDot(tree: ConversationTree): string {
+    const nodes = this.getOrderedNodes(tree);
+    const lines = [
+      "digraph conversation {",
+      "  rankdir=TB;",
+      '  node [shape=box, style="rounded", fontname="Helvetica"];',
+    ];
+
+    nodes.forEach((node) => {
+      const label = this.escapeDot(
+        `[${node.status}] ${this.truncate(node.systemPrompt)}`
+      );
+      lines.push(
+        `  "${this.escapeDot(node.id)}" [label="${label}", color="${
+          TreeExporter.STATUS_COLORS[node.status]
+        }"];`
+      );
+    });
+
+    nodes.forEach((node) => {
+      node.children.forEach((child) => {
+        lines.push(
+          `  "${this.escapeDot(node.id)}" -> "${this.escapeDot(child.id)}";`
+        );
+      });
+    });
+
+    lines.push("}");
+    return lines.join("\n") + "\n";
+  }
+
+  public toHtml(tree: ConversationTree): string {
+    const report = this.buildReport(tree);
+    const nodesById = new Map(report.nodes.map((node) => [node.id, node]));
+    const root = report.nodes.find((node) => node.parentId === null);
+
+    const renderNode = (node: ReportNode): string => {
+      const children = node.children
+        .map((childId) => nodesById.get(childId))
+        .filter((child): child is ReportNode => child !== undefined)
+        .map(renderNode)
+        .join("");
+
+      return `<li>
+<details open>
+<summary><span class="status" style="background:${
+        TreeExporter.STATUS_COLORS[node.status]
+      }">${node.status}</span> ${this.escapeHtml(
+        this.truncate(node.prompt)
+      )}</summary>
+<dl>
+<dt>Path</dt><dd>${this.escapeHtml(node.pathSummary || "(none)")}</dd>
+<dt>Persona</dt><dd>${this.escapeHtml(node.persona ?? "(none)")}</dd>
+<dt>Prompt</dt><dd><pre>${this.escapeHtml(node.prompt)}</pre></dd>
+<dt>Transcript</dt><dd><pre>${this.escapeHtml(
+        this.formatTranscript(node)
+      )}</pre></dd>
+<dt>Themes</dt><dd>${this.escapeHtml(this.formatThemes(node))}</dd>
+<dt>Collapsed</dt><dd>${this.escapeHtml(
+        this.formatCollapsedPaths(node)
+      )}</dd>
+<dt>Depth</dt><dd>${node.depth}</dd>
+<dt>Call ID</dt><dd>${this.escapeHtml(node.callId)}</dd>
+<dt>Duration</dt><dd>${
+        node.durationMs === null
+          ? "n/a"
+          : `${(node.durationMs / 1000).toFixed(1)}s`
+      }</dd>
+</dl>
+${children ? `<ul>${children}</ul>` : ""}
+</details>
+</li>`;
+    };
+
+    const { summary } = report;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Voice Agent Discovery Report</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; margin: 2rem; color: #212121; }
+ul { list-style: none; padding-left: 1.5rem; border-left: 1px solid #e0e0e0; }
+summary { cursor: pointer; padding: 0.25rem 0; }
+.status { color: #fff; border-radius: 4px; padding: 0 0.4rem; font-size: 0.8rem; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; margin: 0.5rem 0 1rem; }
+dt { font-weight: bold; }
+dd { margin: 0; }
+pre { white-space: pre-wrap; margin: 0; }
+</style>
+</head>
+<body>
+<h1>Voice Agent Discovery Report</h1>
+<p>Generated ${this.escapeHtml(report.generatedAt)}</p>
+<ul class="summary">
+<li>Total paths: ${summary.totalPaths}</li>
+<li>Completed paths: ${summary.completedPaths}</li>
+<li>Collapsed duplicates: ${summary.collapsedPaths}</li>
+<li>Depth reached: ${summary.maxDepthReached}/${summary.maxAllowedDepth}</li>
+<li>Themes: ${this.escapeHtml(summary.exploredThemes.join(", ") || "(none)")}</li>
+</ul>
+<ul>${root ? renderNode(root) : "<li>No conversation data</li>"}</ul>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Writes every export format into outputDir and returns the file paths.
+   */
+  public async exportAll(
+    tree: ConversationTree,
+    outputDir: string
+  ): Promise<ExportedFiles> {
+    const files: ExportedFiles = {
+      mermaid: path.join(outputDir, "conversation-tree.mmd"),
+      dot: path.join(outputDir, "conversation-tree.dot"),
+      json: path.join(outputDir, "conversation-report.json"),
+      html: path.join(outputDir, "conversation-report.html"),
+    };
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+      await Promise.all([
+        fs.writeFile(files.mermaid, this.toMermaid(tree), "utf-8"),
+        fs.writeFile(files.dot, this.toDot(tree), "utf-8"),
+        fs.writeFile(files.json, this.toJson(tree), "utf-8"),
+        fs.writeFile(files.html, this.toHtml(tree), "utf-8"),
+      ]);
+
+      logger.info("Exported conversation tree", { outputDir, files });
+      return files;
+    } catch (error) {
+      logger.error("Failed to export conversation tree", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        outputDir,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Orders nodes depth-first from the root so exports are stable between runs.
+   */
+  private getOrderedNodes(tree: ConversationTree): CallNode[] {
+    const root = tree.getAllNodes().find((node) => node.parentId === null);
+    if (!root) return [];
+
+    const ordered: CallNode[] = [];
+    const visit = (node: CallNode) => {
+      ordered.push(node);
+      node.children.forEach(visit);
+    };
+    visit(root);
+
+    return ordered;
+  }
+
+  private formatTranscript(node: ReportNode): string {
+    if (node.turns.length === 0) {
+      return node.transcript || "(none)";
+    }
+
+    return node.turns
+      .map(
+        (turn) =>
+          `[${turn.start.toFixed(1)}s] ${
+            turn.role === "unknown" ? `Speaker ${turn.speaker}` : turn.role
+          }: ${turn.text}`
+      )
+      .join("\n");
+  }
+
+  private formatThemes(node: ReportNode): string {
+    if (node.themes.length === 0) return "(none)";
+
+    return node.themes
+      .map((theme) =>
+        theme in node.themeScores
+          ? `${theme} (${node.themeScores[theme].toFixed(2)})`
+          : theme
+      )
+      .join(", ");
+  }
+
+  private formatCollapsedPaths(node: ReportNode): string {
+    if (node.collapsedPaths.length === 0) return "(none)";
+
+    return node.collapsedPaths
+      .map(
+        (collapsed) =>
+          `${this.truncate(collapsed.prompt)} -> ${collapsed.duplicateOf} (${
+            collapsed.matchedOn
+          } similarity ${collapsed.similarity.toFixed(2)})`
+      )
+      .join("; ");
+  }
+
+  private createShortIds(nodes: CallNode[]): Map<string, string> {
+    return new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+  }
+
+  private toClassName(status: string): string {
+    return status.replace(/[^a-z]/g, "_");
+  }
+
+  private truncate(text: string): string {
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    return singleLine.length > TreeExporter.LABEL_LENGTH
+      ? `${singleLine.substring(0, TreeExporter.LABEL_LENGTH - 3)}...`
+      : singleLine;
+  }
+
+  private escapeMermaid(text: string): string {
+    return text.replace(/"/g, "#quot;").replace(/[<>]/g, "");
+  }
+
+  private escapeDot(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -1,19 +1,91 @@
 import "dotenv/config.js";
+import { promises as fs } from "fs";
+import path from "path";
 import Server from "./server.js";
-import { CallManager } from "./call-manager/client.js";
-import { WebhookHandler } from "./webhook/index.js";
-import { DiscoveryOrchestrator } from "./orchestrator/discoveryOrchestrator.js";
-import { TranscriptionService } from "./transcription/transcriptionService.js";
+import {
+  CallManager,
+  CallManagerOptions,
+  isCallApiFailure,
+} from "./call-manager/client.js";
+import { TokenBucket } from "./call-manager/tokenBucket.js";
+import { CircuitBreaker } from "./call-manager/circuitBreaker.js";
+import { WebhookHandler, WebhookJob } from "./webhook/index.js";
+import {
+  DiscoveryConfig,
+  DiscoveryOrchestrator,
+  DiscoverySnapshot,
+} from "./orchestrator/discoveryOrchestrator.js";
+import { createTranscriber } from "./transcription/createTranscriber.js";
+import {
+  Transcriber,
+  TranscriptionProvider,
+} from "./transcription/transcriber.js";
+import { StateStore } from "./persistence/stateStore.js";
+import { TreeExporter } from "./export/treeExporter.js";
+import { ConversationTree } from "./discovery/conversationTree.js";
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  SemanticDeduplicator,
+} from "./discovery/semanticDeduplicator.js";
+import {
+  EmbeddingProvider,
+  createEmbedder,
+} from "./discovery/embeddings.js";
+import { RunManager } from "./runs/runManager.js";
+import { RunsHandler } from "./runs/runsHandler.js";
+import { DashboardHandler } from "./dashboard/dashboardHandler.js";
+import { DiscoveryEventBus } from "./events/discoveryEvents.js";
+import { EventLog } from "./events/eventLog.js";
+import { ProgressVisualizer } from "./visualization/progressVisualizer.js";
+import { createWebhookSignature } from "./webhook/signature.js";
+import { CallLifecycleTracker } from "./webhook/callLifecycle.js";
+import { JobQueue } from "./jobs/jobQueue.js";
+import { JobsHandler } from "./jobs/jobsHandler.js";
+import {
+  BudgetReport,
+  CostRates,
+  DEFAULT_COST_RATES,
+  RunBudget,
+} from "./orchestrator/budgetTracker.js";
+import { PersonaLibrary } from "./personas/personaLibrary.js";
+import { DomainPack, DomainPackLibrary } from "./domains/domainPack.js";
+import { DomainContext } from "./domains/domainContext.js";
+import { CapabilityCatalogBuilder } from "./export/capabilityCatalog.js";
+import {
+  THEME_BACKENDS,
+  ThemeBackendName,
+  createThemeBackends,
+} from "./themes/themeBackends.js";
+import { RegressionSuite } from "./regression/regressionSuite.js";
+import {
+  RegressionRunner,
+  ReplayReport,
+} from "./regression/regressionRunner.js";
 import logger from "./utils/logger.js";
 
+export interface ServerOptions {
+  /** Run to start once the server is listening */
+  run?: Partial<DiscoveryConfig>;
+  /** Snapshotted run to continue once the server is listening */
+  resumeRunId?: string;
+  /** Overrides EXPORT_DIR for the run started or resumed at boot */
+  exportDir?: string;
+  /** Overrides the packs loaded from DOMAIN_PACK_FILES */
+  domainPacks?: DomainPackLibrary;
+}
+
+export interface ReplayOptions {
+  /** Where `replay-report.json` is written */
+  outputDir: string;
+  /** Dials this number instead of the suite's */
+  phoneNumber?: string;
+}
+
 function validateEnvironmentVariables() {
-  const required = [
-    "BASE_URL",
-    "API_TOKEN",
-    "DEEPGRAM_API_KEY",
-    "TARGET_PHONE_NUMBER",
-    "WEBHOOK_URL",
-  ];
+  const required = ["BASE_URL", "API_TOKEN", "WEBHOOK_URL"];
+  if (getTranscriptionProvider() === "deepgram") {
+    required.push("DEEPGRAM_API_KEY");
+  }
 
   const missing = required.filter((key) => !process.env[key]);
   if (missing.length > 0) {
@@ -23,42 +95,340 @@ function validateEnvironmentVariables() {
   }
 }
 
-async function startServer() {
+function getTranscriptionProvider(): TranscriptionProvider {
+  const provider = process.env.TRANSCRIPTION_PROVIDER || "deepgram";
+  if (provider !== "deepgram" && provider !== "fixture") {
+    throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${provider}`);
+  }
+  return provider;
+}
+
+function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER || "local";
+  if (provider !== "local" && provider !== "openai") {
+    throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+  }
+  return provider;
+}
+
+function getThemeBackendNames(): ThemeBackendName[] {
+  const names = (process.env.THEME_BACKENDS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const known: readonly string[] = THEME_BACKENDS;
+  const unknown = names.filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown THEME_BACKENDS: ${unknown.join(", ")}`);
+  }
+  return names as ThemeBackendName[];
+}
+
+function getOptionalNumber(key: string): number | undefined {
+  return process.env[key] ? Number(process.env[key]) : undefined;
+}
+
+/**
+ * Budget applied to every run unless its config sets its own.
+ */
+function getDefaultBudget(): RunBudget {
+  const wallClockMinutes = getOptionalNumber("RUN_MAX_WALL_CLOCK_MINUTES");
+  return {
+    maxCalls: getOptionalNumber("RUN_MAX_CALLS"),
+    maxCallMinutes: getOptionalNumber("RUN_MAX_CALL_MINUTES"),
+    maxLlmTokens: getOptionalNumber("RUN_MAX_LLM_TOKENS"),
+    maxTranscriptionSeconds: getOptionalNumber("RUN_MAX_TRANSCRIPTION_SECONDS"),
+    maxWallClockMs:
+      wallClockMinutes !== undefined ? wallClockMinutes * 60000 : undefined,
+  };
+}
+
+export function getCostRates(): CostRates {
+  return {
+    perCallMinute:
+      getOptionalNumber("COST_PER_CALL_MINUTE") ??
+      DEFAULT_COST_RATES.perCallMinute,
+    perThousandLlmTokens:
+      getOptionalNumber("COST_PER_1K_LLM_TOKENS") ??
+      DEFAULT_COST_RATES.perThousandLlmTokens,
+    perTranscriptionMinute:
+      getOptionalNumber("COST_PER_TRANSCRIPTION_MINUTE") ??
+      DEFAULT_COST_RATES.perTranscriptionMinute,
+  };
+}
+
+export function getExportDir(): string {
+  return process.env.EXPORT_DIR || "output";
+}
+
+/**
+ * Writes a run's tree exports and its budget report into outputDir.
+ */
+export async function writeRunReports(
+  tree: ConversationTree,
+  budget: BudgetReport,
+  outputDir: string,
+  domainPack?: DomainPack
+): Promise<void> {
+  await new TreeExporter().exportAll(tree, outputDir);
+  const catalogBuilder = new CapabilityCatalogBuilder({
+    domain: new DomainContext(undefined, domainPack),
+  });
+  await catalogBuilder.exportAll(await catalogBuilder.build(tree), outputDir);
+  await fs.writeFile(
+    path.join(outputDir, "budget-report.json"),
+    JSON.stringify(budget, null, 2),
+    "utf-8"
+  );
+}
+
+function createTranscriberFromEnv(): Transcriber {
+  return createTranscriber({
+    provider: getTranscriptionProvider(),
+    deepgramApiKey: process.env.DEEPGRAM_API_KEY,
+    fixturesDir: process.env.TRANSCRIPTION_FIXTURES_DIR || "fixtures/transcripts",
+  });
+}
+
+/**
+ * Starts a server that only receives webhooks, replays the suite through it
+ * and writes `replay-report.json` into outputDir.
+ */
+export async function replaySuite(
+  suite: RegressionSuite,
+  options: ReplayOptions
+): Promise<ReplayReport> {
+  validateEnvironmentVariables();
+
+  const callManager = new CallManager(
+    process.env.BASE_URL!,
+    process.env.API_TOKEN!
+  );
+  const runner = new RegressionRunner(callManager, {
+    webhookUrl: `${process.env.WEBHOOK_URL}/webhook/callback`,
+    phoneNumber: options.phoneNumber,
+  });
+  const webhookHandler = new WebhookHandler(
+    callManager,
+    runner,
+    createTranscriberFromEnv(),
+    { signature: createWebhookSignature() }
+  );
+
+  const server = new Server(Number(process.env.PORT) || 3000);
+  server.addRoute("/webhook", webhookHandler.getRouter());
+  await server.start();
+
+  const report = await runner.run(suite);
+  await runner.exportReport(report, options.outputDir);
+  return report;
+}
+
+export async function startServer(options: ServerOptions = {}) {
   validateEnvironmentVariables();
 
   try {
-    const transcriptionService = new TranscriptionService(
-      process.env.DEEPGRAM_API_KEY!
-    );
+    const transcriptionService = createTranscriberFromEnv();
+
+    // Every run dials the same API, so they share one rate limit and circuit
+    const callApiOptions: CallManagerOptions = {
+      rateLimiter: new TokenBucket({
+        capacity: Number(process.env.CALL_RATE_LIMIT_BURST) || 1,
+        refillIntervalMs: process.env.CALL_RATE_LIMIT_INTERVAL_MS
+          ? Number(process.env.CALL_RATE_LIMIT_INTERVAL_MS)
+          : 500,
+      }),
+      circuitBreaker: new CircuitBreaker({
+        failureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD
+          ? Number(process.env.CIRCUIT_FAILURE_THRESHOLD)
+          : undefined,
+        resetTimeoutMs: process.env.CIRCUIT_RESET_TIMEOUT_MS
+          ? Number(process.env.CIRCUIT_RESET_TIMEOUT_MS)
+          : undefined,
+        isFailure: isCallApiFailure,
+      }),
+    };
 
+    // Used for fetching recordings; each run gets its own client for dialing
     const callManager = new CallManager(
       process.env.BASE_URL!,
-      process.env.API_TOKEN!
+      process.env.API_TOKEN!,
+      callApiOptions
+    );
+
+    const stateStore = new StateStore<DiscoverySnapshot>(
+      process.env.STATE_DIR || "data/runs"
     );
 
-    const orchestrator = new DiscoveryOrchestrator(callManager, {
-      maxDepth: 5, // Maximum conversation depth to explore
-      maxConcurrentCalls: 3, // Maximum parallel conversations
-      initialPrompt:
-        "You are a customer calling to learn about available services. When the agent answers, ask about their main service offerings and show interest in learning more details.",
-      phoneNumber: process.env.TARGET_PHONE_NUMBER!,
-      webhookUrl: `${process.env.WEBHOOK_URL}/webhook/callback`,
+    const similarityThreshold = process.env.SIMILARITY_THRESHOLD
+      ? Number(process.env.SIMILARITY_THRESHOLD)
+      : DEFAULT_SIMILARITY_THRESHOLD;
+    const embeddingProvider = getEmbeddingProvider();
+    const themeBackendNames = getThemeBackendNames();
+    const defaultBudget = getDefaultBudget();
+    const costRates = getCostRates();
+    const domainPacks =
+      options.domainPacks ??
+      (await DomainPackLibrary.fromFiles(
+        process.env.DOMAIN_PACK_FILES
+          ? process.env.DOMAIN_PACK_FILES.split(",")
+          : []
+      ));
+
+    const exportDirs = new Map<string, string>();
+    const exportRun = (orchestrator: DiscoveryOrchestrator) => {
+      const runId = orchestrator.getRunId();
+      return writeRunReports(
+        orchestrator.getConversationTree(),
+        orchestrator.getDiscoveryState().budget,
+        path.join(exportDirs.get(runId) ?? getExportDir(), runId),
+        orchestrator.getDomainPack() ?? undefined
+      );
+    };
+
+    // Shared by every run; each event carries its run id
+    const events = new DiscoveryEventBus();
+    const eventLog = new EventLog(process.env.EVENT_LOG_DIR || "data/events");
+    eventLog.record(events);
+    new ProgressVisualizer().subscribe(events);
+
+    const runManager = new RunManager({
+      stateStore,
+      webhookBaseUrl: process.env.WEBHOOK_URL,
+      maxActiveRuns: process.env.MAX_ACTIVE_RUNS
+        ? Number(process.env.MAX_ACTIVE_RUNS)
+        : undefined,
+      createOrchestrator: (config: Partial<DiscoveryConfig>, runId?: string) => {
+        const runConfig = {
+          similarityThreshold,
+          budget: defaultBudget,
+          ...config,
+        };
+        const runCallManager = new CallManager(
+          process.env.BASE_URL!,
+          process.env.API_TOKEN!,
+          callApiOptions
+        );
+        return new DiscoveryOrchestrator(runCallManager, runConfig, {
+          runId,
+          stateStore,
+          events,
+          costRates,
+          domainPacks,
+          themeBackends: createThemeBackends(
+            themeBackendNames,
+            embeddingProvider
+          ),
+          deduplicator: new SemanticDeduplicator(
+            createEmbedder(embeddingProvider),
+            runConfig.similarityThreshold
+          ),
+        });
+      },
+    });
+
+    // Runs that stop on their own write their final report right away
+    events.subscribe((event) => {
+      if (
+        event.type !== "RunFinished" ||
+        event.payload.stopReason !== "budget-exhausted"
+      ) {
+        return;
+      }
+
+      const orchestrator = runManager.getRun(event.runId);
+      if (!orchestrator) return;
+      exportRun(orchestrator).catch((error) => {
+        logger.error("Failed to write final report for run", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          runId: event.runId,
+        });
+      });
     });
 
+    const webhookSignature = createWebhookSignature();
+    if (!webhookSignature) {
+      logger.warn(
+        "WEBHOOK_SECRET is not set; webhook deliveries will not be verified"
+      );
+    }
+
+    // Webhooks are acknowledged right away; recordings are processed here
+    const webhookJobs = new JobQueue<WebhookJob>({
+      concurrency: process.env.WEBHOOK_JOB_CONCURRENCY
+        ? Number(process.env.WEBHOOK_JOB_CONCURRENCY)
+        : undefined,
+      maxAttempts: process.env.WEBHOOK_JOB_MAX_ATTEMPTS
+        ? Number(process.env.WEBHOOK_JOB_MAX_ATTEMPTS)
+        : undefined,
+      backoffMs: process.env.WEBHOOK_JOB_BACKOFF_MS
+        ? Number(process.env.WEBHOOK_JOB_BACKOFF_MS)
+        : undefined,
+    });
+    const callLifecycles = new CallLifecycleTracker();
     const webhookHandler = new WebhookHandler(
       callManager,
-      orchestrator,
-      transcriptionService
+      runManager,
+      transcriptionService,
+      {
+        events,
+        signature: webhookSignature,
+        callLifecycles,
+        jobs: webhookJobs,
+      }
     );
+    const personaLibrary = await PersonaLibrary.fromFiles(
+      process.env.PERSONA_FILES ? process.env.PERSONA_FILES.split(",") : []
+    );
+    const runsHandler = new RunsHandler(runManager, {
+      callLifecycles,
+      personaLibrary,
+      domainPackLibrary: domainPacks,
+    });
 
     const server = new Server(Number(process.env.PORT) || 3000);
     server.addRoute("/webhook", webhookHandler.getRouter());
     await server.start();
 
-    await orchestrator.startDiscovery();
+    // The runs API can dial any number, so it is kept off the public,
+    // tunneled port
+    const adminServer = new Server(
+      Number(process.env.ADMIN_PORT) || 3001,
+      process.env.ADMIN_HOST || "127.0.0.1"
+    );
+    adminServer.addRoute("/runs", runsHandler.getRouter());
+    adminServer.addRoute("/jobs", new JobsHandler(webhookJobs).getRouter());
+    adminServer.addRoute("/dashboard", new DashboardHandler().getRouter());
+    await adminServer.start();
+
+    // Further runs can be started through POST /runs
+    let bootRun: DiscoveryOrchestrator | undefined;
+    if (options.resumeRunId) {
+      bootRun = await runManager.resumeRun(options.resumeRunId);
+    } else if (options.run) {
+      bootRun = await runManager.startRun(options.run);
+    }
+    if (bootRun && options.exportDir) {
+      exportDirs.set(bootRun.getRunId(), options.exportDir);
+    }
+
+    const shutdown = async () => {
+      runManager.stopAll();
+      webhookJobs.stop();
+      try {
+        await eventLog.flush();
+        for (const orchestrator of runManager.getRuns()) {
+          await exportRun(orchestrator);
+        }
+      } finally {
+        process.exit(0);
+      }
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
 
     logger.info("Voice agent discovery system started successfully", {
-      targetPhone: process.env.TARGET_PHONE_NUMBER,
+      runIds: runManager.getRuns().map((orchestrator) => orchestrator.getRunId()),
       webhookUrl: process.env.WEBHOOK_URL,
     });
   } catch (error) {
@@ -68,5 +438,3 @@ async function startServer() {
     process.exit(1);
   }
 }
-
-startServer();
@@ -0,0 +1,282 @@
+import logger from "../utils/logger.js";
+
+export type JobStatus = "queued" | "running" | "retrying" | "completed" | "dead";
+
+export interface Job<T> {
+  id: string;
+  name: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  /** When a retrying job becomes due again */
+  nextAttemptAt: Date | null;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled for each attempt after that */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  /** How many completed jobs to keep around for inspection */
+  retainCompleted?: number;
+}
+
+export type JobProcessor<T> = (job: Job<T>) => Promise<void>;
+
+/** Called once a job has used up its attempts */
+export type DeadLetterHandler<T> = (job: Job<T>) => Promise<void> | void;
+
+export class JobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} not found`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+const DEFAULT_RETAIN_COMPLETED = 100;
+
+/**
+ * In-memory job queue with a bounded pool of workers. Failed jobs are
+ * retried with exponential backoff and end up in the dead-letter list once
+ * they run out of attempts, where they are kept for inspection.
+ */
+export class JobQueue<T> {
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly retainCompleted: number;
+
+  private readonly jobs: Map<string, Job<T>> = new Map();
+  private readonly pending: Job<T>[] = [];
+  private readonly retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly idleWaiters: (() => void)[] = [];
+  private processor?: JobProcessor<T>;
+  private onDeadLetter?: DeadLetterHandler<T>;
+  private runningCount = 0;
+  private jobCounter = 0;
+  private isStopped = false;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    this.retainCompleted = options.retainCompleted ?? DEFAULT_RETAIN_COMPLETED;
+
+    if (this.concurrency < 1 || this.maxAttempts < 1) {
+      throw new Error(
+        "Job queue concurrency and maxAttempts must be at least 1"
+      );
+    }
+  }
+
+  /**
+   * Registers the function that runs each job. Jobs enqueued before this is
+   * called wait until then.
+   */
+  public process(
+    processor: JobProcessor<T>,
+    onDeadLetter?: DeadLetterHandler<T>
+  ): void {
+    this.processor = processor;
+    this.onDeadLetter = onDeadLetter;
+    this.startWorkers();
+  }
+
+  public enqueue(name: string, payload: T): Job<T> {
+    const now = new Date();
+    const suffix = Math.random().toString(36).substr(2, 6);
+    const job: Job<T> = {
+      id: `job_${++this.jobCounter}_${suffix}`,
+      name,
+      payload,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: null,
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job);
+    this.startWorkers();
+    return job;
+  }
+
+  public getJob(jobId: string): Job<T> | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  public getJobOrThrow(jobId: string): Job<T> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    return job;
+  }
+
+  public getJobs(status?: JobStatus): Job<T>[] {
+    const jobs = Array.from(this.jobs.values());
+    return status ? jobs.filter((job) => job.status === status) : jobs;
+  }
+
+  public getDeadLetters(): Job<T>[] {
+    return this.getJobs("dead");
+  }
+
+  public getStats(): Record<JobStatus, number> {
+    const stats: Record<JobStatus, number> = {
+      queued: 0,
+      running: 0,
+      retrying: 0,
+      completed: 0,
+      dead: 0,
+    };
+    this.jobs.forEach((job) => stats[job.status]++);
+    return stats;
+  }
+
+  /**
+   * Resolves once no job is queued, running or waiting to be retried.
+   */
+  public onIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Stops starting jobs and cancels scheduled retries. Running jobs finish.
+   */
+  public stop(): void {
+    this.isStopped = true;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  private startWorkers(): void {
+    while (
+      this.processor &&
+      !this.isStopped &&
+      this.runningCount < this.concurrency &&
+      this.pending.length > 0
+    ) {
+      const job = this.pending.shift()!;
+      this.runningCount++;
+      void this.runJob(job, this.processor).finally(() => {
+        this.runningCount--;
+        this.startWorkers();
+        this.notifyIfIdle();
+      });
+    }
+  }
+
+  private async runJob(
+    job: Job<T>,
+    processor: JobProcessor<T>
+  ): Promise<void> {
+    job.attempts++;
+    job.nextAttemptAt = null;
+    this.setStatus(job, "running");
+
+    try {
+      await processor(job);
+      this.setStatus(job, "completed");
+      this.pruneCompleted();
+    } catch (error) {
+      job.lastError =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (job.attempts < job.maxAttempts) {
+        this.scheduleRetry(job);
+      } else {
+        await this.deadLetter(job);
+      }
+    }
+  }
+
+  private scheduleRetry(job: Job<T>): void {
+    const delay = Math.min(
+      this.backoffMs * Math.pow(2, job.attempts - 1),
+      this.maxBackoffMs
+    );
+    job.nextAttemptAt = new Date(Date.now() + delay);
+    this.setStatus(job, "retrying");
+
+    logger.warn("Job failed, retrying", {
+      jobId: job.id,
+      name: job.name,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      delayMs: delay,
+      error: job.lastError,
+    });
+
+    this.retryTimers.set(
+      job.id,
+      setTimeout(() => {
+        this.retryTimers.delete(job.id);
+        this.pending.push(job);
+        this.startWorkers();
+      }, delay)
+    );
+  }
+
+  private async deadLetter(job: Job<T>): Promise<void> {
+    this.setStatus(job, "dead");
+
+    logger.error("Job moved to dead-letter list", {
+      jobId: job.id,
+      name: job.name,
+      attempts: job.attempts,
+      error: job.lastError,
+    });
+
+    try {
+      await this.onDeadLetter?.(job);
+    } catch (error) {
+      logger.error("Dead-letter handler failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        jobId: job.id,
+      });
+    }
+  }
+
+  private setStatus(job: Job<T>, status: JobStatus): void {
+    job.status = status;
+    job.updatedAt = new Date();
+  }
+
+  private pruneCompleted(): void {
+    const completed = this.getJobs("completed");
+    completed
+      .slice(0, Math.max(0, completed.length - this.retainCompleted))
+      .forEach((job) => this.jobs.delete(job.id));
+  }
+
+  private isIdle(): boolean {
+    return (
+      this.runningCount === 0 &&
+      this.pending.length === 0 &&
+      this.retryTimers.size === 0
+    );
+  }
+
+  private notifyIfIdle(): void {
+    if (!this.isIdle()) return;
+    this.idleWaiters.splice(0).forEach((resolve) => resolve());
+  }
+}
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from "express";
+import logger from "../utils/logger.js";
+import { JobNotFoundError, JobQueue, JobStatus } from "./jobQueue.js";
+
+const JOB_STATUSES: JobStatus[] = [
+  "queued",
+  "running",
+  "retrying",
+  "completed",
+  "dead",
+];
+
+/**
+ * Read-only API for inspecting a job queue, e.g. to find webhook work that
+ * is stuck retrying or dead-lettered.
+ */
+export class JobsHandler<T> {
+  private router: Router;
+  private jobs: JobQueue<T>;
+
+  constructor(jobs: JobQueue<T>) {
+    this.router = Router();
+    this.jobs = jobs;
+    this.configureRoutes();
+  }
+
+  private configureRoutes(): void {
+    this.router.get("/", this.handleListJobs.bind(this));
+    this.router.get("/:jobId", this.handleGetJob.bind(this));
+  }
+
+  private handleListJobs(req: Request, res: Response): void {
+    const status = req.query.status;
+    if (
+      status !== undefined &&
+      !JOB_STATUSES.includes(status as JobStatus)
+    ) {
+      res.status(400).json({
+        error: `Invalid status: expected one of ${JOB_STATUSES.join(", ")}`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      stats: this.jobs.getStats(),
+      jobs: this.jobs.getJobs(status as JobStatus | undefined),
+    });
+  }
+
+  private handleGetJob(req: Request, res: Response): void {
+    try {
+      res.status(200).json(this.jobs.getJobOrThrow(req.params.jobId));
+    } catch (error) {
+      const status = error instanceof JobNotFoundError ? 404 : 400;
+
+      logger.error("Failed to get job", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        status,
+      });
+
+      res.status(status).json({
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
@@ -0,0 +1,80 @@
+import axios, { AxiosResponse } from "axios";
+import logger from "../utils/logger.js";
+import { LLMClient, LLMRequest, LLMResponse } from "./llmClient.js";
+
+interface AnthropicMessagesResponse {
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicClientOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * LLMClient for the Anthropic Messages API.
+ */
+export class AnthropicClient implements LLMClient {
+  public readonly provider = "anthropic" as const;
+  public readonly model: string;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  private static readonly API_VERSION = "2023-06-01";
+  private static readonly DEFAULT_MAX_TOKENS = 1024;
+
+  constructor(options: AnthropicClientOptions = {}) {
+    if (!options.apiKey) {
+      throw new Error("Anthropic API key is missing.");
+    }
+
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? "claude-3-5-haiku-latest";
+    this.baseUrl = options.baseUrl ?? "https://api.anthropic.com";
+
+    logger.info("Anthropic LLM client initialized", { model: this.model });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // The Messages API takes the system prompt separately from the turns
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const messages = request.messages
+      .filter((message) => message.role !== "system")
+      .map(({ role, content }) => ({ role, content }));
+
+    const response: AxiosResponse<AnthropicMessagesResponse> = await axios.post(
+      `${this.baseUrl}/v1/messages`,
+      {
+        model: this.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? AnthropicClient.DEFAULT_MAX_TOKENS,
+      },
+      {
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": AnthropicClient.API_VERSION,
+          "Content-Type": "application/json",
+        },
+        timeout: 30000,
+      }
+    );
+
+    return {
+      content: response.data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join(""),
+      usage: {
+        promptTokens: response.data.usage?.input_tokens ?? 0,
+        completionTokens: response.data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
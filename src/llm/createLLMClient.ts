@@ -0,0 +1,54 @@
+import { LLMClient, LLMClientConfig, LLMProvider } from "./llmClient.js";
+import { OpenAIClient } from "./openAIClient.js";
+import { AnthropicClient } from "./anthropicClient.js";
+import { FakeLLMClient } from "./fakeLLMClient.js";
+
+export function createLLMClient(config: LLMClientConfig): LLMClient {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIClient({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+    case "local":
+      return new OpenAIClient({
+        provider: "local",
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+    case "anthropic":
+      return new AnthropicClient({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+      });
+    case "fake":
+      // Offline runs get an empty scenario list so discovery relies on the
+      // analyzer's rule-based paths
+      return new FakeLLMClient(() => JSON.stringify({ scenarios: [] }));
+    default:
+      throw new Error(
+        `Unknown LLM provider: ${(config as LLMClientConfig).provider}`
+      );
+  }
+}
+
+/**
+ * Reads LLM settings from the environment. OPENAI_API_KEY is kept as the key
+ * for the default provider so existing .env files keep working.
+ */
+export function createLLMClientFromEnv(): LLMClient {
+  const provider = (process.env.LLM_PROVIDER || "openai") as LLMProvider;
+
+  return createLLMClient({
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKey:
+      provider === "anthropic"
+        ? process.env.ANTHROPIC_API_KEY
+        : process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+  });
+}
@@ -0,0 +1,89 @@
+import logger from "../utils/logger.js";
+import { LLMClient, LLMUsage } from "./llmClient.js";
+import { SchemaValidationError, generateStructured } from "./structuredOutput.js";
+import { validateSchema } from "../config/schema.js";
+import {
+  DOMAIN_PACK_SCHEMA,
+  DomainPack,
+  GENERAL_DOMAIN_PACK,
+} from "../domains/domainPack.js";
+
+export interface DomainProposalResult {
+  pack: DomainPack;
+  usage: LLMUsage;
+}
+
+/**
+ * Validates a pack the model proposed. Theme patterns are dropped: the model
+ * is never asked for them, and a regular expression taken from model output
+ * could backtrack catastrophically on a transcript.
+ */
+export function parseDomainPack(value: unknown): DomainPack {
+  const issues = validateSchema(value, DOMAIN_PACK_SCHEMA);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(
+      issues.map(({ path, message }) => `${path}: ${message}`)
+    );
+  }
+
+  const pack = value as DomainPack;
+  return {
+    ...pack,
+    themes: pack.themes.map(({ id, keywords }) => ({ id, keywords })),
+  };
+}
+
+/**
+ * Asks the model to describe the business behind an agent that matched no
+ * domain pack. Falls back to the general pack if it cannot produce a valid
+ * one.
+ */
+export async function proposeDomainPack(
+  client: LLMClient,
+  response: string
+): Promise<DomainProposalResult> {
+  try {
+    const { data, usage, attempts } = await generateStructured(
+      client,
+      {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an AI helping test customer service voice systems. Classify businesses from what their phone agents say. Respond only with JSON.",
+          },
+          {
+            role: "user",
+            content: `A business's phone agent said: "${response}"
+
+Describe this kind of business as a JSON object in this shape:
+{"id": "snake_case_id", "name": "kind of business", "keywords": ["words its agents use"], "services": [{"id": "snake_case_id", "keywords": ["words naming the service"]}], "infoRequests": [{"id": "snake_case_id", "keywords": ["words the agent uses to ask for it"]}], "terminalPhrases": ["phrases the agent ends calls with"], "themes": [{"id": "snake_case_id", "keywords": ["words naming the topic"]}]}`,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: 800,
+      },
+      parseDomainPack
+    );
+
+    logger.info("Proposed domain pack for unknown business", {
+      provider: client.provider,
+      model: client.model,
+      packId: data.id,
+      serviceCount: data.services.length,
+      attempts,
+    });
+
+    return { pack: data, usage };
+  } catch (error) {
+    logger.error("Error proposing domain pack", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      responsePreview: response.substring(0, 100),
+    });
+
+    return {
+      pack: GENERAL_DOMAIN_PACK,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { LLMClient, LLMRequest, LLMResponse } from "./llmClient.js";
+
+type FakeResponder = string[] | ((request: LLMRequest) => string);
+
+/**
+ * Deterministic LLMClient for tests and offline runs. Replies come from a
+ * fixed list (consumed in order) or a function of the request, and every
+ * request is recorded for assertions.
+ */
+export class FakeLLMClient implements LLMClient {
+  public readonly provider = "fake" as const;
+  public readonly model = "fake";
+  public readonly requests: LLMRequest[] = [];
+  private readonly responder: FakeResponder;
+  private responseIndex = 0;
+
+  constructor(responder: FakeResponder) {
+    this.responder = responder;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    let content: string;
+    if (typeof this.responder === "function") {
+      content = this.responder(request);
+    } else {
+      if (this.responseIndex >= this.responder.length) {
+        throw new Error("FakeLLMClient has no more responses");
+      }
+      content = this.responder[this.responseIndex++];
+    }
+
+    return {
+      content,
+      usage: {
+        promptTokens: this.countTokens(
+          request.messages.map((message) => message.content).join(" ")
+        ),
+        completionTokens: this.countTokens(content),
+      },
+    };
+  }
+
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -0,0 +1,41 @@
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider to constrain output to a JSON object where supported
+  json?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Minimal chat-completion interface shared by every model provider. Callers
+ * build provider-neutral requests and never touch vendor SDKs directly.
+ */
+export interface LLMClient {
+  readonly provider: LLMProvider;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export type LLMProvider = "openai" | "anthropic" | "local" | "fake";
+
+export interface LLMClientConfig {
+  provider: LLMProvider;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
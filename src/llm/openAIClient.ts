@@ -0,0 +1,65 @@
+import OpenAI from "openai";
+import logger from "../utils/logger.js";
+import { LLMClient, LLMRequest, LLMResponse } from "./llmClient.js";
+
+interface OpenAIClientOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  provider?: "openai" | "local";
+}
+
+/**
+ * LLMClient for OpenAI and any OpenAI-compatible endpoint (vLLM, Ollama,
+ * LM Studio). A single SDK client is reused for every request.
+ */
+export class OpenAIClient implements LLMClient {
+  public readonly provider: "openai" | "local";
+  public readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(options: OpenAIClientOptions = {}) {
+    this.provider = options.provider ?? "openai";
+
+    if (this.provider === "openai" && !options.apiKey) {
+      throw new Error("OpenAI API key is missing.");
+    }
+    if (this.provider === "local" && (!options.baseUrl || !options.model)) {
+      throw new Error("baseUrl and model are required for a local LLM");
+    }
+
+    this.model = options.model ?? "gpt-4o-mini";
+    this.client = new OpenAI({
+      // Local servers usually ignore the key but the SDK requires one
+      apiKey: options.apiKey ?? "not-needed",
+      baseURL: options.baseUrl,
+    });
+
+    logger.info("OpenAI-compatible LLM client initialized", {
+      provider: this.provider,
+      model: this.model,
+      baseUrl: options.baseUrl,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      // Not every compatible server implements JSON mode
+      ...(request.json && this.provider === "openai"
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    });
+
+    return {
+      content: completion.choices[0]?.message.content ?? "",
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import logger from "../utils/logger.js";
+import { LLMClient, LLMUsage } from "./llmClient.js";
+import { SchemaValidationError, generateStructured } from "./structuredOutput.js";
+
+/**
+ * A synthetic caller scenario to explore as a new branch of the conversation.
+ */
+export interface Scenario {
+  persona: string;
+  goal: string;
+  steps: string[];
+  expectedAgentBehavior: string;
+}
+
+export interface ScenarioGenerationResult {
+  scenarios: Scenario[];
+  usage: LLMUsage;
+}
+
+const FALLBACK_SCENARIOS: Scenario[] = [
+  {
+    persona: "a customer who needs help with a service",
+    goal: "get help with a service issue",
+    steps: ["Explain that you need help with a service issue"],
+    expectedAgentBehavior: "asks what the issue is",
+  },
+  {
+    persona: "a prospective customer",
+    goal: "learn about the services offered",
+    steps: ["Ask what services they offer"],
+    expectedAgentBehavior: "lists the available services",
+  },
+  {
+    persona: "a customer comparing options",
+    goal: "get more information before deciding",
+    steps: ["Ask for more information about their offerings"],
+    expectedAgentBehavior: "provides details or asks clarifying questions",
+  },
+];
+
+/**
+ * Checks the `{ scenarios: [...] }` shape, collecting every problem so the
+ * model can fix them all in one retry.
+ */
+export function parseScenarios(value: unknown): Scenario[] {
+  const issues: string[] = [];
+  const isNonEmptyString = (field: unknown) =>
+    typeof field === "string" && field.trim().length > 0;
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaValidationError(["root: expected an object"]);
+  }
+
+  const scenarios = (value as { scenarios?: unknown }).scenarios;
+  if (!Array.isArray(scenarios)) {
+    throw new SchemaValidationError(["scenarios: expected an array"]);
+  }
+
+  scenarios.forEach((scenario, index) => {
+    const path = `scenarios[${index}]`;
+    if (typeof scenario !== "object" || scenario === null) {
+      issues.push(`${path}: expected an object`);
+      return;
+    }
+
+    const { persona, goal, steps, expectedAgentBehavior } =
+      scenario as Record<string, unknown>;
+
+    if (!isNonEmptyString(persona)) {
+      issues.push(`${path}.persona: expected a non-empty string`);
+    }
+    if (!isNonEmptyString(goal)) {
+      issues.push(`${path}.goal: expected a non-empty string`);
+    }
+    if (
+      !Array.isArray(steps) ||
+      steps.length === 0 ||
+      !steps.every(isNonEmptyString)
+    ) {
+      issues.push(`${path}.steps: expected a non-empty array of strings`);
+    }
+    if (!isNonEmptyString(expectedAgentBehavior)) {
+      issues.push(
+        `${path}.expectedAgentBehavior: expected a non-empty string`
+      );
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+
+  return scenarios as Scenario[];
+}
+
+/**
+ * Asks the model for follow-up caller scenarios for an agent response.
+ * Falls back to generic scenarios if the model keeps producing invalid output
+ * so a single bad completion never stalls discovery.
+ */
+export async function generateScenarios(
+  client: LLMClient,
+  prompt: string,
+  options: { temperature?: number; maxScenarios?: number } = {}
+): Promise<ScenarioGenerationResult> {
+  const { temperature = 0.7, maxScenarios = 3 } = options;
+
+  try {
+    const { data, usage, attempts } = await generateStructured(
+      client,
+      {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an AI helping test customer service voice systems. Generate realistic customer scenarios that help explore all possible conversation paths. Respond only with JSON.",
+          },
+          {
+            role: "user",
+            content: `${prompt}
+
+Return a JSON object with up to ${maxScenarios} scenarios in this shape:
+{"scenarios": [{"persona": "who the caller is", "goal": "what the caller wants", "steps": ["what the caller says or does, in order"], "expectedAgentBehavior": "how the agent should respond"}]}`,
+          },
+        ],
+        temperature,
+        maxTokens: 800,
+      },
+      parseScenarios
+    );
+
+    logger.info("Generated caller scenarios", {
+      provider: client.provider,
+      model: client.model,
+      scenarioCount: data.length,
+      attempts,
+      firstGoal: data[0]?.goal.substring(0, 30),
+    });
+
+    return { scenarios: data.slice(0, maxScenarios), usage };
+  } catch (error) {
+    logger.error("Error generating caller scenarios", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      promptPreview: prompt.substring(0, 100),
+    });
+
+    return {
+      scenarios: FALLBACK_SCENARIOS,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+}
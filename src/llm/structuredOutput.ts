@@ -0,0 +1,86 @@
+import logger from "../utils/logger.js";
+import { LLMClient, LLMMessage, LLMRequest, LLMUsage } from "./llmClient.js";
+
+export class SchemaValidationError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Response did not match schema: ${issues.join("; ")}`);
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates parsed JSON and returns it typed, or throws SchemaValidationError
+ * listing every problem with its path.
+ */
+export type SchemaValidator<T> = (value: unknown) => T;
+
+export interface StructuredResult<T> {
+  data: T;
+  usage: LLMUsage;
+  attempts: number;
+}
+
+/**
+ * Sends a request expecting JSON back and validates it. When the reply is not
+ * valid JSON or fails validation, the errors are fed back to the model and
+ * the request is retried, up to maxAttempts in total.
+ */
+export async function generateStructured<T>(
+  client: LLMClient,
+  request: LLMRequest,
+  validate: SchemaValidator<T>,
+  maxAttempts: number = 3
+): Promise<StructuredResult<T>> {
+  const messages: LLMMessage[] = [...request.messages];
+  const usage: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await client.complete({ ...request, messages, json: true });
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+
+    try {
+      const data = validate(parseJson(response.content));
+      return { data, usage, attempts: attempt };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error("Unknown error");
+
+      logger.warn("LLM response failed schema validation", {
+        provider: client.provider,
+        model: client.model,
+        attempt,
+        maxAttempts,
+        error: lastError.message,
+        responsePreview: response.content.substring(0, 100),
+      });
+
+      messages.push(
+        { role: "assistant", content: response.content },
+        {
+          role: "user",
+          content: `That response was invalid: ${lastError.message}. Reply again with only a JSON object that fixes these problems.`,
+        }
+      );
+    }
+  }
+
+  throw lastError ?? new Error("Structured generation failed");
+}
+
+function parseJson(content: string): unknown {
+  // Models sometimes wrap JSON in a markdown code fence despite instructions
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new SchemaValidationError(["response is not valid JSON"]);
+  }
+}
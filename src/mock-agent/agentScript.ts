@@ -0,0 +1,209 @@
+/**
+ * Scripted agent definitions for the mock voice agent server.
+ *
+ * A script is a small state machine: the agent speaks a state's utterance,
+ * then follows the first transition whose keywords appear in the caller's
+ * system prompt. This is enough to make different prompts reach different
+ * branches, which is what discovery needs to exercise.
+ */
+
+export interface AgentTransition {
+  keywords: string[];
+  next: string;
+  callerUtterance?: string;
+}
+
+export interface AgentState {
+  utterance: string;
+  transitions?: AgentTransition[];
+  terminal?: boolean;
+}
+
+export interface AgentScript {
+  name: string;
+  initialState: string;
+  states: Record<string, AgentState>;
+  closing?: string;
+  maxTurns?: number;
+}
+
+export interface ScriptedTurn {
+  speaker: "agent" | "caller";
+  text: string;
+}
+
+const DEFAULT_MAX_TURNS = 12;
+
+export const DEFAULT_AGENT_SCRIPT: AgentScript = {
+  name: "Cool Breeze HVAC & Plumbing",
+  initialState: "greeting",
+  closing: "Thank you for calling Cool Breeze. Have a great day, goodbye.",
+  states: {
+    greeting: {
+      utterance:
+        "Thank you for calling Cool Breeze air conditioning and plumbing. How can I help you today?",
+      transitions: [
+        {
+          keywords: ["emergency", "urgent", "leak", "flood"],
+          next: "emergency",
+          callerUtterance: "I have an emergency and need someone right away.",
+        },
+        {
+          keywords: ["maintenance", "tune-up", "checkup"],
+          next: "maintenance",
+          callerUtterance: "I'd like to book a maintenance visit.",
+        },
+        {
+          keywords: ["price", "pricing", "cost", "quote", "rates"],
+          next: "pricing",
+          callerUtterance: "Can you tell me about your rates?",
+        },
+        {
+          keywords: ["services", "offer", "learn"],
+          next: "services",
+          callerUtterance: "What services do you offer?",
+        },
+      ],
+    },
+    services: {
+      utterance:
+        "We handle air conditioning repair, heating installation, plumbing repairs and seasonal maintenance. Are you an existing customer?",
+      transitions: [
+        {
+          keywords: ["existing", "current", "previous"],
+          next: "existingCustomer",
+          callerUtterance: "Yes, I'm an existing customer.",
+        },
+        {
+          keywords: ["maintenance"],
+          next: "maintenance",
+          callerUtterance: "Tell me more about maintenance.",
+        },
+        {
+          keywords: ["price", "pricing", "cost", "quote"],
+          next: "pricing",
+          callerUtterance: "How much does that usually cost?",
+        },
+      ],
+    },
+    emergency: {
+      utterance:
+        "I'm sorry to hear that. Can I get your full name and the address of the property?",
+      transitions: [
+        {
+          keywords: ["name", "address", "provide", "willing"],
+          next: "dispatch",
+          callerUtterance: "Sure, my name is Alex Smith at 12 Main Street.",
+        },
+        {
+          keywords: ["prefer not", "privacy", "anonymity", "not to provide"],
+          next: "infoRequired",
+          callerUtterance: "I'd rather not give that out yet.",
+        },
+      ],
+    },
+    dispatch: {
+      utterance:
+        "Thank you. A technician will call you within 30 minutes to confirm the emergency visit.",
+      terminal: true,
+    },
+    infoRequired: {
+      utterance:
+        "I understand, but we do need an address before we can dispatch a technician.",
+      terminal: true,
+    },
+    maintenance: {
+      utterance:
+        "Our maintenance plan includes two visits a year. What day works best for you to schedule an appointment?",
+      transitions: [
+        {
+          keywords: ["schedule", "appointment", "weekend", "availability"],
+          next: "scheduling",
+          callerUtterance: "Do you have anything available this weekend?",
+        },
+      ],
+    },
+    scheduling: {
+      utterance:
+        "We have Saturday morning available. Can I get your phone number to confirm the appointment?",
+      terminal: true,
+    },
+    pricing: {
+      utterance:
+        "A standard service call is 89 dollars, and we can give you a free quote for installations.",
+      transitions: [
+        {
+          keywords: ["installation", "install", "replace"],
+          next: "installation",
+          callerUtterance: "I'm thinking about replacing my AC unit.",
+        },
+      ],
+    },
+    installation: {
+      utterance:
+        "For installations we send someone out for a free in-home estimate. What is your address?",
+      terminal: true,
+    },
+    existingCustomer: {
+      utterance:
+        "Great, can I get the phone number on your account so I can pull up your records?",
+      terminal: true,
+    },
+  },
+};
+
+/**
+ * Walks the script for a single call and returns the conversation turns.
+ */
+export function runScript(
+  script: AgentScript,
+  callerPrompt: string
+): ScriptedTurn[] {
+  const state = script.states[script.initialState];
+  if (!state) {
+    throw new Error(
+      `Script ${script.name} has no initial state ${script.initialState}`
+    );
+  }
+
+  const normalizedPrompt = callerPrompt.toLowerCase();
+  const maxTurns = script.maxTurns ?? DEFAULT_MAX_TURNS;
+  const visited = new Set([script.initialState]);
+  const turns: ScriptedTurn[] = [{ speaker: "agent", text: state.utterance }];
+
+  let current = state;
+  while (!current.terminal && turns.length < maxTurns) {
+    const transition = current.transitions?.find(
+      (candidate) =>
+        !visited.has(candidate.next) &&
+        candidate.keywords.some((keyword) =>
+          normalizedPrompt.includes(keyword.toLowerCase())
+        )
+    );
+    if (!transition) break;
+
+    const next = script.states[transition.next];
+    if (!next) {
+      throw new Error(
+        `Script ${script.name} references unknown state ${transition.next}`
+      );
+    }
+
+    turns.push({
+      speaker: "caller",
+      text:
+        transition.callerUtterance ??
+        `I'd like to ask about ${transition.keywords[0]}.`,
+    });
+    turns.push({ speaker: "agent", text: next.utterance });
+
+    visited.add(transition.next);
+    current = next;
+  }
+
+  if (script.closing) {
+    turns.push({ speaker: "agent", text: script.closing });
+  }
+
+  return turns;
+}
@@ -0,0 +1,36 @@
+import "dotenv/config.js";
+import { promises as fs } from "fs";
+import { MockVoiceAgentServer } from "./mockAgentServer.js";
+import { AgentScript } from "./agentScript.js";
+import { createWebhookSignature } from "../webhook/signature.js";
+import logger from "../utils/logger.js";
+
+async function startMockAgent() {
+  try {
+    const script = process.env.MOCK_AGENT_SCRIPT
+      ? (JSON.parse(
+          await fs.readFile(process.env.MOCK_AGENT_SCRIPT, "utf-8")
+        ) as AgentScript)
+      : undefined;
+
+    const server = new MockVoiceAgentServer({
+      script,
+      apiToken: process.env.API_TOKEN,
+      webhookSignature: createWebhookSignature(),
+      fixturesDir:
+        process.env.TRANSCRIPTION_FIXTURES_DIR || "fixtures/transcripts",
+    });
+    const port = await server.start(Number(process.env.MOCK_AGENT_PORT) || 4000);
+
+    logger.info("Point BASE_URL at the mock agent to run discovery offline", {
+      baseUrl: `http://localhost:${port}/api/rest/exercise`,
+    });
+  } catch (error) {
+    logger.error("Failed to start mock voice agent", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    process.exit(1);
+  }
+}
+
+startMockAgent();
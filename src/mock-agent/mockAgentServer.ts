@@ -0,0 +1,381 @@
+import express, { Express, Request, Response, NextFunction } from "express";
+import { Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import path from "path";
+import logger from "../utils/logger.js";
+import {
+  FixtureTranscriber,
+  GENERATED_FIXTURES_DIR,
+} from "../transcription/fixtureTranscriber.js";
+import { TranscriptTurn } from "../transcription/transcriber.js";
+import { WebhookSignature } from "../webhook/signature.js";
+import {
+  AgentScript,
+  DEFAULT_AGENT_SCRIPT,
+  ScriptedTurn,
+  runScript,
+} from "./agentScript.js";
+
+type MockWebhookStatus =
+  | "initiated"
+  | "in-progress"
+  | "completed"
+  | "failed"
+  | "event_phone_call_connected"
+  | "event_phone_call_ended"
+  | "event_recording";
+
+interface MockCall {
+  id: string;
+  phoneNumber: string;
+  prompt: string;
+  webhookUrl: string;
+  turns: ScriptedTurn[];
+  recording: Buffer;
+  createdAt: Date;
+}
+
+interface MockAgentServerOptions {
+  script?: AgentScript;
+  apiToken?: string;
+  eventDelayMs?: number;
+  events?: MockWebhookStatus[];
+  fixturesDir?: string;
+  shouldFail?: (prompt: string, callId: string) => boolean;
+  /** Signs webhooks the way the discovery server expects them */
+  webhookSignature?: WebhookSignature;
+}
+
+const DEFAULT_EVENTS: MockWebhookStatus[] = [
+  "initiated",
+  "event_phone_call_connected",
+  "event_recording",
+  "completed",
+];
+
+const SAMPLE_RATE = 8000;
+const SECONDS_PER_WORD = 0.4;
+const MOCK_CHUNK_ID = "mock";
+
+/**
+ * Local stand-in for the Hamming phone API. Implements /start-call and
+ * /media/exercise under the same paths CallManager uses, plays a scripted
+ * agent against the caller's prompt and delivers the webhook sequence a real
+ * call would produce.
+ */
+export class MockVoiceAgentServer {
+  private readonly app: Express;
+  private readonly script: AgentScript;
+  private readonly apiToken?: string;
+  private readonly eventDelayMs: number;
+  private readonly events: MockWebhookStatus[];
+  private readonly fixturesDir?: string;
+  private readonly shouldFail?: (prompt: string, callId: string) => boolean;
+  private readonly webhookSignature?: WebhookSignature;
+  private readonly calls: Map<string, MockCall> = new Map();
+  private readonly pendingTimers: Set<NodeJS.Timeout> = new Set();
+  private server: HttpServer | null = null;
+  private callCounter = 0;
+
+  constructor(options: MockAgentServerOptions = {}) {
+    this.script = options.script ?? DEFAULT_AGENT_SCRIPT;
+    this.apiToken = options.apiToken;
+    this.eventDelayMs = options.eventDelayMs ?? 50;
+    this.events = options.events ?? DEFAULT_EVENTS;
+    this.fixturesDir = options.fixturesDir;
+    this.shouldFail = options.shouldFail;
+    this.webhookSignature = options.webhookSignature;
+
+    this.app = express();
+    this.app.use(express.json());
+    this.configureRoutes();
+  }
+
+  private configureRoutes(): void {
+    const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+      if (
+        this.apiToken &&
+        req.headers.authorization !== `Bearer ${this.apiToken}`
+      ) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      next();
+    };
+
+    this.app.post(
+      "/api/rest/exercise/start-call",
+      requireAuth,
+      this.handleStartCall.bind(this)
+    );
+    this.app.get(
+      "/api/media/exercise",
+      requireAuth,
+      this.handleGetRecording.bind(this)
+    );
+    this.app.get("/api/mock/calls/:id", this.handleGetCall.bind(this));
+  }
+
+  private async handleStartCall(req: Request, res: Response): Promise<void> {
+    const { phone_number, prompt, webhook_url } = req.body ?? {};
+
+    if (!phone_number || !prompt || !webhook_url) {
+      res.status(400).json({
+        error: "phone_number, prompt and webhook_url are required",
+      });
+      return;
+    }
+
+    const id = `mock_call_${++this.callCounter}_${Date.now()}`;
+    const turns = runScript(this.script, prompt);
+    const call: MockCall = {
+      id,
+      phoneNumber: phone_number,
+      prompt,
+      webhookUrl: webhook_url,
+      turns,
+      recording: this.createRecording(id, turns),
+      createdAt: new Date(),
+    };
+    this.calls.set(id, call);
+
+    if (this.fixturesDir) {
+      // Lets a FixtureTranscriber pointed at the same directory transcribe
+      // this call's recording offline
+      try {
+        await FixtureTranscriber.saveFixture(
+          path.join(this.fixturesDir, GENERATED_FIXTURES_DIR),
+          call.recording,
+          {
+            text: this.formatTranscript(turns),
+            confidence: 1,
+            turns: this.toTranscriptTurns(turns),
+          }
+        );
+      } catch (error) {
+        logger.warn("Mock agent failed to write transcript fixture", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          callId: id,
+        });
+      }
+    }
+
+    logger.info("Mock agent accepted call", {
+      callId: id,
+      script: this.script.name,
+      turnCount: turns.length,
+    });
+
+    res.status(200).json({ id });
+
+    const events: MockWebhookStatus[] = this.shouldFail?.(prompt, id)
+      ? ["initiated", "failed"]
+      : this.events;
+    this.scheduleWebhooks(call, events);
+  }
+
+  private handleGetRecording(req: Request, res: Response): void {
+    const call = this.calls.get(String(req.query.id ?? ""));
+    if (!call) {
+      res.status(404).json({ error: "Recording not found" });
+      return;
+    }
+
+    res.status(200).type("audio/wav").send(call.recording);
+  }
+
+  private handleGetCall(req: Request, res: Response): void {
+    const call = this.calls.get(req.params.id);
+    if (!call) {
+      res.status(404).json({ error: "Call not found" });
+      return;
+    }
+
+    res.status(200).json({
+      id: call.id,
+      prompt: call.prompt,
+      turns: call.turns,
+      transcript: this.formatTranscript(call.turns),
+    });
+  }
+
+  private scheduleWebhooks(call: MockCall, events: MockWebhookStatus[]): void {
+    events.forEach((status, index) => {
+      const timer = setTimeout(async () => {
+        this.pendingTimers.delete(timer);
+        await this.sendWebhook(call, status);
+      }, this.eventDelayMs * (index + 1));
+      this.pendingTimers.add(timer);
+    });
+  }
+
+  private async sendWebhook(
+    call: MockCall,
+    status: MockWebhookStatus
+  ): Promise<void> {
+    const payload = {
+      id: call.id,
+      status,
+      recording_available: status === "event_recording" || status === "completed",
+    };
+
+    const body = JSON.stringify(payload);
+
+    try {
+      await axios.post(call.webhookUrl, body, {
+        timeout: 5000,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.webhookSignature?.sign(body),
+        },
+      });
+    } catch (error) {
+      logger.warn("Mock agent failed to deliver webhook", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        callId: call.id,
+        status,
+      });
+    }
+  }
+
+  /**
+   * Builds a silent WAV file sized to the conversation. The call ID is stored
+   * in a custom RIFF chunk, which audio players ignore, so each recording is
+   * unique and can be traced back to its transcript.
+   */
+  private createRecording(callId: string, turns: ScriptedTurn[]): Buffer {
+    const wordCount = turns.reduce(
+      (count, turn) => count + turn.text.split(/\s+/).length,
+      0
+    );
+    const sampleCount = Math.ceil(wordCount * SECONDS_PER_WORD * SAMPLE_RATE);
+
+    const idBytes = Buffer.from(callId, "utf-8");
+    const idChunkSize = idBytes.length + (idBytes.length % 2);
+    const dataSize = sampleCount * 2;
+
+    const header = Buffer.alloc(12);
+    header.write("RIFF", 0);
+    header.writeUInt32LE(4 + (8 + 16) + (8 + idChunkSize) + (8 + dataSize), 4);
+    header.write("WAVE", 8);
+
+    const fmt = Buffer.alloc(8 + 16);
+    fmt.write("fmt ", 0);
+    fmt.writeUInt32LE(16, 4);
+    fmt.writeUInt16LE(1, 8); // PCM
+    fmt.writeUInt16LE(1, 10); // mono
+    fmt.writeUInt32LE(SAMPLE_RATE, 12);
+    fmt.writeUInt32LE(SAMPLE_RATE * 2, 16);
+    fmt.writeUInt16LE(2, 20);
+    fmt.writeUInt16LE(16, 22);
+
+    const idChunk = Buffer.alloc(8 + idChunkSize);
+    idChunk.write(MOCK_CHUNK_ID, 0);
+    idChunk.writeUInt32LE(idBytes.length, 4);
+    idBytes.copy(idChunk, 8);
+
+    const dataHeader = Buffer.alloc(8);
+    dataHeader.write("data", 0);
+    dataHeader.writeUInt32LE(dataSize, 4);
+
+    return Buffer.concat([
+      header,
+      fmt,
+      idChunk,
+      dataHeader,
+      Buffer.alloc(dataSize),
+    ]);
+  }
+
+  /**
+   * Diarized form of the script, timed at the same pace as the recording.
+   * The agent is speaker 0 and the caller speaker 1.
+   */
+  private toTranscriptTurns(turns: ScriptedTurn[]): TranscriptTurn[] {
+    let clock = 0;
+    return turns.map((turn) => {
+      const start = clock;
+      clock += turn.text.split(/\s+/).length * SECONDS_PER_WORD;
+      return {
+        speaker: turn.speaker === "agent" ? 0 : 1,
+        role: turn.speaker,
+        start,
+        end: clock,
+        text: turn.text,
+        confidence: 1,
+      };
+    });
+  }
+
+  private formatTranscript(turns: ScriptedTurn[]): string {
+    return turns
+      .map((turn) => `${turn.speaker === "agent" ? "Agent" : "Caller"}: ${turn.text}`)
+      .join("\n");
+  }
+
+  /**
+   * Returns the scripted conversation behind a recording served by this mock.
+   */
+  public getCallForRecording(recording: Buffer): {
+    id: string;
+    turns: ScriptedTurn[];
+    transcript: string;
+  } {
+    let offset = 12;
+    while (offset + 8 <= recording.length) {
+      const chunkId = recording.toString("ascii", offset, offset + 4);
+      const chunkSize = recording.readUInt32LE(offset + 4);
+
+      if (chunkId === MOCK_CHUNK_ID) {
+        const callId = recording.toString(
+          "utf-8",
+          offset + 8,
+          offset + 8 + chunkSize
+        );
+        const call = this.calls.get(callId);
+        if (!call) break;
+
+        return {
+          id: call.id,
+          turns: call.turns,
+          transcript: this.formatTranscript(call.turns),
+        };
+      }
+
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error("Recording was not produced by this mock agent");
+  }
+
+  public getCalls(): MockCall[] {
+    return Array.from(this.calls.values());
+  }
+
+  public async start(port: number = 0): Promise<number> {
+    await new Promise<void>((resolve) => {
+      this.server = this.app.listen(port, () => resolve());
+    });
+
+    const boundPort = (this.server!.address() as AddressInfo).port;
+    logger.info("Mock voice agent server started", {
+      port: boundPort,
+      script: this.script.name,
+    });
+
+    return boundPort;
+  }
+
+  public async stop(): Promise<void> {
+    this.pendingTimers.forEach((timer) => clearTimeout(timer));
+    this.pendingTimers.clear();
+
+    if (!this.server) return;
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.close((error) => (error ? reject(error) : resolve()));
+    });
+    this.server = null;
+  }
+}
@@ -0,0 +1,237 @@
+import { LLMUsage } from "../llm/llmClient.js";
+
+export const RUN_BUDGET_KEYS = [
+  "maxCalls",
+  "maxCallMinutes",
+  "maxLlmTokens",
+  "maxTranscriptionSeconds",
+  "maxWallClockMs",
+] as const;
+
+/** Limits for one run; a missing limit is not enforced */
+export type RunBudget = Partial<
+  Record<(typeof RUN_BUDGET_KEYS)[number], number>
+>;
+
+export interface BudgetUsage {
+  calls: number;
+  callMinutes: number;
+  llmTokens: number;
+  transcriptionSeconds: number;
+  wallClockMs: number;
+}
+
+export type BudgetMetric = keyof BudgetUsage;
+
+/** Prices in USD used to estimate what a run costs */
+export interface CostRates {
+  perCallMinute: number;
+  perThousandLlmTokens: number;
+  perTranscriptionMinute: number;
+}
+
+export interface CostEstimate {
+  calls: number;
+  llm: number;
+  transcription: number;
+  total: number;
+}
+
+export interface BudgetWarning {
+  metric: BudgetMetric;
+  /** Fraction of the limit that was crossed */
+  threshold: number;
+  used: number;
+  limit: number;
+}
+
+export interface BudgetReport {
+  limits: RunBudget;
+  usage: BudgetUsage;
+  /** Fraction of each limit used so far, for metrics that have one */
+  utilization: Partial<Record<BudgetMetric, number>>;
+  estimatedCostUsd: CostEstimate;
+  exhausted: BudgetMetric | null;
+}
+
+export interface BudgetTrackerOptions {
+  budget?: RunBudget;
+  costRates?: Partial<CostRates>;
+  /** Fractions of a limit at which a warning is raised, once each */
+  warningThresholds?: number[];
+  onWarning?: (warning: BudgetWarning) => void;
+}
+
+// Rough list prices; deployments should pass their real rates
+export const DEFAULT_COST_RATES: CostRates = {
+  perCallMinute: 0.05,
+  perThousandLlmTokens: 0.002,
+  perTranscriptionMinute: 0.0043,
+};
+
+const DEFAULT_WARNING_THRESHOLDS = [0.5, 0.8];
+
+const LIMIT_KEYS: Record<BudgetMetric, keyof RunBudget> = {
+  calls: "maxCalls",
+  callMinutes: "maxCallMinutes",
+  llmTokens: "maxLlmTokens",
+  transcriptionSeconds: "maxTranscriptionSeconds",
+  wallClockMs: "maxWallClockMs",
+};
+
+/**
+ * Accounts for what a run has spent against its budget. Wall-clock time only
+ * accrues while the run is started, so a resumed run picks up where the
+ * snapshot left off rather than counting the time it was down.
+ */
+export class BudgetTracker {
+  private readonly budget: RunBudget;
+  private readonly costRates: CostRates;
+  private readonly warningThresholds: number[];
+  private readonly onWarning?: (warning: BudgetWarning) => void;
+  private usage: BudgetUsage = {
+    calls: 0,
+    callMinutes: 0,
+    llmTokens: 0,
+    transcriptionSeconds: 0,
+    wallClockMs: 0,
+  };
+  private startedAt: number | null = null;
+  // Metric -> highest threshold already warned about
+  private readonly warned: Map<BudgetMetric, number> = new Map();
+
+  constructor(options: BudgetTrackerOptions = {}) {
+    this.budget = { ...options.budget };
+    this.costRates = { ...DEFAULT_COST_RATES, ...options.costRates };
+    this.warningThresholds = [
+      ...(options.warningThresholds ?? DEFAULT_WARNING_THRESHOLDS),
+    ].sort((a, b) => a - b);
+    this.onWarning = options.onWarning;
+  }
+
+  public start(now: number = Date.now()): void {
+    if (this.startedAt === null) {
+      this.startedAt = now;
+    }
+  }
+
+  public stop(now: number = Date.now()): void {
+    this.usage = this.getUsage(now);
+    this.startedAt = null;
+  }
+
+  /**
+   * Restores the usage saved in a snapshot, including the wall-clock time
+   * the run had already been going for.
+   */
+  public restore(usage: BudgetUsage): void {
+    this.usage = { ...usage };
+    this.startedAt = null;
+  }
+
+  public recordCall(): void {
+    this.usage.calls++;
+  }
+
+  /**
+   * Records a completed call's recording, which is both the call time and
+   * the audio that was transcribed.
+   */
+  public recordRecording(durationSeconds: number): void {
+    this.usage.callMinutes += durationSeconds / 60;
+    this.usage.transcriptionSeconds += durationSeconds;
+  }
+
+  public recordLlmUsage(usage: LLMUsage): void {
+    this.usage.llmTokens += usage.promptTokens + usage.completionTokens;
+  }
+
+  public getUsage(now: number = Date.now()): BudgetUsage {
+    return {
+      ...this.usage,
+      wallClockMs:
+        this.usage.wallClockMs +
+        (this.startedAt !== null ? now - this.startedAt : 0),
+    };
+  }
+
+  /**
+   * Raises warnings for newly crossed thresholds and returns the first
+   * metric whose limit has been reached, or null while within budget.
+   */
+  public check(now: number = Date.now()): BudgetMetric | null {
+    const usage = this.getUsage(now);
+
+    for (const metric of this.getLimitedMetrics()) {
+      const limit = this.getLimit(metric)!;
+      const used = usage[metric];
+      if (used >= limit) continue;
+
+      const crossed = this.warningThresholds.filter(
+        (threshold) => used >= threshold * limit
+      );
+      const threshold = crossed[crossed.length - 1];
+      const lastWarned = this.warned.get(metric) ?? 0;
+      if (threshold !== undefined && threshold > lastWarned) {
+        this.warned.set(metric, threshold);
+        this.onWarning?.({ metric, threshold, used, limit });
+      }
+    }
+
+    return this.findExhausted(usage);
+  }
+
+  public getReport(now: number = Date.now()): BudgetReport {
+    const usage = this.getUsage(now);
+    const utilization: BudgetReport["utilization"] = {};
+
+    for (const metric of this.getLimitedMetrics()) {
+      const limit = this.getLimit(metric)!;
+      utilization[metric] = limit > 0 ? usage[metric] / limit : 1;
+    }
+
+    return {
+      limits: { ...this.budget },
+      usage,
+      utilization,
+      estimatedCostUsd: this.estimateCost(usage),
+      exhausted: this.findExhausted(usage),
+    };
+  }
+
+  public getLimit(metric: BudgetMetric): number | undefined {
+    return this.budget[LIMIT_KEYS[metric]];
+  }
+
+  private findExhausted(usage: BudgetUsage): BudgetMetric | null {
+    return (
+      this.getLimitedMetrics().find(
+        (metric) => usage[metric] >= this.getLimit(metric)!
+      ) ?? null
+    );
+  }
+
+  private getLimitedMetrics(): BudgetMetric[] {
+    return (Object.keys(LIMIT_KEYS) as BudgetMetric[]).filter(
+      (metric) => this.getLimit(metric) !== undefined
+    );
+  }
+
+  private estimateCost(usage: BudgetUsage): CostEstimate {
+    const calls = usage.callMinutes * this.costRates.perCallMinute;
+    const llm = (usage.llmTokens / 1000) * this.costRates.perThousandLlmTokens;
+    const transcription =
+      (usage.transcriptionSeconds / 60) * this.costRates.perTranscriptionMinute;
+
+    return {
+      calls: roundCost(calls),
+      llm: roundCost(llm),
+      transcription: roundCost(transcription),
+      total: roundCost(calls + llm + transcription),
+    };
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,106 @@
+import logger from "../utils/logger.js";
+
+export interface CallWatchdogOptions {
+  maxCallDurationMs: number;
+  /** How often to look for overdue calls; defaults to 15s or less */
+  checkIntervalMs?: number;
+  onTimeout: (callId: string, durationMs: number) => Promise<void> | void;
+  /** How many timed-out calls to remember so their late webhooks are ignored */
+  retainRetired?: number;
+}
+
+const DEFAULT_CHECK_INTERVAL_MS = 15000;
+const DEFAULT_RETAIN_RETIRED = 100;
+
+/**
+ * Watches calls that are waiting for their terminal webhook. A call that
+ * runs past the maximum duration is handed to `onTimeout` and retired, so a
+ * webhook that turns up for it afterwards can be recognized and ignored.
+ * Only the most recently retired calls are remembered.
+ */
+export class CallWatchdog {
+  private readonly maxCallDurationMs: number;
+  private readonly checkIntervalMs: number;
+  private readonly onTimeout: CallWatchdogOptions["onTimeout"];
+  private readonly retainRetired: number;
+  // Call id -> start time in ms
+  private readonly activeCalls: Map<string, number> = new Map();
+  // Oldest first
+  private readonly retiredCallIds: Set<string> = new Set();
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: CallWatchdogOptions) {
+    this.maxCallDurationMs = options.maxCallDurationMs;
+    this.checkIntervalMs =
+      options.checkIntervalMs ??
+      Math.min(DEFAULT_CHECK_INTERVAL_MS, options.maxCallDurationMs);
+    this.onTimeout = options.onTimeout;
+    this.retainRetired = options.retainRetired ?? DEFAULT_RETAIN_RETIRED;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.check(), this.checkIntervalMs);
+    // A watchdog alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public track(callId: string, startedAt: number = Date.now()): void {
+    this.activeCalls.set(callId, startedAt);
+  }
+
+  /**
+   * Stops watching a call whose outcome arrived. Returns false when the
+   * call already timed out, in which case the outcome should be ignored.
+   */
+  public release(callId: string): boolean {
+    this.activeCalls.delete(callId);
+    return !this.retiredCallIds.has(callId);
+  }
+
+  public isRetired(callId: string): boolean {
+    return this.retiredCallIds.has(callId);
+  }
+
+  /**
+   * Times out every call older than the maximum duration and returns their
+   * ids.
+   */
+  public check(now: number = Date.now()): string[] {
+    const timedOut: string[] = [];
+
+    this.activeCalls.forEach((startedAt, callId) => {
+      const durationMs = now - startedAt;
+      if (durationMs <= this.maxCallDurationMs) return;
+
+      this.activeCalls.delete(callId);
+      this.retire(callId);
+      timedOut.push(callId);
+
+      Promise.resolve()
+        .then(() => this.onTimeout(callId, durationMs))
+        .catch((error) => {
+          logger.error("Failed to handle timed out call", {
+            error: error instanceof Error ? error.message : "Unknown error",
+            callId,
+          });
+        });
+    });
+
+    return timedOut;
+  }
+
+  private retire(callId: string): void {
+    this.retiredCallIds.add(callId);
+    for (const oldest of this.retiredCallIds) {
+      if (this.retiredCallIds.size <= this.retainRetired) break;
+      this.retiredCallIds.delete(oldest);
+    }
+  }
+}
@@ -1,10 +1,55 @@
 import logger from "../utils/logger.js";
 import { CallManager } from "../call-manager/client.js";
-import { ConversationTree } from "../discovery/conversationTree.js";
+import { CircuitOpenError } from "../call-manager/circuitBreaker.js";
+import {
+  CallNode,
+  ConversationTree,
+  ConversationTreeSnapshot,
+  NodeStatus,
+} from "../discovery/conversationTree.js";
 import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
-import { ProgressVisualizer } from "../visualization/progressVisualizer.js";
+import { StateStore } from "../persistence/stateStore.js";
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  DuplicateQuery,
+  IndexedTextKind,
+  SemanticDeduplicator,
+} from "../discovery/semanticDeduplicator.js";
+import { TfIdfEmbedder } from "../discovery/embeddings.js";
+import {
+  CallerIntent,
+  CallerPersona,
+  PromptBuilder,
+} from "../prompts/promptBuilder.js";
+import { applyPersona } from "../personas/personaLibrary.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { DomainPack, DomainPackLibrary } from "../domains/domainPack.js";
+import { ThemeBackend, ThemeClassifier } from "../themes/themeClassifier.js";
+import {
+  TranscriptionResult,
+  getAgentText,
+  getRecordingDuration,
+} from "../transcription/transcriber.js";
+import {
+  DiscoveryEventBus,
+  DiscoveryEventPublisher,
+} from "../events/discoveryEvents.js";
+import { CallWatchdog } from "./callWatchdog.js";
+import {
+  BudgetMetric,
+  BudgetTracker,
+  BudgetUsage,
+  CostRates,
+  RunBudget,
+} from "./budgetTracker.js";
+import {
+  ExplorationStrategy,
+  ExplorationStrategyName,
+  QueuedCall,
+  createExplorationStrategy,
+} from "./explorationStrategy.js";
 
-interface DiscoveryConfig {
+export interface DiscoveryConfig {
   maxDepth: number;
   maxConcurrentCalls: number;
   initialPrompt: string;
@@ -13,25 +58,106 @@ interface DiscoveryConfig {
   minTimeBetweenCalls: number;
   maxCallDuration: number;
   retryDelayMs: number;
+  similarityThreshold: number;
+  budget: RunBudget;
+  explorationStrategy: ExplorationStrategyName;
+  /**
+   * Intents to open the run with. The first is dialed as the root call and
+   * the rest are explored from it; empty means a general first call.
+   */
+  seedIntents: CallerIntent[];
+  /**
+   * Personas every discovered intent is also tried as. A branch started as
+   * a persona keeps it for all of its descendants.
+   */
+  callerPersonas: CallerPersona[];
+  /**
+   * The agent's kind of business, when known up front. Null means it is
+   * detected from the first response.
+   */
+  domainPack: DomainPack | null;
 }
 
+export type RunStopReason = "stopped" | "budget-exhausted";
+
 interface DiscoveryState {
   isRunning: boolean;
+  isPaused: boolean;
   activeCallCount: number;
   completedCallCount: number;
   failedCallCount: number;
+  /** Calls given up on because no terminal webhook arrived in time */
+  timedOutCallCount: number;
+  /** Set once the budget runs out; the run then drains its active calls */
+  budgetExhausted: BudgetMetric | null;
   lastUpdateTimestamp: Date;
   exploredThemes: Set<string>;
   activeThemes: Set<string>;
   lastCallTime: number;
 }
 
+/**
+ * Everything needed to pick a run back up after the process restarts.
+ * Sets and dates are flattened so the snapshot round-trips through JSON.
+ */
+export interface DiscoverySnapshot {
+  version: 1;
+  runId: string;
+  savedAt: string;
+  config: DiscoveryConfig;
+  state: Omit<
+    DiscoveryState,
+    "exploredThemes" | "activeThemes" | "lastUpdateTimestamp"
+  > & {
+    exploredThemes: string[];
+    activeThemes: string[];
+    lastUpdateTimestamp: string;
+  };
+  callQueue: QueuedCall[];
+  tree: ConversationTreeSnapshot;
+  /** Missing from snapshots taken before budgets were tracked */
+  budgetUsage?: BudgetUsage;
+  /** The pack the run settled on; missing until the first call completes */
+  domainPack?: DomainPack;
+}
+
+interface OrchestratorOptions {
+  runId?: string;
+  stateStore?: StateStore<DiscoverySnapshot>;
+  responseAnalyzer?: ResponseAnalyzer;
+  deduplicator?: SemanticDeduplicator;
+  events?: DiscoveryEventBus;
+  costRates?: Partial<CostRates>;
+  /** Packs the agent's business is detected from */
+  domainPacks?: DomainPackLibrary;
+  /** Extra theme scorers run on every agent response */
+  themeBackends?: ThemeBackend[];
+}
+
+const INITIAL_INTENT: CallerIntent = {
+  persona: "a customer making your first call to this business",
+  goal: "understand what services they offer and how they handle initial inquiries",
+  steps: [
+    "Express general interest in learning about their services",
+    "Ask clear questions about their primary service offerings",
+  ],
+};
+
+// Queued calls that fail to dial this many times are dropped
+const MAX_DIAL_ATTEMPTS = 3;
+
 const DEFAULT_CONFIG: DiscoveryConfig = {
   maxDepth: 5,
   maxConcurrentCalls: 3,
   minTimeBetweenCalls: 500,
   maxCallDuration: 600000, // 10 minutes
   retryDelayMs: 1000,
+  similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  budget: {},
+  explorationStrategy: "best-first",
+  seedIntents: [],
+  callerPersonas: [],
+  domainPack: null,
   initialPrompt:
     "You are a customer calling to learn about available services.",
   phoneNumber: "",
@@ -40,20 +166,36 @@ const DEFAULT_CONFIG: DiscoveryConfig = {
 
 export class DiscoveryOrchestrator {
   private readonly callManager: CallManager;
-  private readonly conversationTree: ConversationTree;
+  private conversationTree: ConversationTree;
   private readonly responseAnalyzer: ResponseAnalyzer;
   private readonly config: DiscoveryConfig;
   private state: DiscoveryState;
-  private readonly visualizer: ProgressVisualizer;
+  private readonly stateStore?: StateStore<DiscoverySnapshot>;
+  private readonly deduplicator: SemanticDeduplicator;
+  private readonly promptBuilder = new PromptBuilder();
+  private readonly events: DiscoveryEventBus;
+  // Reads runId on every call since resuming replaces it
+  private readonly publish: DiscoveryEventPublisher = (type, payload) =>
+    this.events.publish(this.runId, type, payload);
   private readonly MAX_RETRY_ATTEMPTS = 3;
-  private readonly callQueue: Array<{
-    parentId: string;
-    prompt: string;
-    priority: number;
-  }> = [];
+  private readonly watchdog: CallWatchdog;
+  private readonly budget: BudgetTracker;
+  private readonly strategy: ExplorationStrategy;
+  private readonly domain: DomainContext;
+  private readonly themes: ThemeClassifier;
+  // Set while the call API's circuit breaker is open
+  private dialingPausedUntil: Date | null = null;
+  private callQueue: QueuedCall[] = [];
+  private runId: string;
 
-  constructor(callManager: CallManager, config: Partial<DiscoveryConfig>) {
+  constructor(
+    callManager: CallManager,
+    config: Partial<DiscoveryConfig>,
+    options: OrchestratorOptions = {}
+  ) {
     this.callManager = callManager;
+    this.stateStore = options.stateStore;
+    this.runId = options.runId ?? `run_${Date.now()}`;
 
     if (!config.phoneNumber || !config.webhookUrl) {
       throw new Error("phoneNumber and webhookUrl are required in config");
@@ -64,20 +206,65 @@ export class DiscoveryOrchestrator {
       ...config,
     };
 
-    this.conversationTree = new ConversationTree(this.config.maxDepth);
-    this.responseAnalyzer = new ResponseAnalyzer();
-    this.visualizer = new ProgressVisualizer();
+    this.strategy = createExplorationStrategy(this.config.explorationStrategy);
+    this.events = options.events ?? new DiscoveryEventBus();
+    this.domain = new DomainContext(
+      options.domainPacks,
+      this.config.domainPack ?? undefined
+    );
+    this.themes = new ThemeClassifier(this.domain, {
+      backends: options.themeBackends,
+    });
+    this.conversationTree = new ConversationTree(
+      this.config.maxDepth,
+      this.publish,
+      this.themes
+    );
+    this.responseAnalyzer =
+      options.responseAnalyzer ??
+      new ResponseAnalyzer(undefined, {
+        domain: this.domain,
+        proposeUnknownDomains: true,
+        themes: this.themes,
+      });
+    this.deduplicator =
+      options.deduplicator ??
+      new SemanticDeduplicator(
+        new TfIdfEmbedder(),
+        this.config.similarityThreshold
+      );
 
     this.state = {
       isRunning: false,
+      isPaused: false,
       activeCallCount: 0,
       completedCallCount: 0,
       failedCallCount: 0,
+      timedOutCallCount: 0,
+      budgetExhausted: null,
       lastUpdateTimestamp: new Date(),
       exploredThemes: new Set(),
       activeThemes: new Set(),
       lastCallTime: 0,
     };
+
+    this.watchdog = new CallWatchdog({
+      maxCallDurationMs: this.config.maxCallDuration,
+      onTimeout: (callId, durationMs) =>
+        this.handleCallTimedOut(callId, durationMs),
+    });
+
+    this.budget = new BudgetTracker({
+      budget: this.config.budget,
+      costRates: options.costRates,
+      onWarning: (warning) => {
+        logger.warn("Discovery run is nearing its budget", {
+          runId: this.runId,
+          ...warning,
+        });
+        this.publish("BudgetWarning", warning);
+      },
+    });
   }
 
   public async startDiscovery(): Promise<void> {
@@ -87,6 +274,7 @@ export class DiscoveryOrchestrator {
 
     try {
       logger.info("Starting voice agent discovery process", {
+        runId: this.runId,
         phoneNumber: this.config.phoneNumber,
         maxDepth: this.config.maxDepth,
         maxConcurrentCalls: this.config.maxConcurrentCalls,
@@ -94,16 +282,30 @@ export class DiscoveryOrchestrator {
 
       this.state.isRunning = true;
       this.state.lastUpdateTimestamp = new Date();
+      this.publish("RunStarted", { config: this.config, resumed: false });
+      this.watchdog.start();
+      this.budget.start();
 
-      const initialSystemPrompt = this.createInitialSystemPrompt();
+      const rootIntent = this.config.seedIntents[0] ?? INITIAL_INTENT;
+      const initialSystemPrompt = this.promptBuilder.buildSystemPrompt([
+        rootIntent,
+      ]);
       const callId = await this.initiateCall(initialSystemPrompt);
 
-      this.conversationTree.initializeRoot(initialSystemPrompt, callId);
+      const root = this.conversationTree.initializeRoot(
+        initialSystemPrompt,
+        callId,
+        rootIntent
+      );
       this.state.activeCallCount++;
+      this.recordCallStarted(root.id, callId, 1);
+      await this.persistState();
 
       this.processCallQueue();
     } catch (error) {
       this.state.isRunning = false;
+      this.watchdog.stop();
+      this.budget.stop();
       logger.error("Failed to start discovery process", {
         error: error instanceof Error ? error.message : "Unknown error",
       });
@@ -111,42 +313,319 @@ export class DiscoveryOrchestrator {
     }
   }
 
-  private createInitialSystemPrompt(): string {
-    return `You are a customer making your first call to this business.
-When the agent answers:
-1. Express general interest in learning about their services
-2. Ask clear questions about their primary service offerings
-3. Show interest but avoid committing to any service yet
-Your goal is to understand what services they offer and how they handle initial inquiries.`;
+  /**
+   * Restores a previously snapshotted run and continues exploring it.
+   * Calls that were in flight when the snapshot was taken are re-dialed,
+   * since their webhooks may have been lost while the process was down.
+   */
+  public async resumeDiscovery(runId: string): Promise<void> {
+    if (this.state.isRunning) {
+      throw new Error("Discovery process is already running");
+    }
+
+    if (!this.stateStore) {
+      throw new Error("Cannot resume discovery without a state store");
+    }
+
+    const snapshot = await this.stateStore.load(runId);
+
+    this.runId = snapshot.runId;
+    if (snapshot.domainPack) {
+      this.domain.resolve(snapshot.domainPack);
+    }
+    this.conversationTree = ConversationTree.fromSnapshot(
+      snapshot.tree,
+      this.publish,
+      this.themes
+    );
+    this.callQueue = [...snapshot.callQueue];
+    this.state = {
+      ...snapshot.state,
+      isRunning: true,
+      isPaused: false,
+      activeCallCount: 0,
+      // Snapshots taken before timeouts were tracked lack the count
+      timedOutCallCount: snapshot.state.timedOutCallCount ?? 0,
+      // Re-checked against the restored usage once the queue is processed
+      budgetExhausted: null,
+      lastUpdateTimestamp: new Date(),
+      exploredThemes: new Set(snapshot.state.exploredThemes),
+      activeThemes: new Set(snapshot.state.activeThemes),
+    };
+
+    logger.info("Resuming voice agent discovery process", {
+      runId,
+      snapshotSavedAt: snapshot.savedAt,
+      nodeCount: snapshot.tree.nodes.length,
+      queueLength: this.callQueue.length,
+    });
+
+    if (snapshot.budgetUsage) {
+      this.budget.restore(snapshot.budgetUsage);
+    }
+
+    this.publish("RunStarted", { config: this.config, resumed: true });
+    this.watchdog.start();
+    this.budget.start();
+
+    try {
+      await this.rebuildDeduplicationIndex();
+      await this.reconcileInProgressCalls();
+      await this.persistState();
+    } catch (error) {
+      this.state.isRunning = false;
+      this.watchdog.stop();
+      this.budget.stop();
+      logger.error("Failed to resume discovery process", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        runId,
+      });
+      throw error;
+    }
+
+    this.processCallQueue();
+  }
+
+  private async rebuildDeduplicationIndex(): Promise<void> {
+    this.deduplicator.clear();
+
+    for (const node of this.conversationTree.getAllNodes()) {
+      if (node.intent && node.parentId) {
+        await this.deduplicator.add(
+          node.id,
+          "prompt",
+          this.promptBuilder.buildSystemPrompt([node.intent]),
+          getDedupScope(node.parentId, node.intent)
+        );
+      }
+      if (node.status === NodeStatus.COMPLETED) {
+        await this.deduplicator.add(node.id, "response", node.responseReceived);
+      }
+    }
+
+    for (const queued of this.callQueue) {
+      await this.deduplicator.add(
+        queued.nodeId,
+        "prompt",
+        this.promptBuilder.buildSystemPrompt([queued.intent]),
+        getDedupScope(queued.parentId, queued.intent)
+      );
+    }
+  }
+
+  private async reconcileInProgressCalls(): Promise<void> {
+    const inProgressNodes = this.conversationTree
+      .getAllNodes()
+      .filter((node) => node.status === NodeStatus.IN_PROGRESS);
+
+    for (const node of inProgressNodes) {
+      if (node.retryCount >= this.MAX_RETRY_ATTEMPTS) {
+        logger.warn("Abandoning interrupted call after maximum retries", {
+          nodeId: node.id,
+          callId: node.callId,
+        });
+        this.conversationTree.markNodeFailed(node.id);
+        this.state.failedCallCount++;
+        continue;
+      }
+
+      const previousCallId = node.callId;
+      node.callId = await this.initiateCall(node.systemPrompt);
+      node.retryCount++;
+      this.state.activeCallCount++;
+      this.recordCallStarted(node.id, node.callId, node.retryCount + 1);
+
+      logger.info("Re-dialed call interrupted by restart", {
+        nodeId: node.id,
+        previousCallId,
+        newCallId: node.callId,
+      });
+    }
+  }
+
+  /**
+   * Stops dialing queued calls. Calls already in flight still complete and
+   * their follow-up paths are queued for when the run is unpaused.
+   */
+  public pauseDiscovery(): void {
+    if (!this.state.isRunning) {
+      throw new Error("Discovery process is not running");
+    }
+
+    this.state.isPaused = true;
+    logger.info("Discovery process paused", {
+      runId: this.runId,
+      queueLength: this.callQueue.length,
+      activeCallCount: this.state.activeCallCount,
+    });
+    void this.persistState();
+  }
+
+  public unpauseDiscovery(): void {
+    if (!this.state.isRunning) {
+      throw new Error("Discovery process is not running");
+    }
+
+    this.state.isPaused = false;
+    logger.info("Discovery process unpaused", {
+      runId: this.runId,
+      queueLength: this.callQueue.length,
+    });
+    void this.persistState();
+  }
+
+  public ownsCall(callId: string): boolean {
+    return this.findNodeByCallId(callId) !== undefined;
+  }
+
+  public getRunIdForCall(callId: string): string | undefined {
+    return this.ownsCall(callId) ? this.runId : undefined;
+  }
+
+  public getConfig(): DiscoveryConfig {
+    return { ...this.config };
+  }
+
+  public getRunId(): string {
+    return this.runId;
+  }
+
+  public getConversationTree(): ConversationTree {
+    return this.conversationTree;
+  }
+
+  /** The pack the run is using, or null until the agent is recognized */
+  public getDomainPack(): DomainPack | null {
+    return this.domain.isResolved() ? this.domain.getPack() : null;
+  }
+
+  public getEvents(): DiscoveryEventBus {
+    return this.events;
+  }
+
+  private createSnapshot(): DiscoverySnapshot {
+    return {
+      version: 1,
+      runId: this.runId,
+      savedAt: new Date().toISOString(),
+      config: this.config,
+      state: {
+        ...this.state,
+        exploredThemes: Array.from(this.state.exploredThemes),
+        activeThemes: Array.from(this.state.activeThemes),
+        lastUpdateTimestamp: this.state.lastUpdateTimestamp.toISOString(),
+      },
+      callQueue: [...this.callQueue],
+      tree: this.conversationTree.toSnapshot(),
+      budgetUsage: this.budget.getUsage(),
+      domainPack: this.getDomainPack() ?? undefined,
+    };
+  }
+
+  private async persistState(): Promise<void> {
+    if (!this.stateStore) return;
+
+    try {
+      await this.stateStore.save(this.createSnapshot());
+    } catch (error) {
+      // A failed snapshot should not stop discovery; the next mutation retries
+      logger.error("Failed to snapshot discovery state", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        runId: this.runId,
+      });
+    }
   }
 
   public async handleCallCompleted(
     callId: string,
-    response: string
+    transcription: TranscriptionResult
   ): Promise<void> {
+    if (!this.watchdog.release(callId)) {
+      logger.warn("Ignoring completion of a call that already timed out", {
+        callId,
+        runId: this.runId,
+      });
+      return;
+    }
+
     try {
       const node = this.findNodeByCallId(callId);
       if (!node) {
         throw new Error(`No conversation node found for call ${callId}`);
       }
 
-      const analysis = await this.responseAnalyzer.analyzeResponse(response);
+      this.budget.recordRecording(getRecordingDuration(transcription));
+
+      const response = getAgentText(transcription);
+      const analysis = await this.responseAnalyzer.analyzeTranscript(
+        transcription,
+        node.intentPath
+      );
+      if (analysis.usage) {
+        this.budget.recordLlmUsage(analysis.usage);
+      }
+      // The root also branches into the run's remaining seeds
+      const intents = [
+        ...(node.parentId === null ? this.config.seedIntents.slice(1) : []),
+        ...analysis.identifiedPaths,
+      ];
+      const candidates = intents
+        .flatMap((intent) => this.withCallerPersonas(intent, node))
+        .map((intent) => ({
+          intent,
+          prompt: this.promptBuilder.buildSystemPrompt([
+            ...node.intentPath,
+            intent,
+          ]),
+        }));
+      const responseMatch = await this.findDuplicate(response, "response", {
+        excludeOwnerId: node.id,
+      });
 
       const newThemes: Set<string> =
         this.conversationTree.updateNodeWithResponse(
           node.id,
           response,
-          analysis.identifiedPaths
+          candidates.map((candidate) => candidate.prompt),
+          transcription.turns
         );
 
+      this.conversationTree
+        .recordAnalysis(node.id, analysis)
+        .forEach((theme) => newThemes.add(theme));
       this.updateStateAfterCall(newThemes);
 
-      this.updateVisualization(node.id, response, analysis);
+      await this.indexText(node.id, "response", response);
 
+      let queuedNodeIds: string[] = [];
       if (!analysis.isTerminalState) {
-        this.queueNewPaths(node.id, analysis.identifiedPaths);
+        if (responseMatch) {
+          // The agent said the same thing as on an explored node, so this
+          // branch would only repeat that node's subtree
+          candidates.forEach(({ prompt }) =>
+            this.conversationTree.recordCollapsedPath(node.id, {
+              prompt,
+              duplicateOf: responseMatch.ownerId,
+              matchedOn: "response",
+              similarity: responseMatch.similarity,
+              collapsedAt: new Date().toISOString(),
+            })
+          );
+        } else {
+          queuedNodeIds = await this.queueNewPaths(node.id, candidates);
+        }
       }
 
+      await this.persistState();
+
+      this.publish("PathsIdentified", {
+        nodeId: node.id,
+        analysis,
+        prompts: candidates.map((candidate) => candidate.prompt),
+        queuedNodeIds,
+        collapsedPaths: node.collapsedPaths ?? [],
+      });
+
       logger.info("Successfully processed completed conversation", {
         callId,
         nodeId: node.id,
@@ -161,26 +640,67 @@ Your goal is to understand what services they offer and how they handle initial
       });
       this.state.failedCallCount++;
     }
+
+    this.stopIfBudgetDrained();
   }
 
+  /**
+   * Dials a call. While the call API's circuit is open this waits for it
+   * rather than failing, so queued calls and retries are not used up.
+   */
   private async initiateCall(prompt: string): Promise<string> {
-    const now = Date.now();
-    const timeSinceLastCall = now - this.state.lastCallTime;
+    for (;;) {
+      await this.waitForDialing();
+
+      const now = Date.now();
+      const timeSinceLastCall = now - this.state.lastCallTime;
+
+      if (timeSinceLastCall < this.config.minTimeBetweenCalls) {
+        await new Promise((resolve) =>
+          setTimeout(
+            resolve,
+            this.config.minTimeBetweenCalls - timeSinceLastCall
+          )
+        );
+      }
+
+      try {
+        const callId = await this.callManager.startCall(
+          this.config.phoneNumber,
+          prompt,
+          this.config.webhookUrl
+        );
+
+        this.state.lastCallTime = Date.now();
+        return callId;
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) {
+          throw error;
+        }
+
+        this.dialingPausedUntil = error.retryAt;
+        logger.warn("Call API circuit is open, pausing dialing", {
+          runId: this.runId,
+          retryAt: error.retryAt.toISOString(),
+        });
+      }
+    }
+  }
 
-    if (timeSinceLastCall < this.config.minTimeBetweenCalls) {
+  private async waitForDialing(): Promise<void> {
+    while (
+      this.dialingPausedUntil &&
+      Date.now() < this.dialingPausedUntil.getTime()
+    ) {
+      if (!this.state.isRunning) {
+        throw new Error("Discovery stopped while dialing was paused");
+      }
+      const remaining = this.dialingPausedUntil.getTime() - Date.now();
       await new Promise((resolve) =>
-        setTimeout(resolve, this.config.minTimeBetweenCalls - timeSinceLastCall)
+        setTimeout(resolve, Math.min(remaining, 1000))
       );
     }
-
-    const callId = await this.callManager.startCall(
-      this.config.phoneNumber,
-      prompt,
-      this.config.webhookUrl
-    );
-
-    this.state.lastCallTime = Date.now();
-    return callId;
+    this.dialingPausedUntil = null;
   }
 
   private updateStateAfterCall(newThemes: Set<string>): void {
@@ -193,83 +713,144 @@ Your goal is to understand what services they offer and how they handle initial
     newThemes.forEach((theme) => this.state.activeThemes.delete(theme));
   }
 
-  private updateVisualization(
-    nodeId: string,
-    response: string,
-    analysis: any
-  ): void {
-    this.visualizer.visualizeTree(this.conversationTree);
-    this.visualizer.visualizeProgress(this.state);
-    this.visualizer.logConversationEvent(nodeId, "Conversation Completed", {
-      responsePreview: response.substring(0, 100),
-      newPathsIdentified: analysis.identifiedPaths.length,
-      exploredThemes: Array.from(this.state.exploredThemes),
-      activeThemes: Array.from(this.state.activeThemes),
-    });
-  }
-
-  private queueNewPaths(parentId: string, paths: string[]): void {
-    paths.forEach((prompt, index) => {
-      const priority = this.calculatePathPriority(prompt);
-      this.callQueue.push({ parentId, prompt, priority });
-    });
+  /**
+   * The variants of a discovered intent to explore under `parent`: the
+   * intent in the parent's persona, or on a branch without one the intent
+   * as generated plus once per configured persona.
+   */
+  private withCallerPersonas(
+    intent: CallerIntent,
+    parent: CallNode
+  ): CallerIntent[] {
+    const persona = parent.intent?.callerPersona;
+    if (persona) {
+      return [applyPersona(intent, persona)];
+    }
 
-    this.callQueue.sort((a, b) => b.priority - a.priority);
+    return [
+      intent,
+      ...this.config.callerPersonas.map((callerPersona) =>
+        applyPersona(intent, callerPersona)
+      ),
+    ];
   }
 
-  private calculatePathPriority(prompt: string): number {
-    let priority = 0;
+  private async queueNewPaths(
+    parentId: string,
+    candidates: Array<{ intent: CallerIntent; prompt: string }>
+  ): Promise<string[]> {
+    const queuedNodeIds: string[] = [];
 
-    const promptThemes = this.extractThemes(prompt);
-    const newThemes = Array.from(promptThemes).filter(
-      (theme) => !this.state.exploredThemes.has(theme)
-    );
-    priority += newThemes.length * 2;
+    for (const { intent, prompt } of candidates) {
+      // Siblings share their ancestors' replayed steps, so only the new
+      // intent is compared, and only against other children of this parent
+      const intentText = this.promptBuilder.buildSystemPrompt([intent]);
+      const scope = getDedupScope(parentId, intent);
+      const match = await this.findDuplicate(intentText, "prompt", { scope });
+      if (match) {
+        this.conversationTree.recordCollapsedPath(parentId, {
+          prompt,
+          duplicateOf: match.ownerId,
+          matchedOn: "prompt",
+          similarity: match.similarity,
+          collapsedAt: new Date().toISOString(),
+        });
+        continue;
+      }
+
+      // Queued prompts are indexed under the id their node will get, so
+      // later candidates can collapse into calls that have not started yet
+      const nodeId = ConversationTree.createNodeId();
+      await this.indexText(nodeId, "prompt", intentText, scope);
 
-    if (prompt.toLowerCase().includes("emergency")) {
-      priority += 3;
+      this.callQueue.push({
+        nodeId,
+        parentId,
+        prompt,
+        intent,
+        dialFailures: 0,
+      });
+      queuedNodeIds.push(nodeId);
+      this.publish("CallQueued", { nodeId, parentId, prompt });
     }
 
-    const activeThemeOverlap = Array.from(promptThemes).filter((theme) =>
-      this.state.activeThemes.has(theme)
-    );
-    priority -= activeThemeOverlap.length;
+    return queuedNodeIds;
+  }
 
-    return priority;
+  /**
+   * Dedup is an optimization, so embedding failures are logged and the
+   * candidate is treated as new rather than failing the call.
+   */
+  private async findDuplicate(
+    text: string,
+    kind: IndexedTextKind,
+    query: DuplicateQuery = {}
+  ) {
+    try {
+      return await this.deduplicator.findDuplicate(text, kind, query);
+    } catch (error) {
+      logger.warn("Semantic deduplication failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        kind,
+      });
+      return null;
+    }
+  }
+
+  private async indexText(
+    ownerId: string,
+    kind: IndexedTextKind,
+    text: string,
+    scope?: string
+  ): Promise<void> {
+    try {
+      await this.deduplicator.add(ownerId, kind, text, scope);
+    } catch (error) {
+      logger.warn("Failed to index text for deduplication", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        ownerId,
+        kind,
+      });
+    }
   }
 
   private async processCallQueue(): Promise<void> {
-    if (!this.state.isRunning) return;
+    if (!this.state.isRunning || !this.isWithinBudget()) return;
 
     try {
       while (
+        !this.state.isPaused &&
         this.state.activeCallCount < this.config.maxConcurrentCalls &&
-        this.callQueue.length > 0
+        this.callQueue.length > 0 &&
+        this.isWithinBudget()
       ) {
-        const nextCall = this.callQueue.shift();
+        const nextCall = this.takeNextCall();
         if (!nextCall) break;
 
         try {
           const callId = await this.initiateCall(nextCall.prompt);
-          const newNode = this.conversationTree.addNode(
+          this.conversationTree.addNode(
             nextCall.parentId,
             nextCall.prompt,
-            callId
+            callId,
+            { nodeId: nextCall.nodeId, intent: nextCall.intent }
           );
 
           this.state.activeCallCount++;
           this.updateActiveThemes(nextCall.prompt);
+          this.recordCallStarted(nextCall.nodeId, callId, 1);
+          await this.persistState();
         } catch (error) {
           logger.error("Failed to initiate queued call", {
             error: error instanceof Error ? error.message : "Unknown error",
             prompt: nextCall.prompt.substring(0, 50),
           });
 
-          if (this.shouldRetryCall(nextCall)) {
-            this.callQueue.push({
-              ...nextCall,
-              priority: nextCall.priority - 1,
-            });
+          const dialFailures = nextCall.dialFailures + 1;
+          if (dialFailures < MAX_DIAL_ATTEMPTS) {
+            this.callQueue.push({ ...nextCall, dialFailures });
+          } else {
+            this.deduplicator.remove(nextCall.nodeId);
           }
         }
       }
@@ -282,8 +863,40 @@ Your goal is to understand what services they offer and how they handle initial
     }
   }
 
-  private shouldRetryCall(call: { prompt: string; priority: number }): boolean {
-    return call.priority > -2; // Allow up to 3 retries with decreasing priority
+  /**
+   * Removes and returns the call the exploration strategy picks. Calls whose
+   * parent can no longer take children for their caller persona are dropped,
+   * since they could not be added to the tree once dialed.
+   */
+  private takeNextCall(): QueuedCall | undefined {
+    const expandableNodes = this.conversationTree.getNodesWithUnexploredPaths(
+      this.config.callerPersonas.map((callerPersona) => callerPersona.id)
+    );
+
+    this.callQueue = this.callQueue.filter((call) => {
+      const personaId = call.intent.callerPersona?.id;
+      if (this.conversationTree.canTakeChild(call.parentId, personaId)) {
+        return true;
+      }
+
+      logger.warn("Dropping queued call whose parent cannot take more paths", {
+        nodeId: call.nodeId,
+        parentId: call.parentId,
+        personaId,
+        promptPreview: call.prompt.substring(0, 50),
+      });
+      this.deduplicator.remove(call.nodeId);
+      return false;
+    });
+
+    const nextCall = this.strategy.selectNext(this.callQueue, {
+      tree: this.conversationTree,
+      expandableNodes,
+    });
+    if (nextCall) {
+      this.callQueue = this.callQueue.filter((call) => call !== nextCall);
+    }
+    return nextCall;
   }
 
   private updateActiveThemes(prompt: string): void {
@@ -292,23 +905,7 @@ Your goal is to understand what services they offer and how they handle initial
   }
 
   private extractThemes(text: string): Set<string> {
-    const themes = new Set<string>();
-    const normalized = text.toLowerCase();
-
-    if (normalized.includes("emergency")) themes.add("emergency");
-    if (normalized.includes("maintenance")) themes.add("maintenance");
-    if (normalized.includes("repair")) themes.add("repair");
-    if (normalized.includes("installation")) themes.add("installation");
-    if (normalized.includes("quote")) themes.add("quote");
-
-    if (normalized.includes("name") || normalized.includes("address")) {
-      themes.add("personal_info");
-    }
-    if (normalized.includes("schedule") || normalized.includes("appointment")) {
-      themes.add("scheduling");
-    }
-
-    return themes;
+    return this.themes.extractThemes(text);
   }
 
   private findNodeByCallId(callId: string) {
@@ -318,16 +915,63 @@ Your goal is to understand what services they offer and how they handle initial
   }
 
   public async handleCallFailed(callId: string): Promise<void> {
-    try {
-      const node = this.findNodeByCallId(callId);
-      if (node) {
-        const retryCount = node.retryCount || 0;
-        if (retryCount < this.MAX_RETRY_ATTEMPTS) {
-          logger.info("Retrying failed conversation", {
-            callId,
-            retryAttempt: retryCount + 1,
-          });
+    if (!this.watchdog.release(callId)) {
+      logger.warn("Ignoring failure of a call that already timed out", {
+        callId,
+        runId: this.runId,
+      });
+      return;
+    }
+
+    await this.retryOrFailCall(callId);
+  }
+
+  /**
+   * Frees the slot of a call that never reported an outcome and sends it
+   * down the same retry path as a failed call.
+   */
+  private async handleCallTimedOut(
+    callId: string,
+    durationMs: number
+  ): Promise<void> {
+    const node = this.findNodeByCallId(callId);
+    if (!node) return;
+
+    logger.warn("Call timed out without a terminal webhook", {
+      callId,
+      nodeId: node.id,
+      durationMs,
+      maxCallDuration: this.config.maxCallDuration,
+    });
+
+    this.state.timedOutCallCount++;
+    this.publish("CallTimedOut", { nodeId: node.id, callId, durationMs });
+    await this.retryOrFailCall(callId);
+  }
+
+  private recordCallStarted(
+    nodeId: string,
+    callId: string,
+    attempt: number
+  ): void {
+    this.watchdog.track(callId);
+    this.budget.recordCall();
+    this.publish("CallStarted", { nodeId, callId, attempt });
+  }
+
+  private async retryOrFailCall(callId: string): Promise<void> {
+    const node = this.findNodeByCallId(callId);
+    let retried = false;
 
+    if (node) {
+      const retryCount = node.retryCount || 0;
+      if (retryCount < this.MAX_RETRY_ATTEMPTS && this.isWithinBudget()) {
+        logger.info("Retrying failed conversation", {
+          callId,
+          retryAttempt: retryCount + 1,
+        });
+
+        try {
           await new Promise((resolve) =>
             setTimeout(resolve, this.config.retryDelayMs * (retryCount + 1))
           );
@@ -335,37 +979,123 @@ Your goal is to understand what services they offer and how they handle initial
           const newCallId = await this.initiateCall(node.systemPrompt);
           node.callId = newCallId;
           node.retryCount = retryCount + 1;
-        } else {
-          logger.warn("Maximum retry attempts reached", {
+          this.recordCallStarted(node.id, newCallId, node.retryCount + 1);
+          retried = true;
+        } catch (error) {
+          logger.error("Failed to retry conversation", {
+            error: error instanceof Error ? error.message : "Unknown error",
             callId,
-            maxAttempts: this.MAX_RETRY_ATTEMPTS,
+            nodeId: node.id,
           });
-          this.state.failedCallCount++;
         }
+      } else {
+        logger.warn("Giving up on failed conversation", {
+          callId,
+          retryCount,
+          maxAttempts: this.MAX_RETRY_ATTEMPTS,
+          budgetExhausted: this.state.budgetExhausted,
+        });
       }
+    }
 
+    // A retry takes over the slot of the call it replaces; otherwise the
+    // slot is freed, even when the re-dial itself failed
+    if (!retried) {
+      if (node) {
+        this.conversationTree.markNodeFailed(node.id);
+        this.state.failedCallCount++;
+      }
       this.state.activeCallCount--;
-      this.state.lastUpdateTimestamp = new Date();
-    } catch (error) {
-      logger.error("Error handling failed call", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        callId,
-      });
+    }
+    this.state.lastUpdateTimestamp = new Date();
+    await this.persistState();
+
+    this.stopIfBudgetDrained();
+  }
+
+  /**
+   * Checks the budget before dialing. Once it runs out no new calls are
+   * placed, and the run stops as soon as its active calls have finished.
+   */
+  private isWithinBudget(): boolean {
+    if (this.state.budgetExhausted) return false;
+
+    const exhausted = this.budget.check();
+    if (!exhausted) return true;
+
+    this.state.budgetExhausted = exhausted;
+    const report = this.budget.getReport();
+    logger.warn("Discovery run exhausted its budget", {
+      runId: this.runId,
+      metric: exhausted,
+      activeCallCount: this.state.activeCallCount,
+      usage: report.usage,
+      limits: report.limits,
+    });
+    this.publish("BudgetExhausted", {
+      metric: exhausted,
+      used: report.usage[exhausted],
+      limit: this.budget.getLimit(exhausted)!,
+      activeCallCount: this.state.activeCallCount,
+    });
+
+    this.stopIfBudgetDrained();
+    return false;
+  }
+
+  private stopIfBudgetDrained(): void {
+    if (
+      this.state.isRunning &&
+      this.state.budgetExhausted &&
+      this.state.activeCallCount === 0
+    ) {
+      this.stopDiscovery();
     }
   }
 
   public getDiscoveryState() {
     return {
       ...this.state,
+      runId: this.runId,
       treeSummary: this.conversationTree.getTreeSummary(),
       queueLength: this.callQueue.length,
+      dialingPausedUntil: this.dialingPausedUntil?.toISOString() ?? null,
+      domain: this.getDomainPack()?.id ?? null,
+      budget: this.budget.getReport(),
       exploredThemes: Array.from(this.state.exploredThemes),
       activeThemes: Array.from(this.state.activeThemes),
     };
   }
 
   public stopDiscovery(): void {
+    const wasRunning = this.state.isRunning;
     this.state.isRunning = false;
+    this.watchdog.stop();
+    this.budget.stop();
     logger.info("Discovery process stopped", this.getDiscoveryState());
+    if (wasRunning) {
+      const stopReason: RunStopReason = this.state.budgetExhausted
+        ? "budget-exhausted"
+        : "stopped";
+      this.publish("RunFinished", {
+        completedCallCount: this.state.completedCallCount,
+        failedCallCount: this.state.failedCallCount,
+        timedOutCallCount: this.state.timedOutCallCount,
+        totalPaths: this.conversationTree.getAllNodes().length,
+        stopReason,
+        estimatedCostUsd: this.budget.getReport().estimatedCostUsd.total,
+      });
+    }
+    void this.persistState();
   }
 }
+
+/**
+ * Siblings are only deduplicated against siblings played as the same
+ * persona, since persona variants of one intent share most of their text.
+ */
+function getDedupScope(parentId: string, intent: CallerIntent): string {
+  return intent.callerPersona
+    ? `${parentId}:${intent.callerPersona.id}`
+    : parentId;
+}
@@ -0,0 +1,214 @@
+import { CallNode, ConversationTree } from "../discovery/conversationTree.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+
+export const EXPLORATION_STRATEGIES = [
+  "bfs",
+  "dfs",
+  "best-first",
+  "coverage",
+] as const;
+
+export type ExplorationStrategyName = (typeof EXPLORATION_STRATEGIES)[number];
+
+export interface QueuedCall {
+  nodeId: string;
+  parentId: string;
+  prompt: string;
+  intent: CallerIntent;
+  /** How many times dialing the call has failed */
+  dialFailures: number;
+}
+
+export interface ExplorationContext {
+  tree: ConversationTree;
+  /**
+   * Completed nodes that can still take children, from
+   * ConversationTree.getNodesWithUnexploredPaths. Every queued call's parent
+   * is one of them.
+   */
+  expandableNodes: CallNode[];
+}
+
+/**
+ * Decides which queued call is dialed next. The queue is in the order calls
+ * were queued.
+ */
+export interface ExplorationStrategy {
+  readonly name: ExplorationStrategyName;
+  selectNext(
+    queue: readonly QueuedCall[],
+    context: ExplorationContext
+  ): QueuedCall | undefined;
+}
+
+/**
+ * Explores the tree level by level, in the order paths were found.
+ */
+export class BreadthFirstStrategy implements ExplorationStrategy {
+  public readonly name = "bfs";
+
+  public selectNext(
+    queue: readonly QueuedCall[],
+    context: ExplorationContext
+  ): QueuedCall | undefined {
+    return pickBest(queue, (call) => -getDepth(call, context));
+  }
+}
+
+/**
+ * Follows the most recently found path as deep as it goes before
+ * backtracking.
+ */
+export class DepthFirstStrategy implements ExplorationStrategy {
+  public readonly name = "dfs";
+
+  public selectNext(
+    queue: readonly QueuedCall[],
+    context: ExplorationContext
+  ): QueuedCall | undefined {
+    return pickBest(queue, (call) => getDepth(call, context), {
+      preferLatest: true,
+    });
+  }
+}
+
+/**
+ * Dials the path that looks most promising: one found on a response the
+ * analyzer was confident about, whose intent covers ground no call has yet.
+ */
+export class BestFirstStrategy implements ExplorationStrategy {
+  public readonly name = "best-first";
+
+  public selectNext(
+    queue: readonly QueuedCall[],
+    context: ExplorationContext
+  ): QueuedCall | undefined {
+    const exploredTerms = getExploredTerms(context.tree);
+
+    return pickBest(queue, (call) => {
+      const confidence =
+        context.tree.getNode(call.parentId)?.analysis?.confidence ?? 0.5;
+      return confidence + getNovelty(call.intent, exploredTerms);
+    });
+  }
+}
+
+/**
+ * Spreads calls across the tree: paths under the nodes with the fewest
+ * explored children go first, and among those the most novel intent.
+ */
+export class CoverageStrategy implements ExplorationStrategy {
+  public readonly name = "coverage";
+
+  public selectNext(
+    queue: readonly QueuedCall[],
+    context: ExplorationContext
+  ): QueuedCall | undefined {
+    const exploredTerms = getExploredTerms(context.tree);
+    const parentRanks = new Map(
+      context.expandableNodes.map((node, index) => [node.id, index])
+    );
+
+    return pickBest(queue, (call) => {
+      const rank = parentRanks.get(call.parentId) ?? parentRanks.size;
+      // Novelty is at most 1, so it only breaks ties between parents
+      return (
+        (parentRanks.size - rank) * 2 + getNovelty(call.intent, exploredTerms)
+      );
+    });
+  }
+}
+
+export function createExplorationStrategy(
+  name: ExplorationStrategyName
+): ExplorationStrategy {
+  switch (name) {
+    case "bfs":
+      return new BreadthFirstStrategy();
+    case "dfs":
+      return new DepthFirstStrategy();
+    case "best-first":
+      return new BestFirstStrategy();
+    case "coverage":
+      return new CoverageStrategy();
+    default:
+      throw new Error(`Unknown exploration strategy: ${name}`);
+  }
+}
+
+/**
+ * Returns the call with the highest score. Ties go to the earliest queued
+ * call unless `preferLatest` is set.
+ */
+function pickBest(
+  queue: readonly QueuedCall[],
+  score: (call: QueuedCall) => number,
+  options: { preferLatest?: boolean } = {}
+): QueuedCall | undefined {
+  let best: { call: QueuedCall; score: number } | undefined;
+
+  for (const call of queue) {
+    const callScore = score(call);
+    const isBetter =
+      !best ||
+      callScore > best.score ||
+      (callScore === best.score && options.preferLatest);
+    if (isBetter) {
+      best = { call, score: callScore };
+    }
+  }
+
+  return best?.call;
+}
+
+function getDepth(call: QueuedCall, context: ExplorationContext): number {
+  return (context.tree.getNode(call.parentId)?.depth ?? 0) + 1;
+}
+
+function getTerms(intent: CallerIntent): Set<string> {
+  const { callerPersona } = intent;
+  const text = [
+    intent.persona,
+    intent.goal,
+    ...intent.steps,
+    // A persona variant of a dialed intent is still novel for its persona
+    ...(callerPersona
+      ? [
+          callerPersona.id,
+          callerPersona.description,
+          ...callerPersona.behaviors,
+        ]
+      : []),
+  ].join(" ");
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((term) => term.length > 3)
+  );
+}
+
+/**
+ * Terms from the intents of every node that has been dialed.
+ */
+function getExploredTerms(tree: ConversationTree): Set<string> {
+  const terms = new Set<string>();
+  tree.getAllNodes().forEach((node) => {
+    if (node.intent) {
+      getTerms(node.intent).forEach((term) => terms.add(term));
+    }
+  });
+  return terms;
+}
+
+/**
+ * Fraction of the intent's terms that no dialed intent has used.
+ */
+function getNovelty(intent: CallerIntent, exploredTerms: Set<string>): number {
+  const terms = Array.from(getTerms(intent));
+  if (terms.length === 0) return 0;
+
+  return (
+    terms.filter((term) => !exploredTerms.has(term)).length / terms.length
+  );
+}
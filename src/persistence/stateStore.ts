@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger.js";
+
+/**
+ * Stores discovery run snapshots as JSON files, one file per run.
+ * Writes go to a temporary file first and are renamed into place so a crash
+ * mid-write never leaves a truncated snapshot behind.
+ */
+export class StateStore<T extends { runId: string }> {
+  private readonly directory: string;
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string = "data/runs") {
+    this.directory = directory;
+  }
+
+  public async save(snapshot: T): Promise<void> {
+    // Chain writes per run so snapshots land in the order they were taken
+    const previous = this.pendingWrites.get(snapshot.runId) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeSnapshot(snapshot));
+
+    this.pendingWrites.set(snapshot.runId, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(snapshot.runId) === write) {
+        this.pendingWrites.delete(snapshot.runId);
+      }
+    }
+  }
+
+  public async load(runId: string): Promise<T> {
+    const filePath = this.getSnapshotPath(runId);
+
+    try {
+      const contents = await fs.readFile(filePath, "utf-8");
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      logger.error("Failed to load run snapshot", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        runId,
+        filePath,
+      });
+      throw new Error(
+        `Failed to load snapshot for run ${runId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  public async exists(runId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getSnapshotPath(runId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async listRuns(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter((entry) => entry.endsWith(".json"))
+        .map((entry) => entry.slice(0, -".json".length));
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeSnapshot(snapshot: T): Promise<void> {
+    const filePath = this.getSnapshotPath(snapshot.runId);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), "utf-8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      logger.error("Failed to persist run snapshot", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        runId: snapshot.runId,
+        filePath,
+      });
+      throw error;
+    }
+  }
+
+  private getSnapshotPath(runId: string): string {
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(`Invalid run id: ${runId}`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+}
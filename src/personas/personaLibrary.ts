@@ -0,0 +1,171 @@
+import {
+  ConfigValidationError,
+  FieldSchema,
+  readConfigFile,
+  validateSchema,
+} from "../config/schema.js";
+import { CallerIntent, CallerPersona } from "../prompts/promptBuilder.js";
+
+export interface PersonaFile {
+  personas: CallerPersona[];
+}
+
+export class UnknownPersonaError extends Error {
+  constructor(personaId: string) {
+    super(`Unknown persona: ${personaId}`);
+    this.name = "UnknownPersonaError";
+  }
+}
+
+const PERSONA_FILE_SCHEMA: FieldSchema = {
+  type: "object",
+  required: true,
+  fields: {
+    personas: {
+      type: "array",
+      required: true,
+      minItems: 1,
+      items: {
+        type: "object",
+        fields: {
+          id: { type: "string", required: true },
+          description: { type: "string", required: true },
+          behaviors: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            required: true,
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Callers agents most often mishandle. Persona files can override these by
+ * reusing an id.
+ */
+export const BUILT_IN_PERSONAS: CallerPersona[] = [
+  {
+    id: "angry",
+    description: "an angry customer who has already been let down once",
+    behaviors: [
+      "Sound frustrated and short-tempered from the start",
+      "Complain about a previous bad experience before getting to the point",
+      "Ask to speak to a manager if the agent is unhelpful",
+    ],
+  },
+  {
+    id: "elderly",
+    description: "an elderly caller who speaks slowly and is not tech-savvy",
+    behaviors: [
+      "Speak slowly and pause mid-sentence",
+      "Ask the agent to repeat or explain anything technical",
+      "Mention you do not use email or the website",
+    ],
+  },
+  {
+    id: "non-native",
+    description: "a caller whose first language is not English",
+    behaviors: [
+      "Use simple sentences with occasional grammar mistakes",
+      "Sometimes use the wrong word and then correct yourself",
+      "Ask the agent to speak more slowly when they talk fast",
+    ],
+  },
+  {
+    id: "interrupter",
+    description: "an impatient caller in a hurry",
+    behaviors: [
+      "Cut the agent off before they finish long answers",
+      "Ask for the short version and push to get to the point",
+      "Answer questions before the agent has finished asking them",
+    ],
+  },
+  {
+    id: "confused",
+    description: "a confused caller who is unsure what they need",
+    behaviors: [
+      "Describe the problem vaguely and get details wrong",
+      "Mix up terms and ask what the agent's questions mean",
+      "Lose track and ask the agent to go back over earlier points",
+    ],
+  },
+  {
+    id: "mind-changer",
+    description: "an indecisive caller who changes their mind",
+    behaviors: [
+      "Commit to one option, then change your mind partway through",
+      "Change a detail you already gave, such as the date or time",
+      "Ask whether you can undo what you just agreed to",
+    ],
+  },
+  {
+    id: "prank",
+    description: "a prank caller who keeps going off topic",
+    behaviors: [
+      "Ask questions that have nothing to do with the business",
+      "Make joke requests the business cannot fulfil",
+      "Drift back to your stated goal only now and then",
+    ],
+  },
+];
+
+/**
+ * The personas a run can play callers as: the built-in ones plus any loaded
+ * from persona files.
+ */
+export class PersonaLibrary {
+  private readonly personas: Map<string, CallerPersona>;
+
+  constructor(personas: CallerPersona[] = BUILT_IN_PERSONAS) {
+    this.personas = new Map(personas.map((persona) => [persona.id, persona]));
+  }
+
+  /**
+   * Loads the built-in personas, then each YAML or JSON persona file in
+   * order, so later files override earlier definitions with the same id.
+   */
+  public static async fromFiles(filePaths: string[]): Promise<PersonaLibrary> {
+    const personas = [...BUILT_IN_PERSONAS];
+
+    for (const filePath of filePaths) {
+      const source = `persona file ${filePath}`;
+      const parsed = await readConfigFile(filePath, source);
+      const issues = validateSchema(parsed, PERSONA_FILE_SCHEMA);
+      if (issues.length > 0) {
+        throw new ConfigValidationError(source, issues);
+      }
+      personas.push(...(parsed as PersonaFile).personas);
+    }
+
+    return new PersonaLibrary(personas);
+  }
+
+  public has(id: string): boolean {
+    return this.personas.has(id);
+  }
+
+  public get(id: string): CallerPersona {
+    const persona = this.personas.get(id);
+    if (!persona) {
+      throw new UnknownPersonaError(id);
+    }
+    return persona;
+  }
+
+  public list(): CallerPersona[] {
+    return Array.from(this.personas.values());
+  }
+}
+
+/**
+ * Plays an intent as a persona. The intent's goal and steps are unchanged.
+ */
+export function applyPersona(
+  intent: CallerIntent,
+  persona: CallerPersona
+): CallerIntent {
+  return { ...intent, callerPersona: persona };
+}
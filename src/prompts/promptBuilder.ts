@@ -0,0 +1,111 @@
+/**
+ * A way of acting on the phone that can be layered onto any intent, e.g. an
+ * angry or confused caller. See PersonaLibrary for the built-in ones.
+ */
+export interface CallerPersona {
+  id: string;
+  /** Who the caller plays, e.g. "an elderly caller who speaks slowly" */
+  description: string;
+  /** How they act throughout the call */
+  behaviors: string[];
+}
+
+/**
+ * One branch of the conversation from the caller's side: who the caller is,
+ * what they want, and the steps they take on top of everything that happened
+ * earlier on the path.
+ */
+export interface CallerIntent {
+  persona: string;
+  goal: string;
+  steps: string[];
+  expectedAgentBehavior?: string;
+  /** Played on top of `persona`; applies to the whole call it ends */
+  callerPersona?: CallerPersona;
+}
+
+/**
+ * Composes caller system prompts for multi-turn paths. Every call starts a
+ * fresh conversation with the agent, so a node deep in the tree only reaches
+ * the same point in the agent's flow if the caller replays the steps of its
+ * ancestors before trying its own.
+ */
+export class PromptBuilder {
+  public buildSystemPrompt(intentPath: CallerIntent[]): string {
+    if (intentPath.length === 0) {
+      throw new Error("Cannot build a prompt for an empty intent path");
+    }
+
+    const current = intentPath[intentPath.length - 1];
+    const earlierSteps = intentPath
+      .slice(0, -1)
+      .flatMap((intent) => intent.steps);
+
+    if (earlierSteps.length === 0) {
+      return this.buildSingleIntentPrompt(current);
+    }
+
+    const newSteps = current.steps.map(
+      (step, index) => `${earlierSteps.length + index + 1}. ${step}`
+    );
+    const lines = [
+      `You are ${current.persona}.`,
+      ...this.describeCallerPersona(current),
+      "Follow this conversation plan in order, waiting for the agent to respond before each step.",
+      "First replay what earlier callers did so the agent reaches the same point:",
+      ...earlierSteps.map((step, index) => `${index + 1}. ${step}`),
+      "Then continue with:",
+      ...newSteps,
+      "Do not skip ahead, and only give details when the agent asks for them.",
+      `Your goal is to ${current.goal}.`,
+    ];
+
+    if (current.expectedAgentBehavior) {
+      lines.push(`Expected agent behavior: ${current.expectedAgentBehavior}.`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * One-line summary of a path, e.g. for logs and reports.
+   */
+  public describePath(intentPath: CallerIntent[]): string {
+    return intentPath
+      .flatMap((intent) => intent.steps)
+      .map((step, index) => {
+        const trimmed = step.replace(/\.$/, "");
+        // Lowercase continuation steps unless they start with an acronym
+        return index > 0 && /^[A-Z][a-z]/.test(trimmed)
+          ? trimmed.charAt(0).toLowerCase() + trimmed.slice(1)
+          : trimmed;
+      })
+      .join(", then ");
+  }
+
+  private buildSingleIntentPrompt(intent: CallerIntent): string {
+    const lines = [
+      `You are ${intent.persona}.`,
+      ...this.describeCallerPersona(intent),
+      "When the agent answers:",
+      ...intent.steps.map((step, index) => `${index + 1}. ${step}`),
+      `Your goal is to ${intent.goal}.`,
+    ];
+
+    if (intent.expectedAgentBehavior) {
+      lines.push(`Expected agent behavior: ${intent.expectedAgentBehavior}.`);
+    }
+
+    return lines.join("\n");
+  }
+
+  private describeCallerPersona(intent: CallerIntent): string[] {
+    const persona = intent.callerPersona;
+    if (!persona) return [];
+
+    return [
+      `Play the caller as ${persona.description}. Throughout the call:`,
+      ...persona.behaviors.map((behavior) => `- ${behavior}`),
+    ];
+  }
+}
@@ -0,0 +1,283 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { CallManager } from "../call-manager/client.js";
+import { CallEventHandler } from "../webhook/index.js";
+import {
+  TranscriptionResult,
+  getAgentText,
+} from "../transcription/transcriber.js";
+import {
+  Embedder,
+  TfIdfEmbedder,
+  cosineSimilarity,
+} from "../discovery/embeddings.js";
+import { containsKeyword } from "../domains/domainPack.js";
+import logger from "../utils/logger.js";
+import {
+  AgentExpectation,
+  RegressionCase,
+  RegressionSuite,
+} from "./regressionSuite.js";
+
+export type CaseStatus = "passed" | "failed" | "error";
+
+export interface ExpectationResult {
+  expectation: AgentExpectation;
+  passed: boolean;
+  detail: string;
+}
+
+export interface CaseResult {
+  caseId: string;
+  name: string;
+  status: CaseStatus;
+  callId: string | null;
+  /** What the agent said on the replayed call */
+  transcript: string;
+  results: ExpectationResult[];
+  /** Why the call could not be graded, for `error` cases */
+  error?: string;
+}
+
+export interface ReplayReport {
+  suite: string;
+  phoneNumber: string;
+  startedAt: string;
+  finishedAt: string;
+  passed: number;
+  failed: number;
+  errored: number;
+  cases: CaseResult[];
+}
+
+export interface RegressionRunnerOptions {
+  /** Where the call API reports replayed calls */
+  webhookUrl: string;
+  /** Dials this number instead of the suite's */
+  phoneNumber?: string;
+  /** How long to wait for a call's outcome before giving up on it */
+  callTimeoutMs?: number;
+  embedder?: Embedder;
+}
+
+type CallOutcome =
+  | { status: "completed"; transcription: TranscriptionResult }
+  | { status: "failed"; error: string };
+
+const DEFAULT_CALL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Replays a regression suite against the agent, one call per case, and
+ * grades each new transcript against the case's expectations. Receives call
+ * outcomes from WebhookHandler like an orchestrator does.
+ */
+export class RegressionRunner implements CallEventHandler {
+  private readonly callManager: CallManager;
+  private readonly webhookUrl: string;
+  private readonly phoneNumber?: string;
+  private readonly callTimeoutMs: number;
+  private readonly embedder: Embedder;
+  // Call id -> resolves the case waiting for that call
+  private readonly pendingCalls: Map<string, (outcome: CallOutcome) => void> =
+    new Map();
+
+  constructor(callManager: CallManager, options: RegressionRunnerOptions) {
+    this.callManager = callManager;
+    this.webhookUrl = options.webhookUrl;
+    this.phoneNumber = options.phoneNumber;
+    this.callTimeoutMs = options.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+    this.embedder = options.embedder ?? new TfIdfEmbedder();
+  }
+
+  /**
+   * Runs the cases one after another and resolves with every result.
+   * Failing cases do not stop the suite.
+   */
+  public async run(suite: RegressionSuite): Promise<ReplayReport> {
+    const phoneNumber = this.phoneNumber ?? suite.phoneNumber;
+    const startedAt = new Date().toISOString();
+    logger.info("Replaying regression suite", {
+      suite: suite.name,
+      phoneNumber,
+      cases: suite.cases.length,
+    });
+
+    const cases: CaseResult[] = [];
+    for (const testCase of suite.cases) {
+      cases.push(await this.runCase(testCase, suite, phoneNumber));
+    }
+
+    const count = (status: CaseStatus) =>
+      cases.filter((result) => result.status === status).length;
+    const report: ReplayReport = {
+      suite: suite.name,
+      phoneNumber,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      passed: count("passed"),
+      failed: count("failed"),
+      errored: count("error"),
+      cases,
+    };
+
+    logger.info("Finished replaying regression suite", {
+      suite: suite.name,
+      passed: report.passed,
+      failed: report.failed,
+      errored: report.errored,
+    });
+    return report;
+  }
+
+  public async handleCallCompleted(
+    callId: string,
+    transcription: TranscriptionResult
+  ): Promise<void> {
+    this.settle(callId, { status: "completed", transcription });
+  }
+
+  public async handleCallFailed(callId: string): Promise<void> {
+    this.settle(callId, { status: "failed", error: "Call failed" });
+  }
+
+  /**
+   * Grades an agent transcript against a case's expectations.
+   */
+  public async grade(
+    testCase: RegressionCase,
+    transcript: string,
+    similarityThreshold: number
+  ): Promise<ExpectationResult[]> {
+    const results: ExpectationResult[] = [];
+
+    for (const expectation of testCase.expectations) {
+      if (expectation.type === "similar_to") {
+        const similarity = await this.getSimilarity(
+          expectation.value,
+          transcript
+        );
+        results.push({
+          expectation,
+          passed: similarity >= similarityThreshold,
+          detail: `similarity ${similarity.toFixed(2)}, needs ${similarityThreshold}`,
+        });
+        continue;
+      }
+
+      const matched = (expectation.keywords ?? [expectation.value]).find(
+        (keyword) => containsKeyword(transcript, keyword)
+      );
+      results.push({
+        expectation,
+        passed: matched !== undefined,
+        detail: matched ? `said "${matched}"` : "no matching phrase",
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Writes the report as `replay-report.json` into outputDir and returns the
+   * file path.
+   */
+  public async exportReport(
+    report: ReplayReport,
+    outputDir: string
+  ): Promise<string> {
+    const filePath = path.join(outputDir, "replay-report.json");
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(report, null, 2), "utf-8");
+    logger.info("Exported replay report", { filePath });
+    return filePath;
+  }
+
+  private async runCase(
+    testCase: RegressionCase,
+    suite: RegressionSuite,
+    phoneNumber: string
+  ): Promise<CaseResult> {
+    const result: CaseResult = {
+      caseId: testCase.id,
+      name: testCase.name,
+      status: "error",
+      callId: null,
+      transcript: "",
+      results: [],
+    };
+
+    try {
+      const callId = await this.callManager.startCall(
+        phoneNumber,
+        testCase.callerScript,
+        this.webhookUrl
+      );
+      result.callId = callId;
+
+      const outcome = await this.waitForOutcome(callId);
+      if (outcome.status === "failed") {
+        result.error = outcome.error;
+      } else {
+        result.transcript = getAgentText(outcome.transcription);
+        result.results = await this.grade(
+          testCase,
+          result.transcript,
+          suite.similarityThreshold
+        );
+        result.status = result.results.every((check) => check.passed)
+          ? "passed"
+          : "failed";
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    logger.info("Replayed regression case", {
+      caseId: testCase.id,
+      callId: result.callId,
+      status: result.status,
+      error: result.error,
+    });
+    return result;
+  }
+
+  private waitForOutcome(callId: string): Promise<CallOutcome> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(
+        () =>
+          this.settle(callId, {
+            status: "failed",
+            error: `No outcome within ${this.callTimeoutMs}ms`,
+          }),
+        this.callTimeoutMs
+      );
+      this.pendingCalls.set(callId, (outcome) => {
+        clearTimeout(timer);
+        resolve(outcome);
+      });
+    });
+  }
+
+  private settle(callId: string, outcome: CallOutcome): void {
+    const resolve = this.pendingCalls.get(callId);
+    if (!resolve) {
+      logger.warn("Received outcome for a call not being replayed", {
+        callId,
+        status: outcome.status,
+      });
+      return;
+    }
+
+    this.pendingCalls.delete(callId);
+    resolve(outcome);
+  }
+
+  private async getSimilarity(expected: string, actual: string) {
+    this.embedder.fit?.([expected, actual]);
+    const [expectedVector, actualVector] = await this.embedder.embed([
+      expected,
+      actual,
+    ]);
+    return cosineSimilarity(expectedVector, actualVector);
+  }
+}
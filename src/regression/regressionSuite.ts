@@ -0,0 +1,281 @@
+import { promises as fs } from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import {
+  CallNode,
+  ConversationTree,
+  NodeStatus,
+} from "../discovery/conversationTree.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { KeywordCategory, containsKeyword } from "../domains/domainPack.js";
+import { PromptBuilder } from "../prompts/promptBuilder.js";
+import {
+  ConfigValidationError,
+  FieldSchema,
+  readConfigFile,
+  validateSchema,
+} from "../config/schema.js";
+import logger from "../utils/logger.js";
+
+export const EXPECTATION_TYPES = [
+  "asks_for",
+  "mentions",
+  "ends_call",
+  "similar_to",
+] as const;
+
+export type ExpectationType = (typeof EXPECTATION_TYPES)[number];
+
+/**
+ * Something the agent did on the recorded call that a replay should see
+ * again. `asks_for`, `mentions` and `ends_call` pass when the agent says any
+ * of the keywords; `similar_to` passes when the agent's response is close
+ * enough to the recorded one.
+ */
+export interface AgentExpectation {
+  type: ExpectationType;
+  /** Slot or service id, or the recorded response for `similar_to` */
+  value: string;
+  keywords?: string[];
+  description: string;
+}
+
+/** One completed root-to-leaf path, replayable as a single call */
+export interface RegressionCase {
+  /** Id of the leaf node the case was generated from */
+  id: string;
+  name: string;
+  path?: string;
+  persona?: string;
+  /** System prompt for the calling agent */
+  callerScript: string;
+  sourceCallId?: string;
+  /** What the agent said on the recorded call */
+  recordedTranscript: string;
+  expectations: AgentExpectation[];
+}
+
+export interface RegressionSuite {
+  version: number;
+  name: string;
+  generatedAt: string;
+  sourceRunId?: string;
+  phoneNumber: string;
+  domain: string;
+  /** Cosine similarity a `similar_to` expectation needs to pass */
+  similarityThreshold: number;
+  cases: RegressionCase[];
+}
+
+export interface RegressionSuiteOptions {
+  name: string;
+  phoneNumber: string;
+  sourceRunId?: string;
+  /** Supplies the slots, services and closing phrases to expect */
+  domain?: DomainContext;
+  similarityThreshold?: number;
+}
+
+export const REGRESSION_SUITE_VERSION = 1;
+
+export const DEFAULT_REPLAY_SIMILARITY = 0.3;
+
+const EXPECTATION_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    type: { type: "enum", values: EXPECTATION_TYPES, required: true },
+    value: { type: "string", required: true },
+    keywords: { type: "array", items: { type: "string" }, minItems: 1 },
+    description: { type: "string", required: true },
+  },
+};
+
+const REGRESSION_SUITE_SCHEMA: FieldSchema = {
+  type: "object",
+  required: true,
+  fields: {
+    version: {
+      type: "number",
+      min: REGRESSION_SUITE_VERSION,
+      max: REGRESSION_SUITE_VERSION,
+      required: true,
+    },
+    name: { type: "string", required: true },
+    generatedAt: { type: "string", required: true },
+    sourceRunId: { type: "string" },
+    phoneNumber: { type: "string", required: true },
+    domain: { type: "string", required: true },
+    similarityThreshold: { type: "number", min: 0, max: 1, required: true },
+    cases: {
+      type: "array",
+      required: true,
+      minItems: 1,
+      items: {
+        type: "object",
+        fields: {
+          id: { type: "string", required: true },
+          name: { type: "string", required: true },
+          path: { type: "string" },
+          persona: { type: "string" },
+          callerScript: { type: "string", required: true },
+          sourceCallId: { type: "string" },
+          recordedTranscript: { type: "string", required: true },
+          expectations: {
+            type: "array",
+            required: true,
+            minItems: 1,
+            items: EXPECTATION_SCHEMA,
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Turns the completed paths of an explored tree into a regression suite,
+ * so the same calls can be replayed against later releases of the agent.
+ */
+export class RegressionSuiteGenerator {
+  private readonly promptBuilder = new PromptBuilder();
+
+  public generate(
+    tree: ConversationTree,
+    options: RegressionSuiteOptions
+  ): RegressionSuite {
+    const domain = options.domain ?? new DomainContext();
+    const leaves = tree
+      .getAllNodes()
+      .filter((node) => this.isCompletedLeaf(node))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const cases = leaves
+      .filter((node) => node.responseReceived.trim().length > 0)
+      .map((node) => this.toCase(node, domain));
+
+    logger.info("Generated regression suite", {
+      name: options.name,
+      sourceRunId: options.sourceRunId,
+      leaves: leaves.length,
+      cases: cases.length,
+    });
+
+    return {
+      version: REGRESSION_SUITE_VERSION,
+      name: options.name,
+      generatedAt: new Date().toISOString(),
+      sourceRunId: options.sourceRunId,
+      phoneNumber: options.phoneNumber,
+      domain: domain.getPack().id,
+      similarityThreshold:
+        options.similarityThreshold ?? DEFAULT_REPLAY_SIMILARITY,
+      cases,
+    };
+  }
+
+  /**
+   * Writes the suite as JSON for a `.json` path and as YAML otherwise.
+   */
+  public async save(suite: RegressionSuite, filePath: string): Promise<void> {
+    const contents =
+      path.extname(filePath).toLowerCase() === ".json"
+        ? JSON.stringify(suite, null, 2)
+        : yaml.dump(suite, { lineWidth: 100, skipInvalid: true });
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, contents, "utf-8");
+    logger.info("Saved regression suite", {
+      filePath,
+      cases: suite.cases.length,
+    });
+  }
+
+  /**
+   * A completed node none of whose children completed. Children only exist
+   * once their parent completed, so the whole path up to it has too.
+   */
+  private isCompletedLeaf(node: CallNode): boolean {
+    return (
+      node.status === NodeStatus.COMPLETED &&
+      !node.children.some((child) => child.status === NodeStatus.COMPLETED)
+    );
+  }
+
+  private toCase(node: CallNode, domain: DomainContext): RegressionCase {
+    const response = node.responseReceived;
+    const expectations: AgentExpectation[] = [
+      ...this.expectCategories(
+        "asks_for",
+        response,
+        domain.getInfoRequests(),
+        (id) => `asks for the caller's ${id.replace(/_/g, " ")}`
+      ),
+      ...this.expectCategories(
+        "mentions",
+        response,
+        domain.getPack().services,
+        (id) => `mentions ${id.replace(/_/g, " ")}`
+      ),
+    ];
+
+    if (node.analysis?.isTerminalState || domain.isTerminal(response)) {
+      expectations.push({
+        type: "ends_call",
+        value: "true",
+        keywords: domain.getTerminalPhrases(),
+        description: "wraps up the call",
+      });
+    }
+    expectations.push({
+      type: "similar_to",
+      value: response,
+      description: "responds like the recorded call",
+    });
+
+    const pathSummary = this.promptBuilder.describePath(node.intentPath);
+    return {
+      id: node.id,
+      name: node.intent?.goal ?? (node.parentId ? node.id : "opening"),
+      path: pathSummary || undefined,
+      persona: node.personaId,
+      callerScript: node.systemPrompt,
+      sourceCallId: node.callId || undefined,
+      recordedTranscript: response,
+      expectations,
+    };
+  }
+
+  private expectCategories(
+    type: ExpectationType,
+    response: string,
+    categories: KeywordCategory[],
+    describe: (id: string) => string
+  ): AgentExpectation[] {
+    return categories
+      .filter((category) =>
+        category.keywords.some((keyword) => containsKeyword(response, keyword))
+      )
+      .map((category) => ({
+        type,
+        value: category.id,
+        keywords: category.keywords,
+        description: describe(category.id),
+      }));
+  }
+}
+
+/**
+ * Reads and validates a suite written by RegressionSuiteGenerator, or
+ * edited by hand since.
+ */
+export async function loadRegressionSuite(
+  filePath: string
+): Promise<RegressionSuite> {
+  const source = `regression suite ${filePath}`;
+  const parsed = await readConfigFile(filePath, source);
+  const issues = validateSchema(parsed, REGRESSION_SUITE_SCHEMA);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+  return parsed as RegressionSuite;
+}
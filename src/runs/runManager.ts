@@ -0,0 +1,296 @@
+import logger from "../utils/logger.js";
+import {
+  DiscoveryConfig,
+  DiscoveryOrchestrator,
+  DiscoverySnapshot,
+} from "../orchestrator/discoveryOrchestrator.js";
+import { StateStore } from "../persistence/stateStore.js";
+import { CallEventHandler } from "../webhook/index.js";
+import { TranscriptionResult } from "../transcription/transcriber.js";
+
+export type RunStatus = "running" | "paused" | "stopped";
+
+export interface RunSummary {
+  runId: string;
+  status: RunStatus;
+  phoneNumber: string;
+  state: ReturnType<DiscoveryOrchestrator["getDiscoveryState"]>;
+}
+
+export class RunNotFoundError extends Error {
+  constructor(runId: string) {
+    super(`Run ${runId} not found`);
+    this.name = "RunNotFoundError";
+  }
+}
+
+export class RunConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunConflictError";
+  }
+}
+
+function getRunWebhookPath(runId: string): string {
+  return `/webhook/runs/${runId}/callback`;
+}
+
+interface RunManagerOptions {
+  createOrchestrator: (
+    config: Partial<DiscoveryConfig>,
+    runId?: string
+  ) => DiscoveryOrchestrator;
+  stateStore?: StateStore<DiscoverySnapshot>;
+  /** Public URL of this server; runs get a webhook path scoped to their id */
+  webhookBaseUrl?: string;
+  maxActiveRuns?: number;
+}
+
+/**
+ * Owns the discovery runs started by this process and lets them be
+ * controlled after boot. Each run has its own orchestrator, so its tree,
+ * config, queue and call pacing are independent of the others. Webhooks are
+ * routed by the run id in their path, falling back to the call id for the
+ * shared callback path. Stopped runs stay loaded so they can be inspected.
+ */
+export class RunManager implements CallEventHandler {
+  private readonly runs: Map<string, DiscoveryOrchestrator> = new Map();
+  private readonly resuming: Map<string, Promise<DiscoveryOrchestrator>> =
+    new Map();
+  private readonly createOrchestrator: RunManagerOptions["createOrchestrator"];
+  private readonly stateStore?: StateStore<DiscoverySnapshot>;
+  private readonly webhookBaseUrl?: string;
+  private readonly maxActiveRuns: number;
+
+  constructor(options: RunManagerOptions) {
+    this.createOrchestrator = options.createOrchestrator;
+    this.stateStore = options.stateStore;
+    this.webhookBaseUrl = options.webhookBaseUrl?.replace(/\/$/, "");
+    this.maxActiveRuns = options.maxActiveRuns ?? Infinity;
+  }
+
+  public async startRun(
+    config: Partial<DiscoveryConfig>
+  ): Promise<DiscoveryOrchestrator> {
+    this.assertCanActivateRun();
+
+    const runId = this.createRunId();
+    const orchestrator = this.createOrchestrator(
+      {
+        ...config,
+        webhookUrl: config.webhookUrl ?? this.getRunWebhookUrl(runId),
+      },
+      runId
+    );
+    // Registered before dialing so the first call's webhooks can be routed
+    this.runs.set(orchestrator.getRunId(), orchestrator);
+    try {
+      await orchestrator.startDiscovery();
+    } catch (error) {
+      this.runs.delete(orchestrator.getRunId());
+      throw error;
+    }
+
+    logger.info("Started discovery run", {
+      runId: orchestrator.getRunId(),
+      phoneNumber: config.phoneNumber,
+    });
+
+    return orchestrator;
+  }
+
+  /**
+   * Unpauses a paused run, or restores a stopped run or one that is not
+   * loaded in this process from its last snapshot. Concurrent requests to
+   * resume the same run share one restore.
+   */
+  public async resumeRun(runId: string): Promise<DiscoveryOrchestrator> {
+    const pending = this.resuming.get(runId);
+    if (pending) return pending;
+
+    const loaded = this.runs.get(runId);
+    if (loaded && this.getStatus(loaded) !== "stopped") {
+      const status = this.getStatus(loaded);
+      if (status !== "paused") {
+        throw new RunConflictError(`Run ${runId} is ${status}, not paused`);
+      }
+
+      loaded.unpauseDiscovery();
+      return loaded;
+    }
+
+    // Registered before the first await so a second request waits for it
+    const restoring = this.restoreRun(runId, loaded);
+    this.resuming.set(runId, restoring);
+    try {
+      return await restoring;
+    } finally {
+      this.resuming.delete(runId);
+    }
+  }
+
+  private async restoreRun(
+    runId: string,
+    stopped?: DiscoveryOrchestrator
+  ): Promise<DiscoveryOrchestrator> {
+    if (!this.stateStore || !(await this.stateStore.exists(runId))) {
+      if (stopped) {
+        throw new RunConflictError(
+          `Run ${runId} is stopped and has no snapshot to resume from`
+        );
+      }
+      throw new RunNotFoundError(runId);
+    }
+
+    this.assertCanActivateRun();
+
+    const snapshot = await this.stateStore.load(runId);
+    const orchestrator = this.createOrchestrator(
+      {
+        ...snapshot.config,
+        webhookUrl: this.getResumedWebhookUrl(
+          runId,
+          snapshot.config.webhookUrl
+        ),
+      },
+      runId
+    );
+    this.runs.set(runId, orchestrator);
+    try {
+      await orchestrator.resumeDiscovery(runId);
+    } catch (error) {
+      if (stopped) {
+        this.runs.set(runId, stopped);
+      } else {
+        this.runs.delete(runId);
+      }
+      throw error;
+    }
+
+    logger.info("Resumed discovery run from snapshot", { runId });
+    return orchestrator;
+  }
+
+  public pauseRun(runId: string): DiscoveryOrchestrator {
+    const orchestrator = this.getRunOrThrow(runId);
+    if (this.getStatus(orchestrator) === "stopped") {
+      throw new RunConflictError(`Run ${runId} is stopped`);
+    }
+
+    orchestrator.pauseDiscovery();
+    return orchestrator;
+  }
+
+  public stopRun(runId: string): DiscoveryOrchestrator {
+    const orchestrator = this.getRunOrThrow(runId);
+    orchestrator.stopDiscovery();
+    return orchestrator;
+  }
+
+  public stopAll(): void {
+    this.runs.forEach((orchestrator) => {
+      if (this.getStatus(orchestrator) !== "stopped") {
+        orchestrator.stopDiscovery();
+      }
+    });
+  }
+
+  public getRun(runId: string): DiscoveryOrchestrator | undefined {
+    return this.runs.get(runId);
+  }
+
+  public getRunOrThrow(runId: string): DiscoveryOrchestrator {
+    const orchestrator = this.runs.get(runId);
+    if (!orchestrator) {
+      throw new RunNotFoundError(runId);
+    }
+    return orchestrator;
+  }
+
+  public forRun(runId: string): DiscoveryOrchestrator | undefined {
+    return this.runs.get(runId);
+  }
+
+  public getRuns(): DiscoveryOrchestrator[] {
+    return Array.from(this.runs.values());
+  }
+
+  public summarize(orchestrator: DiscoveryOrchestrator): RunSummary {
+    return {
+      runId: orchestrator.getRunId(),
+      status: this.getStatus(orchestrator),
+      phoneNumber: orchestrator.getConfig().phoneNumber,
+      state: orchestrator.getDiscoveryState(),
+    };
+  }
+
+  public async handleCallCompleted(
+    callId: string,
+    transcription: TranscriptionResult
+  ): Promise<void> {
+    const orchestrator = this.findRunByCallId(callId);
+    if (!orchestrator) {
+      logger.warn("Received completed call for an unknown run", { callId });
+      return;
+    }
+
+    await orchestrator.handleCallCompleted(callId, transcription);
+  }
+
+  public async handleCallFailed(callId: string): Promise<void> {
+    const orchestrator = this.findRunByCallId(callId);
+    if (!orchestrator) {
+      logger.warn("Received failed call for an unknown run", { callId });
+      return;
+    }
+
+    await orchestrator.handleCallFailed(callId);
+  }
+
+  public getRunIdForCall(callId: string): string | undefined {
+    return this.findRunByCallId(callId)?.getRunId();
+  }
+
+  private findRunByCallId(callId: string): DiscoveryOrchestrator | undefined {
+    return this.getRuns().find((orchestrator) => orchestrator.ownsCall(callId));
+  }
+
+  private getStatus(orchestrator: DiscoveryOrchestrator): RunStatus {
+    const { isRunning, isPaused } = orchestrator.getDiscoveryState();
+    if (!isRunning) return "stopped";
+    return isPaused ? "paused" : "running";
+  }
+
+  private createRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  }
+
+  private getRunWebhookUrl(runId: string): string | undefined {
+    return this.webhookBaseUrl
+      ? `${this.webhookBaseUrl}${getRunWebhookPath(runId)}`
+      : undefined;
+  }
+
+  /**
+   * A run-scoped URL the run was given when it started is rebuilt from this
+   * process's base URL, since tunnels get a new one on every restart. URLs
+   * set in the run's config are kept.
+   */
+  private getResumedWebhookUrl(runId: string, stored: string): string {
+    if (!stored.endsWith(getRunWebhookPath(runId))) {
+      return stored;
+    }
+    return this.getRunWebhookUrl(runId) ?? stored;
+  }
+
+  private assertCanActivateRun(): void {
+    const activeCount = this.getRuns().filter(
+      (orchestrator) => this.getStatus(orchestrator) !== "stopped"
+    ).length;
+    if (activeCount >= this.maxActiveRuns) {
+      throw new RunConflictError(
+        `${activeCount} runs are already active; stop one before starting another`
+      );
+    }
+  }
+}
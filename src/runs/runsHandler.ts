@@ -0,0 +1,293 @@
+import { Router, Request, Response } from "express";
+import { TreeExporter } from "../export/treeExporter.js";
+import { CapabilityCatalogBuilder } from "../export/capabilityCatalog.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { PersonaLibrary } from "../personas/personaLibrary.js";
+import { DomainPackLibrary } from "../domains/domainPack.js";
+import { DiscoveryEvent } from "../events/discoveryEvents.js";
+import { CallLifecycleTracker } from "../webhook/callLifecycle.js";
+import {
+  parseRunRequest,
+  toDiscoveryConfig,
+} from "../config/runConfig.js";
+import { ConfigValidationError } from "../config/schema.js";
+import { CallApiError } from "../call-manager/client.js";
+import logger from "../utils/logger.js";
+import {
+  RunConflictError,
+  RunManager,
+  RunNotFoundError,
+} from "./runManager.js";
+
+// Keeps proxies from closing idle event streams
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface RunsHandlerOptions {
+  heartbeatIntervalMs?: number;
+  /** The tracker the webhook handler records call lifecycles in */
+  callLifecycles?: CallLifecycleTracker;
+  /** Where `callerPersonas` ids are looked up; the built-ins by default */
+  personaLibrary?: PersonaLibrary;
+  /** Where `domain` ids are looked up; the built-ins by default */
+  domainPackLibrary?: DomainPackLibrary;
+}
+
+/**
+ * REST API for starting, controlling and inspecting discovery runs.
+ */
+export class RunsHandler {
+  private router: Router;
+  private runManager: RunManager;
+  private exporter: TreeExporter;
+  private callLifecycles?: CallLifecycleTracker;
+  private personaLibrary: PersonaLibrary;
+  private domainPackLibrary: DomainPackLibrary;
+
+  private readonly heartbeatIntervalMs: number;
+
+  constructor(runManager: RunManager, options: RunsHandlerOptions = {}) {
+    this.router = Router();
+    this.runManager = runManager;
+    this.exporter = new TreeExporter();
+    this.callLifecycles = options.callLifecycles;
+    this.personaLibrary = options.personaLibrary ?? new PersonaLibrary();
+    this.domainPackLibrary =
+      options.domainPackLibrary ?? new DomainPackLibrary();
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+    this.configureRoutes();
+  }
+
+  private configureRoutes(): void {
+    this.router.get("/", this.handleListRuns.bind(this));
+    this.router.post("/", this.handleStartRun.bind(this));
+    this.router.get("/:runId", this.handleGetRun.bind(this));
+    this.router.post("/:runId/pause", this.handlePauseRun.bind(this));
+    this.router.post("/:runId/resume", this.handleResumeRun.bind(this));
+    this.router.post("/:runId/stop", this.handleStopRun.bind(this));
+    this.router.get("/:runId/tree", this.handleGetTree.bind(this));
+    this.router.get(
+      "/:runId/capabilities",
+      this.handleGetCapabilities.bind(this)
+    );
+    this.router.get("/:runId/nodes/:nodeId", this.handleGetNode.bind(this));
+    this.router.get("/:runId/calls/:callId", this.handleGetCall.bind(this));
+    this.router.get("/:runId/events", this.handleStreamEvents.bind(this));
+  }
+
+  private handleListRuns(req: Request, res: Response): void {
+    res.status(200).json({
+      runs: this.runManager
+        .getRuns()
+        .map((orchestrator) => this.runManager.summarize(orchestrator)),
+    });
+  }
+
+  private async handleStartRun(req: Request, res: Response): Promise<void> {
+    try {
+      const config = toDiscoveryConfig(parseRunRequest(req.body), {
+        personas: this.personaLibrary,
+        domainPacks: this.domainPackLibrary,
+      });
+      const orchestrator = await this.runManager.startRun(config);
+      res.status(201).json(this.runManager.summarize(orchestrator));
+    } catch (error) {
+      this.sendError(res, error, "Failed to start run");
+    }
+  }
+
+  private handleGetRun(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+      res.status(200).json({
+        ...this.runManager.summarize(orchestrator),
+        config: orchestrator.getConfig(),
+      });
+    } catch (error) {
+      this.sendError(res, error, "Failed to get run");
+    }
+  }
+
+  private handlePauseRun(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.pauseRun(req.params.runId);
+      res.status(200).json(this.runManager.summarize(orchestrator));
+    } catch (error) {
+      this.sendError(res, error, "Failed to pause run");
+    }
+  }
+
+  private async handleResumeRun(req: Request, res: Response): Promise<void> {
+    try {
+      const orchestrator = await this.runManager.resumeRun(req.params.runId);
+      res.status(200).json(this.runManager.summarize(orchestrator));
+    } catch (error) {
+      this.sendError(res, error, "Failed to resume run");
+    }
+  }
+
+  private handleStopRun(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.stopRun(req.params.runId);
+      res.status(200).json(this.runManager.summarize(orchestrator));
+    } catch (error) {
+      this.sendError(res, error, "Failed to stop run");
+    }
+  }
+
+  private handleGetTree(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+      res
+        .status(200)
+        .json(this.exporter.buildReport(orchestrator.getConversationTree()));
+    } catch (error) {
+      this.sendError(res, error, "Failed to get run tree");
+    }
+  }
+
+  /**
+   * The run's capability catalog as JSON, or as Markdown with
+   * `?format=markdown`.
+   */
+  private async handleGetCapabilities(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+      const builder = new CapabilityCatalogBuilder({
+        domain: new DomainContext(
+          undefined,
+          orchestrator.getDomainPack() ?? undefined
+        ),
+      });
+      const catalog = await builder.build(orchestrator.getConversationTree());
+
+      if (req.query.format === "markdown") {
+        res.status(200).type("text/markdown").send(builder.toMarkdown(catalog));
+        return;
+      }
+      res.status(200).json(catalog);
+    } catch (error) {
+      this.sendError(res, error, "Failed to build capability catalog");
+    }
+  }
+
+  private handleGetNode(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+      const node = orchestrator
+        .getConversationTree()
+        .getNode(req.params.nodeId);
+
+      if (!node) {
+        res.status(404).json({ error: `Node ${req.params.nodeId} not found` });
+        return;
+      }
+
+      res.status(200).json(this.exporter.buildNodeReport(node));
+    } catch (error) {
+      this.sendError(res, error, "Failed to get run node");
+    }
+  }
+
+  /**
+   * The webhook lifecycle of one of the run's calls, including deliveries
+   * that were ignored as duplicates or out of order.
+   */
+  private handleGetCall(req: Request, res: Response): void {
+    try {
+      const orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+      const { callId } = req.params;
+      const lifecycle = orchestrator.ownsCall(callId)
+        ? this.callLifecycles?.getLifecycle(callId)
+        : undefined;
+
+      if (!lifecycle) {
+        res.status(404).json({ error: `Call ${callId} not found` });
+        return;
+      }
+
+      res.status(200).json(lifecycle);
+    } catch (error) {
+      this.sendError(res, error, "Failed to get run call");
+    }
+  }
+
+  /**
+   * Server-Sent Events stream of the run's discovery events. The first
+   * event is a snapshot of the run so clients can render before anything
+   * else happens.
+   */
+  private handleStreamEvents(req: Request, res: Response): void {
+    let orchestrator;
+    try {
+      orchestrator = this.runManager.getRunOrThrow(req.params.runId);
+    } catch (error) {
+      this.sendError(res, error, "Failed to stream run events");
+      return;
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send("snapshot", {
+      run: this.runManager.summarize(orchestrator),
+      tree: this.exporter.buildReport(orchestrator.getConversationTree()),
+    });
+
+    const runId = orchestrator.getRunId();
+    // The bus may be shared with other runs
+    const unsubscribe = orchestrator
+      .getEvents()
+      .subscribe((event: DiscoveryEvent) => {
+        if (event.runId === runId) send(event.type, event);
+      });
+    const heartbeat = setInterval(
+      () => res.write(": heartbeat\n\n"),
+      this.heartbeatIntervalMs
+    );
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+
+  private sendError(res: Response, error: unknown, message: string): void {
+    const status =
+      error instanceof ConfigValidationError
+        ? 400
+        : error instanceof RunNotFoundError
+        ? 404
+        : error instanceof RunConflictError
+        ? 409
+        : error instanceof CallApiError
+        ? 502
+        : 500;
+
+    logger.error(message, {
+      error: error instanceof Error ? error.message : "Unknown error",
+      status,
+    });
+
+    res.status(status).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+      issues:
+        error instanceof ConfigValidationError ? error.issues : undefined,
+    });
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
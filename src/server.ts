@@ -2,6 +2,7 @@ import express, { Express, Request, Response, NextFunction } from "express";
 import cors from "cors";
 import helmet from "helmet";
 import logger from "./utils/logger.js";
+import { captureRawBody } from "./webhook/signature.js";
 
 interface AppError extends Error {
   status?: number;
@@ -10,15 +11,22 @@ interface AppError extends Error {
 class Server {
   private app: Express;
   private port: number;
+  private host?: string;
 
-  constructor(port: number = 3000) {
+  /**
+   * `host` limits which interface the server listens on; all of them when
+   * unset.
+   */
+  constructor(port: number = 3000, host?: string) {
     this.app = express();
     this.port = port;
+    this.host = host;
     this.configureMiddleware();
   }
 
   private configureMiddleware(): void {
-    this.app.use(express.json());
+    // Webhook signatures are computed over the body exactly as it was sent
+    this.app.use(express.json({ verify: captureRawBody }));
 
     this.app.use(
       cors({
@@ -91,13 +99,19 @@ class Server {
 
     try {
       await new Promise<void>((resolve) => {
-        this.app.listen(this.port, () => {
+        const onListening = () => {
           logger.info("Server started", {
             port: this.port,
+            host: this.host,
             timestamp: new Date().toISOString(),
           });
           resolve();
-        });
+        };
+        if (this.host) {
+          this.app.listen(this.port, this.host, onListening);
+        } else {
+          this.app.listen(this.port, onListening);
+        }
       });
     } catch (error) {
       logger.error("Failed to start server", {
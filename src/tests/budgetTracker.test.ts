@@ -0,0 +1,146 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import {
+  BudgetTracker,
+  BudgetWarning,
+} from "../orchestrator/budgetTracker.js";
+import {
+  DiscoveryEvent,
+  DiscoveryEventBus,
+} from "../events/discoveryEvents.js";
+import {
+  createAnalyzer,
+  createStartCall,
+  createTestOrchestrator,
+  waitFor,
+} from "./testHelpers.js";
+
+describe("BudgetTracker", () => {
+  test("should warn once per threshold and report the exhausted metric", () => {
+    const onWarning = jest.fn<(warning: BudgetWarning) => void>();
+    const tracker = new BudgetTracker({
+      budget: { maxCalls: 4, maxLlmTokens: 10000 },
+      onWarning,
+    });
+
+    tracker.recordCall();
+    expect(tracker.check()).toBeNull();
+    tracker.recordCall();
+    expect(tracker.check()).toBeNull();
+    expect(tracker.check()).toBeNull();
+    tracker.recordCall();
+    tracker.recordCall();
+
+    expect(tracker.check()).toBe("calls");
+    expect(onWarning.mock.calls.map(([warning]) => warning)).toEqual([
+      { metric: "calls", threshold: 0.5, used: 2, limit: 4 },
+    ]);
+    expect(tracker.getReport().utilization).toEqual({
+      calls: 1,
+      llmTokens: 0,
+    });
+  });
+
+  test("should estimate costs from recordings and model usage", () => {
+    const tracker = new BudgetTracker({
+      costRates: {
+        perCallMinute: 0.1,
+        perThousandLlmTokens: 0.01,
+        perTranscriptionMinute: 0.005,
+      },
+    });
+
+    tracker.recordRecording(120);
+    tracker.recordLlmUsage({ promptTokens: 1500, completionTokens: 500 });
+
+    expect(tracker.getReport()).toMatchObject({
+      usage: { callMinutes: 2, transcriptionSeconds: 120, llmTokens: 2000 },
+      estimatedCostUsd: {
+        calls: 0.2,
+        llm: 0.02,
+        transcription: 0.01,
+        total: 0.23,
+      },
+      exhausted: null,
+    });
+  });
+
+  test("should only count wall-clock time while started", () => {
+    const tracker = new BudgetTracker({ budget: { maxWallClockMs: 1000 } });
+
+    tracker.start(0);
+    tracker.stop(600);
+    expect(tracker.getUsage(5000).wallClockMs).toBe(600);
+
+    const resumed = new BudgetTracker({ budget: { maxWallClockMs: 1000 } });
+    resumed.restore(tracker.getUsage());
+    resumed.start(10000);
+    expect(resumed.check(10300)).toBeNull();
+    expect(resumed.check(10400)).toBe("wallClockMs");
+  });
+});
+
+describe("DiscoveryOrchestrator budgets", () => {
+  test("should stop dialing when the budget runs out and stop once active calls finish", async () => {
+    const events = new DiscoveryEventBus();
+    const received: DiscoveryEvent[] = [];
+    events.subscribe((event) => received.push(event));
+
+    const startCall = createStartCall();
+    const analyzer = createAnalyzer({
+      identifiedPaths: [
+        { persona: "a new customer", goal: "book a repair", steps: [] },
+        { persona: "a new customer", goal: "ask for a quote", steps: [] },
+      ],
+      isTerminalState: false,
+      confidence: 0.8,
+      usage: { promptTokens: 400, completionTokens: 100 },
+    });
+    const orchestrator = createTestOrchestrator(
+      { budget: { maxCalls: 2 } },
+      { runId: "run_budget", responseAnalyzer: analyzer, events },
+      startCall
+    );
+    const transcript = {
+      text: "Thanks for calling, we do repairs and quotes.",
+      confidence: 0.9,
+      turns: [],
+      durationSeconds: 90,
+    };
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", transcript);
+    await waitFor(() =>
+      received.some((event) => event.type === "BudgetExhausted")
+    );
+
+    expect(startCall).toHaveBeenCalledTimes(2);
+    expect(orchestrator.getDiscoveryState()).toMatchObject({
+      isRunning: true,
+      activeCallCount: 1,
+      budgetExhausted: "calls",
+    });
+
+    await orchestrator.handleCallCompleted("call_2", transcript);
+
+    expect(startCall).toHaveBeenCalledTimes(2);
+    const state = orchestrator.getDiscoveryState();
+    expect(state.isRunning).toBe(false);
+    expect(state.budget.usage).toMatchObject({
+      calls: 2,
+      callMinutes: 3,
+      transcriptionSeconds: 180,
+      llmTokens: 1000,
+    });
+    expect(state.budget.estimatedCostUsd.total).toBeGreaterThan(0);
+
+    const finished = received.find((event) => event.type === "RunFinished");
+    expect(finished?.payload).toMatchObject({
+      stopReason: "budget-exhausted",
+      completedCallCount: 2,
+      estimatedCostUsd: state.budget.estimatedCostUsd.total,
+    });
+    expect(
+      received.find((event) => event.type === "BudgetExhausted")?.payload
+    ).toEqual({ metric: "calls", used: 2, limit: 2, activeCallCount: 1 });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import axios, { AxiosInstance } from "axios";
+import AxiosMockAdapter from "axios-mock-adapter";
+import { CallManager, isCallApiFailure } from "../call-manager/client.js";
+import { TokenBucket } from "../call-manager/tokenBucket.js";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+} from "../call-manager/circuitBreaker.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { createTestOrchestrator } from "./testHelpers.js";
+
+const baseUrl = "https://app.hamming.ai/api/rest/exercise";
+
+describe("TokenBucket", () => {
+  test("should allow a burst and then space requests out", async () => {
+    const bucket = new TokenBucket({ capacity: 2, refillIntervalMs: 50 });
+    const start = Date.now();
+    const grantedAt: number[] = [];
+
+    await Promise.all(
+      [0, 1, 2, 3].map(() =>
+        bucket.take().then(() => grantedAt.push(Date.now() - start))
+      )
+    );
+
+    expect(grantedAt[1]).toBeLessThan(40);
+    expect(grantedAt[2]).toBeGreaterThanOrEqual(45);
+    expect(grantedAt[3]).toBeGreaterThanOrEqual(95);
+  });
+
+  test("should hold every caller back while paused", async () => {
+    const bucket = new TokenBucket({ capacity: 5, refillIntervalMs: 0 });
+    const start = Date.now();
+
+    bucket.pauseFor(100);
+    await bucket.take();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const fail = () => Promise.reject(new Error("Service unavailable"));
+
+  test("should open after consecutive failures and probe once after the timeout", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 300,
+    });
+
+    await expect(breaker.execute(fail)).rejects.toThrow("Service unavailable");
+    expect(breaker.getStatus().state).toBe("closed");
+    await expect(breaker.execute(fail)).rejects.toThrow("Service unavailable");
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      consecutiveFailures: 2,
+    });
+    await expect(breaker.execute(async () => "ok")).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 320));
+    let releaseProbe!: () => void;
+    const probe = breaker.execute(
+      () =>
+        new Promise<string>((resolve) => (releaseProbe = () => resolve("ok")))
+    );
+    expect(breaker.getStatus().state).toBe("half-open");
+    await expect(breaker.execute(async () => "ok")).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+
+    releaseProbe();
+    await expect(probe).resolves.toBe("ok");
+    expect(breaker.getStatus()).toEqual({
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+    });
+  });
+
+  test("should reopen when the probe fails", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 20,
+    });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await expect(breaker.execute(fail)).rejects.toThrow("Service unavailable");
+
+    expect(breaker.getStatus().state).toBe("open");
+  });
+
+  test("should not count errors the predicate ignores", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      isFailure: () => false,
+    });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+});
+
+describe("CallManager resilience", () => {
+  let httpClient: AxiosInstance;
+  let axiosMock: AxiosMockAdapter;
+
+  beforeEach(() => {
+    httpClient = axios.create();
+    axiosMock = new AxiosMockAdapter(httpClient);
+  });
+
+  afterEach(() => {
+    axiosMock.restore();
+  });
+
+  test("should wait for Retry-After when rate limited", async () => {
+    axiosMock
+      .onPost(`${baseUrl}/start-call`)
+      .replyOnce(429, {}, { "retry-after": "1" })
+      .onPost(`${baseUrl}/start-call`)
+      .reply(200, { id: "call_1" });
+    const callManager = new CallManager(baseUrl, "token", { httpClient });
+    const start = Date.now();
+
+    const callId = await callManager.startCall(
+      "+15555550100",
+      "Prompt",
+      "https://example.com/webhook"
+    );
+
+    expect(callId).toBe("call_1");
+    expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+    expect(axiosMock.history.post).toHaveLength(2);
+    expect(callManager.getCircuitStatus().state).toBe("closed");
+  });
+
+  test("should refuse calls without a request while the circuit is open", async () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      isFailure: isCallApiFailure,
+    });
+    const callManager = new CallManager(baseUrl, "token", {
+      httpClient,
+      circuitBreaker,
+    });
+
+    axiosMock.onPost(`${baseUrl}/start-call`).reply(400, {});
+    await expect(
+      callManager.startCall("+15555550100", "Prompt", "https://example.com")
+    ).rejects.toThrow("Failed to initiate call");
+    expect(callManager.getCircuitStatus().state).toBe("closed");
+
+    await circuitBreaker.execute(() => Promise.reject(new Error("down"))).catch(
+      () => undefined
+    );
+    await expect(
+      callManager.startCall("+15555550100", "Prompt", "https://example.com")
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(axiosMock.history.post).toHaveLength(1);
+    expect(callManager.getCircuitStatus()).toMatchObject({ state: "open" });
+  });
+});
+
+describe("DiscoveryOrchestrator with an open circuit", () => {
+  test("should hold dialing until the circuit lets calls through", async () => {
+    let attempts = 0;
+    const orchestrator = createTestOrchestrator(
+      {},
+      { responseAnalyzer: {} as ResponseAnalyzer },
+      async () => {
+        if (++attempts === 1) {
+          throw new CircuitOpenError(new Date(Date.now() + 100));
+        }
+        return "call_1";
+      }
+    );
+    const start = Date.now();
+
+    await orchestrator.startDiscovery();
+    orchestrator.stopDiscovery();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+    expect(attempts).toBe(2);
+    const root = orchestrator.getConversationTree().getNode("root")!;
+    expect(root.callId).toBe("call_1");
+    expect(root.retryCount).toBe(0);
+    expect(orchestrator.getDiscoveryState().dialingPausedUntil).toBeNull();
+  });
+});
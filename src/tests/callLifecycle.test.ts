@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, jest } from "@jest/globals";
+import request from "supertest";
+import express from "express";
+import { CallLifecycleTracker } from "../webhook/callLifecycle.js";
+import { CallEventHandler, WebhookHandler } from "../webhook/index.js";
+import { CallManager } from "../call-manager/client.js";
+import { Transcriber } from "../transcription/transcriber.js";
+
+describe("CallLifecycleTracker", () => {
+  let tracker: CallLifecycleTracker;
+
+  beforeEach(() => {
+    tracker = new CallLifecycleTracker();
+  });
+
+  test("should claim the recording once across both recording events", () => {
+    expect(tracker.record("call_1", "event_recording", true)).toEqual({
+      outcome: "applied",
+      action: "process-recording",
+    });
+    expect(tracker.record("call_1", "completed", true)).toEqual({
+      outcome: "out-of-order",
+      action: "none",
+    });
+    expect(tracker.record("call_1", "event_recording", true)).toEqual({
+      outcome: "duplicate",
+      action: "none",
+    });
+  });
+
+  test("should ignore status updates that arrive after a later phase", () => {
+    tracker.record("call_1", "event_phone_call_ended", false);
+
+    expect(
+      tracker.record("call_1", "event_phone_call_connected", false)
+    ).toEqual({ outcome: "out-of-order", action: "none" });
+    expect(tracker.record("call_1", "completed", true).action).toBe(
+      "process-recording"
+    );
+    expect(tracker.record("call_1", "failed", false).action).toBe("none");
+  });
+
+  test("should still process a recording reported after a completion without one", () => {
+    expect(tracker.record("call_1", "completed", false).action).toBe("none");
+    expect(tracker.record("call_1", "event_recording", true).action).toBe(
+      "process-recording"
+    );
+  });
+
+  test("should keep a timeline of every delivery and the processing result", () => {
+    tracker.record("call_1", "initiated", false, new Date(1000));
+    tracker.record("call_1", "completed", true, new Date(2000));
+    tracker.record("call_1", "initiated", false, new Date(3000));
+    tracker.recordProcessingResult("call_1", true, new Date(4000));
+
+    expect(tracker.getLifecycle("call_1")).toEqual({
+      callId: "call_1",
+      phase: "completed",
+      timeline: [
+        {
+          event: "initiated",
+          receivedAt: new Date(1000),
+          outcome: "applied",
+          phase: "dialing",
+        },
+        {
+          event: "completed",
+          receivedAt: new Date(2000),
+          outcome: "applied",
+          phase: "processing",
+        },
+        {
+          event: "initiated",
+          receivedAt: new Date(3000),
+          outcome: "duplicate",
+          phase: "processing",
+        },
+        {
+          event: "recording_processed",
+          receivedAt: new Date(4000),
+          outcome: "applied",
+          phase: "completed",
+        },
+      ],
+    });
+    expect(tracker.getLifecycle("call_2")).toBeUndefined();
+    expect(() => tracker.recordProcessingResult("call_1", false)).toThrow(
+      "Call call_1 is not processing a recording"
+    );
+  });
+
+  test("should only keep the most recently finished calls", () => {
+    tracker = new CallLifecycleTracker({ retainFinished: 2 });
+    tracker.record("call_1", "failed", false);
+    tracker.record("call_2", "completed", true);
+    tracker.record("call_3", "failed", false);
+    tracker.recordProcessingResult("call_2", true);
+    tracker.record("call_4", "in-progress", false);
+
+    expect(tracker.getLifecycle("call_1")).toBeUndefined();
+    expect(tracker.getLifecycle("call_2")?.phase).toBe("completed");
+    expect(tracker.getLifecycle("call_3")?.phase).toBe("failed");
+    expect(tracker.getLifecycle("call_4")?.phase).toBe("in-progress");
+
+    tracker.record("call_4", "failed", false);
+    expect(tracker.getLifecycle("call_3")).toBeUndefined();
+  });
+});
+
+describe("WebhookHandler lifecycle", () => {
+  let app: express.Express;
+  let tracker: CallLifecycleTracker;
+  let retrieveRecording: jest.Mock<CallManager["retrieveRecording"]>;
+  let handleCallCompleted: jest.Mock<CallEventHandler["handleCallCompleted"]>;
+  let handleCallFailed: jest.Mock<CallEventHandler["handleCallFailed"]>;
+
+  const send = (status: string, recordingAvailable = true) =>
+    request(app)
+      .post("/webhook/callback")
+      .send({ id: "call_1", status, recording_available: recordingAvailable })
+      .expect(200)
+      .expect({ received: true });
+
+  beforeEach(() => {
+    tracker = new CallLifecycleTracker();
+    retrieveRecording = jest
+      .fn<CallManager["retrieveRecording"]>()
+      .mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(Buffer.from("audio")), 20)
+          )
+      );
+    handleCallCompleted = jest
+      .fn<CallEventHandler["handleCallCompleted"]>()
+      .mockResolvedValue();
+    handleCallFailed = jest
+      .fn<CallEventHandler["handleCallFailed"]>()
+      .mockResolvedValue();
+    const transcriber: Transcriber = {
+      transcribeAudio: async () => ({ text: "Hi", confidence: 1, turns: [] }),
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use(
+      "/webhook",
+      new WebhookHandler(
+        { retrieveRecording } as unknown as CallManager,
+        { handleCallCompleted, handleCallFailed },
+        transcriber,
+        { callLifecycles: tracker }
+      ).getRouter()
+    );
+  });
+
+  test("should process a recording once when both events arrive together", async () => {
+    await Promise.all([send("completed"), send("event_recording")]);
+    await send("completed");
+
+    expect(retrieveRecording).toHaveBeenCalledTimes(1);
+    expect(handleCallCompleted).toHaveBeenCalledTimes(1);
+    expect(tracker.getLifecycle("call_1")?.phase).toBe("completed");
+  });
+
+  test("should ignore a failure reported after the call completed", async () => {
+    await send("event_recording");
+    await send("event_phone_call_connected", false);
+    await send("failed", false);
+
+    expect(handleCallCompleted).toHaveBeenCalledTimes(1);
+    expect(handleCallFailed).not.toHaveBeenCalled();
+    expect(
+      tracker.getLifecycle("call_1")?.timeline.map((entry) => entry.outcome)
+    ).toEqual(["applied", "applied", "out-of-order", "out-of-order"]);
+  });
+
+  test("should not process a recording for a call that already failed", async () => {
+    await send("failed", false);
+    await send("failed", false);
+    await send("completed");
+
+    expect(handleCallFailed).toHaveBeenCalledTimes(1);
+    expect(retrieveRecording).not.toHaveBeenCalled();
+  });
+
+  test("should record a failed recording as the end of the call", async () => {
+    retrieveRecording.mockRejectedValue(new Error("Not found"));
+
+    await send("completed");
+    await send("event_recording");
+
+    expect(handleCallFailed).toHaveBeenCalledTimes(1);
+    expect(tracker.getLifecycle("call_1")?.phase).toBe("failed");
+  });
+});
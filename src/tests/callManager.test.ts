@@ -11,8 +11,9 @@ describe("CallManager", () => {
   let axiosMock: AxiosMockAdapter;
 
   beforeEach(() => {
-    axiosMock = new AxiosMockAdapter(axios);
-    callManager = new CallManager(baseUrl, token);
+    const httpClient = axios.create();
+    axiosMock = new AxiosMockAdapter(httpClient);
+    callManager = new CallManager(baseUrl, token, { httpClient });
   });
 
   afterEach(() => {
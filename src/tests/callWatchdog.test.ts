@@ -0,0 +1,138 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { CallWatchdog } from "../orchestrator/callWatchdog.js";
+import { CallManager } from "../call-manager/client.js";
+import { NodeStatus } from "../discovery/conversationTree.js";
+import {
+  DiscoveryEvent,
+  DiscoveryEventBus,
+} from "../events/discoveryEvents.js";
+import { RunReplayer } from "../events/runReplayer.js";
+import {
+  createAnalyzer,
+  createTestOrchestrator,
+  waitFor,
+} from "./testHelpers.js";
+
+describe("CallWatchdog", () => {
+  test("should time out calls past the maximum duration once", async () => {
+    const onTimeout = jest.fn<(callId: string, durationMs: number) => void>();
+    const watchdog = new CallWatchdog({ maxCallDurationMs: 1000, onTimeout });
+
+    watchdog.track("call_old", 0);
+    watchdog.track("call_new", 500);
+
+    expect(watchdog.check(1200)).toEqual(["call_old"]);
+    expect(watchdog.check(1300)).toEqual([]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(onTimeout).toHaveBeenCalledWith("call_old", 1200);
+    expect(watchdog.isRetired("call_old")).toBe(true);
+  });
+
+  test("should stop watching calls that report an outcome", () => {
+    const watchdog = new CallWatchdog({
+      maxCallDurationMs: 1000,
+      onTimeout: () => undefined,
+    });
+
+    watchdog.track("call_1", 0);
+    watchdog.track("call_2", 0);
+    watchdog.check(2000);
+
+    expect(watchdog.release("call_1")).toBe(false);
+    watchdog.track("call_3", 2000);
+    expect(watchdog.release("call_3")).toBe(true);
+    expect(watchdog.check(5000)).toEqual([]);
+  });
+
+  test("should only remember the most recently retired calls", () => {
+    const watchdog = new CallWatchdog({
+      maxCallDurationMs: 1000,
+      onTimeout: () => undefined,
+      retainRetired: 2,
+    });
+
+    ["call_1", "call_2", "call_3"].forEach((callId) =>
+      watchdog.track(callId, 0)
+    );
+    watchdog.check(2000);
+
+    expect(watchdog.isRetired("call_1")).toBe(false);
+    expect(watchdog.isRetired("call_2")).toBe(true);
+    expect(watchdog.isRetired("call_3")).toBe(true);
+  });
+});
+
+describe("DiscoveryOrchestrator call timeouts", () => {
+  test("should retry calls that never report back and then fail them", async () => {
+    const events = new DiscoveryEventBus();
+    const received: DiscoveryEvent[] = [];
+    events.subscribe((event) => received.push(event));
+
+    const analyzer = createAnalyzer({
+      identifiedPaths: [],
+      isTerminalState: true,
+      confidence: 1,
+    });
+    const orchestrator = createTestOrchestrator(
+      { retryDelayMs: 0, maxCallDuration: 30, maxConcurrentCalls: 1 },
+      { runId: "run_timeouts", responseAnalyzer: analyzer, events }
+    );
+
+    await orchestrator.startDiscovery();
+    const root = orchestrator.getConversationTree().getNode("root")!;
+    await waitFor(() => root.status === NodeStatus.FAILED);
+
+    // A webhook that shows up after its call timed out changes nothing
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "Hello",
+      confidence: 1,
+      turns: [],
+    });
+    await orchestrator.handleCallFailed("call_4");
+    orchestrator.stopDiscovery();
+
+    expect(orchestrator.getDiscoveryState()).toMatchObject({
+      activeCallCount: 0,
+      completedCallCount: 0,
+      failedCallCount: 1,
+      timedOutCallCount: 4,
+    });
+    expect(
+      received
+        .filter((event) => event.type === "CallTimedOut")
+        .map((event) => event.payload.callId)
+    ).toEqual(["call_1", "call_2", "call_3", "call_4"]);
+    expect(RunReplayer.fromEvents(received).getProgress()).toMatchObject({
+      activeCallCount: 0,
+      failedCallCount: 1,
+      timedOutCallCount: 4,
+    });
+  });
+
+  test("should free the slot when a retry cannot be dialed", async () => {
+    const startCall = jest
+      .fn<CallManager["startCall"]>()
+      .mockResolvedValueOnce("call_1")
+      .mockRejectedValue(new Error("Request failed with status code 400"));
+    const orchestrator = createTestOrchestrator(
+      { retryDelayMs: 0 },
+      {},
+      startCall
+    );
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallFailed("call_1");
+    orchestrator.stopDiscovery();
+
+    expect(startCall).toHaveBeenCalledTimes(2);
+    expect(orchestrator.getConversationTree().getNode("root")?.status).toBe(
+      NodeStatus.FAILED
+    );
+    expect(orchestrator.getDiscoveryState()).toMatchObject({
+      activeCallCount: 0,
+      failedCallCount: 1,
+    });
+  });
+});
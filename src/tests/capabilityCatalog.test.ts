@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { ConversationTree } from "../discovery/conversationTree.js";
+import { CapabilityCatalogBuilder } from "../export/capabilityCatalog.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+
+function intent(goal: string): CallerIntent {
+  return { persona: "a homeowner", goal, steps: [] };
+}
+
+function complete(
+  tree: ConversationTree,
+  nodeId: string,
+  response: string,
+  pathCount: number
+): void {
+  tree.updateNodeWithResponse(nodeId, response);
+  tree.recordAnalysis(nodeId, {
+    identifiedPaths: Array.from({ length: pathCount }, (_, index) =>
+      intent(`follow up ${index}`)
+    ),
+    isTerminalState: false,
+    confidence: 0.8,
+  });
+}
+
+describe("CapabilityCatalogBuilder", () => {
+  let tree: ConversationTree;
+
+  beforeEach(() => {
+    tree = new ConversationTree(3);
+    tree.initializeRoot("You are a homeowner calling a business.", "call_1");
+    complete(
+      tree,
+      "root",
+      "Thanks for calling Cool Air. Can I get your full name and phone number?",
+      3
+    );
+
+    const children: [string, string, CallerIntent][] = [
+      [
+        "booking",
+        "You want to book an air conditioner tune-up.",
+        intent("book a tune-up"),
+      ],
+      [
+        "commercial",
+        "You manage an office building with a broken chiller.",
+        intent("fix an office chiller"),
+      ],
+      [
+        "boiler",
+        "You want someone to look at your old boiler.",
+        intent("get a boiler looked at"),
+      ],
+    ];
+    children.forEach(([nodeId, prompt, nodeIntent], index) =>
+      tree.addNode("root", prompt, `call_${index + 2}`, {
+        nodeId,
+        intent: nodeIntent,
+      })
+    );
+    tree.addNode("root", "You ask about ductless mini splits.", "call_5", {
+      nodeId: "dropped",
+      intent: intent("ask about mini splits"),
+    });
+
+    complete(
+      tree,
+      "booking",
+      "Sure, we have Tuesday open. What is the address for the visit?",
+      1
+    );
+    complete(
+      tree,
+      "commercial",
+      "For commercial systems let me transfer you to a specialist.",
+      1
+    );
+    complete(tree, "boiler", "Unfortunately we don't service boilers.", 0);
+    tree.markNodeFailed("dropped");
+  });
+
+  test("should sort calls into intents, slots, handoffs, refusals and dead ends", async () => {
+    const catalog = await new CapabilityCatalogBuilder().build(tree);
+
+    expect(catalog.domain).toBe("general_business");
+    expect(catalog.callsAnalyzed).toBe(5);
+    expect(
+      catalog.intents.flatMap((capability) =>
+        capability.evidence.map((evidence) => evidence.nodeId)
+      )
+    ).toEqual(["root", "booking"]);
+    expect(
+      catalog.slots.map(({ slot, evidence }) => [
+        slot,
+        evidence.map((item) => item.nodeId),
+      ])
+    ).toEqual([
+      ["name", ["root"]],
+      ["phone", ["root"]],
+      ["address", ["booking"]],
+    ]);
+    expect(catalog.handoffs).toHaveLength(1);
+    expect(catalog.handoffs[0]).toMatchObject({
+      label: "fix an office chiller",
+      evidence: [
+        {
+          nodeId: "commercial",
+          callId: "call_3",
+          excerpt: "For commercial systems let me transfer you to a specialist.",
+        },
+      ],
+    });
+    expect(catalog.refusals[0].evidence[0]).toMatchObject({
+      nodeId: "boiler",
+      excerpt: "Unfortunately we don't service boilers.",
+    });
+    expect(catalog.deadEnds.map((capability) => capability.evidence)).toEqual([
+      [
+        {
+          nodeId: "dropped",
+          callId: "call_5",
+          goal: "ask about mini splits",
+          path: expect.any(String),
+          excerpt: "(call failed)",
+        },
+      ],
+    ]);
+  });
+
+  test("should render every section as Markdown", async () => {
+    const builder = new CapabilityCatalogBuilder();
+    const markdown = builder.toMarkdown(await builder.build(tree));
+
+    expect(markdown).toContain("## Supported intents");
+    expect(markdown).toContain("| name | 1 |");
+    expect(markdown).toContain(
+      "## Handoffs and escalations\n\n### fix an office chiller"
+    );
+    expect(markdown).toContain("`boiler` (call `call_4`)");
+    expect(markdown).toContain("## Dead ends\n\n### ask about mini splits");
+  });
+});
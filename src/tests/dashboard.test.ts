@@ -0,0 +1,231 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import express from "express";
+import { RunManager, RunSummary } from "../runs/runManager.js";
+import { RunsHandler } from "../runs/runsHandler.js";
+import { DashboardHandler } from "../dashboard/dashboardHandler.js";
+import { DiscoveryOrchestrator } from "../orchestrator/discoveryOrchestrator.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { CallManager } from "../call-manager/client.js";
+import { WebhookHandler } from "../webhook/index.js";
+import {
+  DiscoveryEvent,
+  DiscoveryEventBus,
+} from "../events/discoveryEvents.js";
+import { ConversationReport } from "../export/treeExporter.js";
+
+interface StreamedEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Reads Server-Sent Events from a live server until `count` events arrived.
+ */
+function readEvents(
+  url: string,
+  count: number,
+  onOpen: () => void = () => {}
+): Promise<StreamedEvent[]> {
+  return new Promise((resolve, reject) => {
+    const events: StreamedEvent[] = [];
+    let buffer = "";
+
+    const req = http.get(url, (res) => {
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        buffer += chunk;
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() ?? "";
+
+        for (const message of messages) {
+          const event = message.match(/^event: (.*)$/m);
+          const data = message.match(/^data: (.*)$/m);
+          if (!event || !data) continue;
+
+          events.push({ event: event[1], data: JSON.parse(data[1]) });
+          if (events.length === 1) onOpen();
+          if (events.length === count) {
+            req.destroy();
+            resolve(events);
+          }
+        }
+      });
+    });
+    req.on("error", reject);
+    req.setTimeout(2000, () => {
+      req.destroy();
+      reject(new Error(`Received ${events.length} of ${count} events`));
+    });
+  });
+}
+
+describe("Dashboard", () => {
+  let app: express.Express;
+  let server: http.Server;
+  let baseUrl: string;
+  let runManager: RunManager;
+
+  beforeEach(async () => {
+    let callCounter = 0;
+    const callManager = {
+      startCall: async () => `call_${++callCounter}`,
+      retrieveRecording: async () => Buffer.from("audio"),
+    } as unknown as CallManager;
+    const events = new DiscoveryEventBus();
+    const analyzer = {
+      analyzeTranscript: async () => ({
+        identifiedPaths: [
+          {
+            persona: "a customer with a leak",
+            goal: "get a plumber",
+            steps: ["Say you have a leak"],
+          },
+        ],
+        isTerminalState: false,
+        confidence: 0.8,
+      }),
+    } as unknown as ResponseAnalyzer;
+
+    runManager = new RunManager({
+      webhookBaseUrl: "https://example.com",
+      createOrchestrator: (config, runId) =>
+        new DiscoveryOrchestrator(
+          callManager,
+          { minTimeBetweenCalls: 0, ...config },
+          { runId, responseAnalyzer: analyzer, events }
+        ),
+    });
+    const transcriber = {
+      transcribeAudio: async () => ({
+        text: "We fix leaks and clogs.",
+        confidence: 1,
+        turns: [],
+      }),
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use("/runs", new RunsHandler(runManager).getRouter());
+    app.use("/dashboard", new DashboardHandler().getRouter());
+    app.use(
+      "/webhook",
+      new WebhookHandler(
+        callManager,
+        runManager,
+        transcriber,
+        { events }
+      ).getRouter()
+    );
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    runManager.stopAll();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should serve the dashboard page and its script", async () => {
+    await request(app)
+      .get("/dashboard")
+      .expect(301)
+      .expect("Location", "/dashboard/");
+
+    const page = await request(app).get("/dashboard/").expect(200);
+    expect(page.headers["content-type"]).toMatch(/text\/html/);
+    expect(page.text).toContain('<script src="app.js"></script>');
+
+    const script = await request(app).get("/dashboard/app.js").expect(200);
+    expect(script.headers["content-type"]).toMatch(/javascript/);
+    expect(script.text).toContain("new EventSource");
+  });
+
+  test("should stream a snapshot followed by discovery events", async () => {
+    const orchestrator = await runManager.startRun({
+      phoneNumber: "+15555550100",
+    });
+    const runId = orchestrator.getRunId();
+
+    const events = await readEvents(`${baseUrl}/runs/${runId}/events`, 6, () => {
+      void request(app)
+        .post(`/webhook/runs/${runId}/callback`)
+        .send({ id: "call_1", status: "completed", recording_available: true })
+        .then(() => undefined);
+    });
+
+    expect(events.map(({ event }) => event)).toEqual([
+      "snapshot",
+      "CallCompleted",
+      "CallQueued",
+      "PathsIdentified",
+      "NodeAdded",
+      "CallStarted",
+    ]);
+
+    const snapshot = events[0].data as {
+      run: RunSummary;
+      tree: ConversationReport;
+    };
+    const [completed, queued, identified, nodeAdded, callStarted] = events
+      .slice(1)
+      .map(({ data }) => data as DiscoveryEvent);
+
+    expect(snapshot.run.runId).toBe(runId);
+    expect(snapshot.tree.nodes[0].status).toBe("in-progress");
+    expect(completed).toMatchObject({
+      type: "CallCompleted",
+      runId,
+      payload: { callId: "call_1", text: "We fix leaks and clogs." },
+    });
+    expect(identified.payload).toMatchObject({
+      nodeId: "root",
+      analysis: { isTerminalState: false, confidence: 0.8 },
+      queuedNodeIds: [(queued.payload as { nodeId: string }).nodeId],
+    });
+    expect(nodeAdded.payload).toMatchObject({
+      nodeId: (queued.payload as { nodeId: string }).nodeId,
+      parentId: "root",
+      depth: 1,
+    });
+    expect(callStarted.payload).toMatchObject({
+      callId: "call_2",
+      attempt: 1,
+    });
+  });
+
+  test("should publish call failures followed by the retry", async () => {
+    const orchestrator = await runManager.startRun({
+      phoneNumber: "+15555550100",
+      retryDelayMs: 0,
+    });
+    const received: DiscoveryEvent[] = [];
+    orchestrator.getEvents().subscribe((event) => received.push(event));
+
+    await request(app)
+      .post("/webhook/callback")
+      .send({ id: "call_1", status: "failed", recording_available: false })
+      .expect(200);
+
+    expect(received.map((event) => event.type)).toEqual([
+      "CallFailed",
+      "CallStarted",
+    ]);
+    expect(received[0]).toMatchObject({
+      runId: orchestrator.getRunId(),
+      payload: { callId: "call_1", reason: "Call failed" },
+    });
+    expect(received[1].payload).toEqual({
+      nodeId: "root",
+      callId: "call_2",
+      attempt: 2,
+    });
+  });
+
+  test("should return 404 for the events of an unknown run", async () => {
+    await request(app).get("/runs/run_missing/events").expect(404);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import express from "express";
+import {
+  DiscoveryEvent,
+  DiscoveryEventBus,
+  DiscoveryEventPublisher,
+} from "../events/discoveryEvents.js";
+import { EventLog } from "../events/eventLog.js";
+import { RunReplayer } from "../events/runReplayer.js";
+import { ConversationTree } from "../discovery/conversationTree.js";
+import { DiscoveryOrchestrator } from "../orchestrator/discoveryOrchestrator.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { CallManager } from "../call-manager/client.js";
+import { WebhookHandler } from "../webhook/index.js";
+import { TreeExporter } from "../export/treeExporter.js";
+import { ProgressVisualizer } from "../visualization/progressVisualizer.js";
+import { waitFor } from "./testHelpers.js";
+
+describe("Discovery events", () => {
+  let events: DiscoveryEventBus;
+  let received: DiscoveryEvent[];
+
+  beforeEach(() => {
+    events = new DiscoveryEventBus();
+    received = [];
+    events.subscribe((event) => received.push(event));
+  });
+
+  test("should publish node events from the conversation tree", () => {
+    const publish: DiscoveryEventPublisher = (type, payload) =>
+      events.publish("run_tree", type, payload);
+    const tree = new ConversationTree(2, publish);
+
+    tree.initializeRoot("Root prompt", "call_1");
+    const child = tree.addNode("root", "Child prompt", "call_2", {
+      nodeId: "child",
+    });
+    tree.recordAnalysis("root", {
+      identifiedPaths: [],
+      isTerminalState: false,
+      confidence: 0.5,
+    });
+    tree.recordAnalysis(child.id, {
+      identifiedPaths: [],
+      isTerminalState: false,
+      confidence: 0.5,
+    });
+    tree.markNodeFailed("root");
+
+    expect(received.map((event) => [event.type, event.payload])).toEqual([
+      [
+        "NodeAdded",
+        {
+          nodeId: "root",
+          parentId: null,
+          depth: 0,
+          callId: "call_1",
+          prompt: "Root prompt",
+          intent: null,
+        },
+      ],
+      [
+        "NodeAdded",
+        {
+          nodeId: "child",
+          parentId: "root",
+          depth: 1,
+          callId: "call_2",
+          prompt: "Child prompt",
+          intent: null,
+        },
+      ],
+      ["NodeTerminal", { nodeId: "child", reason: "max-depth" }],
+      ["NodeTerminal", { nodeId: "root", reason: "failed" }],
+    ]);
+    expect(received.every((event) => event.runId === "run_tree")).toBe(true);
+  });
+
+  test("should keep publishing when a listener throws", () => {
+    events.subscribe(() => {
+      throw new Error("Broken sink");
+    });
+
+    events.publish("run_1", "CallFailed", { callId: "call_1", reason: "busy" });
+    events.publish("run_1", "CallFailed", { callId: "call_2", reason: "busy" });
+
+    expect(received).toHaveLength(2);
+  });
+
+  describe("recording and replay", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "event-log-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("should rebuild a run's tree from its recorded event log", async () => {
+      const eventLog = new EventLog(directory);
+      eventLog.record(events);
+
+      let callCounter = 0;
+      const callManager = {
+        startCall: async () => `call_${++callCounter}`,
+        retrieveRecording: async () => Buffer.from("audio"),
+      } as unknown as CallManager;
+      const analyzer = {
+        analyzeTranscript: async () => ({
+          identifiedPaths: [
+            {
+              persona: "a customer with a leak",
+              goal: "get a plumber",
+              steps: ["Say you have a leak"],
+            },
+          ],
+          isTerminalState: callCounter > 1,
+          confidence: 0.8,
+        }),
+      } as unknown as ResponseAnalyzer;
+      const orchestrator = new DiscoveryOrchestrator(
+        callManager,
+        {
+          phoneNumber: "+15555550100",
+          webhookUrl: "https://example.com/webhook/callback",
+          minTimeBetweenCalls: 0,
+          maxDepth: 3,
+        },
+        { runId: "run_replay", responseAnalyzer: analyzer, events }
+      );
+      const transcriber = {
+        transcribeAudio: async () => ({
+          text: "Caller: Hi. Agent: We fix leaks.",
+          confidence: 0.9,
+          turns: [
+            {
+              speaker: 1,
+              role: "agent" as const,
+              start: 0,
+              end: 1,
+              text: "We fix leaks.",
+              confidence: 0.9,
+            },
+          ],
+        }),
+      };
+      const app = express();
+      app.use(express.json());
+      app.use(
+        "/webhook",
+        new WebhookHandler(
+          callManager,
+          orchestrator,
+          transcriber,
+          { events }
+        ).getRouter()
+      );
+
+      await orchestrator.startDiscovery();
+      await request(app)
+        .post("/webhook/callback")
+        .send({ id: "call_1", status: "completed", recording_available: true })
+        .expect(200);
+      await waitFor(() =>
+        received.some(
+          (event) =>
+            event.type === "CallStarted" && event.payload.callId === "call_2"
+        )
+      );
+      await request(app)
+        .post("/webhook/callback")
+        .send({ id: "call_2", status: "completed", recording_available: true })
+        .expect(200);
+      orchestrator.stopDiscovery();
+      await eventLog.flush();
+
+      const recorded = await eventLog.read("run_replay");
+      expect(recorded).toEqual(received);
+
+      const replayer = RunReplayer.fromEvents(recorded);
+      const exporter = new TreeExporter();
+      const comparable = (tree: ConversationTree) =>
+        exporter.buildReport(tree).nodes.map((node) => ({
+          ...node,
+          startedAt: undefined,
+          completedAt: undefined,
+          durationMs: undefined,
+        }));
+
+      expect(comparable(replayer.getTree())).toEqual(
+        comparable(orchestrator.getConversationTree())
+      );
+      expect(replayer.getTree().getTreeSummary()).toEqual(
+        orchestrator.getConversationTree().getTreeSummary()
+      );
+      expect(replayer.getConfig()?.maxDepth).toBe(3);
+      expect(replayer.getProgress()).toMatchObject({
+        activeCallCount: 0,
+        completedCallCount: 2,
+        failedCallCount: 0,
+        queueLength: 0,
+        isFinished: true,
+      });
+    });
+  });
+
+  test("should print the tree from events through the console visualizer", () => {
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const clearSpy = jest.spyOn(console, "clear").mockImplementation(() => {});
+    const visualizer = new ProgressVisualizer();
+    const unsubscribe = visualizer.subscribe(events);
+
+    const publish: DiscoveryEventPublisher = (type, payload) =>
+      events.publish("run_console", type, payload);
+    const tree = new ConversationTree(5, publish);
+    tree.initializeRoot("Root prompt", "call_1");
+    publish("CallStarted", { nodeId: "root", callId: "call_1", attempt: 1 });
+    expect(clearSpy).not.toHaveBeenCalled();
+
+    publish("CallCompleted", {
+      callId: "call_1",
+      text: "We install water heaters.",
+      turns: [],
+      confidence: 1,
+    });
+    publish("PathsIdentified", {
+      nodeId: "root",
+      analysis: { identifiedPaths: [], isTerminalState: true, confidence: 1 },
+      prompts: [],
+      queuedNodeIds: [],
+      collapsedPaths: [],
+    });
+
+    expect(clearSpy).toHaveBeenCalledTimes(1);
+    const output = logSpy.mock.calls.map((call) => String(call[0])).join("\n");
+    expect(output).toContain("We install water heaters.");
+    expect(output).toContain("Successfully Completed: 1");
+
+    unsubscribe();
+    logSpy.mockRestore();
+    clearSpy.mockRestore();
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  DomainPackLibrary,
+  UnknownDomainPackError,
+} from "../domains/domainPack.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { ThemeClassifier } from "../themes/themeClassifier.js";
+import { ConfigValidationError } from "../config/schema.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { FakeLLMClient } from "../llm/fakeLLMClient.js";
+import { proposeDomainPack } from "../llm/domainProposal.js";
+import {
+  createAnalyzer,
+  createTestOrchestrator,
+} from "./testHelpers.js";
+
+const PACK_YAML = `
+packs:
+  - id: veterinary
+    name: veterinary clinic
+    keywords: [vet, veterinary, pet]
+    services:
+      - id: vaccination
+        keywords: [vaccine, shots]
+    infoRequests:
+      - id: pet_name
+        keywords: ["pet's name"]
+    terminalPhrases: [give your pet a hug]
+    themes:
+      - id: boarding
+        keywords: [boarding, kennel]
+`;
+
+const proposedPack = {
+  id: "moving_company",
+  name: "moving company",
+  keywords: ["movers", "moving"],
+  services: [{ id: "packing", keywords: ["packing", "boxes"] }],
+  infoRequests: [{ id: "move_date", keywords: ["moving date"] }],
+  terminalPhrases: ["happy moving"],
+  themes: [{ id: "storage", keywords: ["storage"] }],
+};
+
+const noScenarios = JSON.stringify({ scenarios: [] });
+
+describe("DomainPackLibrary", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "domain-packs-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should detect the pack whose keywords appear most", () => {
+    const library = new DomainPackLibrary();
+
+    expect(
+      library.detect("Thanks for calling Bright Smile Dental, are you a new patient?")
+        ?.id
+    ).toBe("medical_scheduling");
+    expect(library.detect("Thanks for calling the careers line.")).toBeNull();
+    expect(library.has("general_business")).toBe(true);
+    expect(() => library.get("bakery")).toThrow(UnknownDomainPackError);
+  });
+
+  test("should load packs from files and use them for themes", async () => {
+    const filePath = path.join(directory, "packs.yaml");
+    await fs.writeFile(filePath, PACK_YAML, "utf-8");
+
+    const library = await DomainPackLibrary.fromFiles([filePath]);
+    const domain = new DomainContext(library);
+    domain.resolve(library.detect("Welcome to the pet clinic, your vet is in")!);
+
+    expect(domain.getPack().id).toBe("veterinary");
+    const classifier = new ThemeClassifier(domain);
+    expect(classifier.extractThemes("Ask about kennel pricing")).toEqual(
+      new Set(["boarding", "pricing"])
+    );
+    expect(domain.getRequestedInfo("What is your pet's name?")).toEqual([
+      "pet_name",
+    ]);
+    expect(domain.isTerminal("Give your pet a hug from us!")).toBe(true);
+  });
+
+  test("should point at invalid pack definitions", async () => {
+    const filePath = path.join(directory, "packs.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ packs: [{ ...proposedPack, services: undefined }] }),
+      "utf-8"
+    );
+
+    const error = await DomainPackLibrary.fromFiles([filePath]).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      { path: "packs[0].services", message: "is required" },
+    ]);
+  });
+});
+
+describe("ResponseAnalyzer domain packs", () => {
+  test("should ask the model for a pack when the business is unknown", async () => {
+    const llmClient = new FakeLLMClient([
+      JSON.stringify(proposedPack),
+      noScenarios,
+    ]);
+    const domain = new DomainContext();
+    const analyzer = new ResponseAnalyzer(llmClient, {
+      domain,
+      proposeUnknownDomains: true,
+    });
+
+    const result = await analyzer.analyzeResponse(
+      "Hi, you've reached Two Guys and a Truck. Do you need help with packing?"
+    );
+
+    expect(domain.getPack().id).toBe("moving_company");
+    expect(result.identifiedPaths.map((intent) => intent.goal)).toEqual([
+      "fully understand the packing offering and requirements",
+    ]);
+    expect(result.usage?.promptTokens).toBeGreaterThan(
+      llmClient.requests[1].messages
+        .map((message) => message.content)
+        .join(" ")
+        .split(/\s+/).length
+    );
+  });
+
+  test("should drop theme patterns from proposed packs", async () => {
+    const llmClient = new FakeLLMClient([
+      JSON.stringify({
+        ...proposedPack,
+        themes: [
+          {
+            id: "storage",
+            keywords: ["storage"],
+            patterns: ["(a+)+$", "(unit"],
+          },
+        ],
+      }),
+    ]);
+
+    const { pack } = await proposeDomainPack(llmClient, "Two Guys and a Truck");
+
+    expect(pack.id).toBe("moving_company");
+    expect(pack.themes).toEqual([{ id: "storage", keywords: ["storage"] }]);
+    expect(llmClient.requests).toHaveLength(1);
+  });
+
+  test("should fall back to the general pack without asking the model", async () => {
+    const llmClient = new FakeLLMClient(() => noScenarios);
+    const domain = new DomainContext();
+    const analyzer = new ResponseAnalyzer(llmClient, { domain });
+
+    await analyzer.analyzeResponse("Thanks for calling. How can I help?");
+
+    expect(domain.getPack().id).toBe("general_business");
+    expect(llmClient.requests).toHaveLength(1);
+  });
+});
+
+describe("DiscoveryOrchestrator domain packs", () => {
+  test("should tag paths with the configured pack's themes", async () => {
+    const analyzer = createAnalyzer({
+      identifiedPaths: [
+        {
+          persona: "a diner",
+          goal: "find a safe dish",
+          steps: ["Say you have a gluten allergy"],
+        },
+      ],
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+    const orchestrator = createTestOrchestrator(
+      {
+        domainPack: new DomainPackLibrary().get("restaurant"),
+      },
+      { responseAnalyzer: analyzer }
+    );
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "Welcome to Luigi's, how can I help?",
+      confidence: 1,
+      turns: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    const child = orchestrator
+      .getConversationTree()
+      .getAllNodes()
+      .find((node) => node.callId === "call_2");
+    expect(child?.exploredThemes).toEqual(new Set(["dietary_needs"]));
+    expect(orchestrator.getDiscoveryState()).toMatchObject({
+      domain: "restaurant",
+      activeThemes: ["dietary_needs"],
+    });
+  });
+});
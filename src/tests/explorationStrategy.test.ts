@@ -0,0 +1,181 @@
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { ConversationTree } from "../discovery/conversationTree.js";
+import {
+  ExplorationContext,
+  QueuedCall,
+  createExplorationStrategy,
+} from "../orchestrator/explorationStrategy.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+import {
+  createAnalyzer,
+  createStartCall,
+  createTestOrchestrator,
+} from "./testHelpers.js";
+
+function intent(goal: string): CallerIntent {
+  return { persona: "a homeowner", goal, steps: [] };
+}
+
+function queued(nodeId: string, parentId: string, goal: string): QueuedCall {
+  return {
+    nodeId,
+    parentId,
+    prompt: `You are a homeowner who wants to ${goal}.`,
+    intent: intent(goal),
+    dialFailures: 0,
+  };
+}
+
+function complete(
+  tree: ConversationTree,
+  nodeId: string,
+  prompts: string[],
+  confidence = 0.8
+) {
+  tree.updateNodeWithResponse(nodeId, `Response for ${nodeId}`, prompts);
+  tree.recordAnalysis(nodeId, {
+    identifiedPaths: [],
+    isTerminalState: false,
+    confidence,
+  });
+}
+
+describe("ExplorationStrategy", () => {
+  let tree: ConversationTree;
+  let context: () => ExplorationContext;
+
+  // root
+  // ├── a (completed, two children queued)
+  // └── b (completed, one child queued)
+  beforeEach(() => {
+    tree = new ConversationTree(5);
+    tree.initializeRoot("Root prompt", "call_root", intent("learn services"));
+    complete(tree, "root", ["a", "b", "c"]);
+    tree.addNode("root", "Schedule a repair visit", "call_a", {
+      nodeId: "a",
+      intent: intent("schedule repair visit"),
+    });
+    tree.addNode("root", "Request a price quote", "call_b", {
+      nodeId: "b",
+      intent: intent("request price quote"),
+    });
+    complete(tree, "a", ["a1", "a2"], 0.9);
+    complete(tree, "b", ["b1"], 0.4);
+
+    context = () => ({
+      tree,
+      expandableNodes: tree.getNodesWithUnexploredPaths(),
+    });
+  });
+
+  const queue = () => [
+    queued("c", "root", "cancel existing appointment"),
+    queued("a1", "a", "schedule repair visit weekend"),
+    queued("b1", "b", "negotiate discount financing"),
+    queued("a2", "a", "schedule repair visit urgently"),
+  ];
+
+  test("bfs should dial the shallowest, earliest queued call", () => {
+    const strategy = createExplorationStrategy("bfs");
+
+    expect(strategy.selectNext(queue(), context())?.nodeId).toBe("c");
+  });
+
+  test("dfs should dial the deepest, most recently queued call", () => {
+    const strategy = createExplorationStrategy("dfs");
+
+    expect(strategy.selectNext(queue(), context())?.nodeId).toBe("a2");
+  });
+
+  test("best-first should weigh parent confidence and intent novelty", () => {
+    const strategy = createExplorationStrategy("best-first");
+
+    expect(strategy.selectNext(queue(), context())?.nodeId).toBe("c");
+    // b1's intent is mostly new, which outweighs the lower confidence in
+    // its parent's analysis
+    expect(
+      strategy.selectNext(
+        queue().filter((call) => call.nodeId !== "c"),
+        context()
+      )?.nodeId
+    ).toBe("b1");
+  });
+
+  test("coverage should favor parents with the fewest explored children", () => {
+    const strategy = createExplorationStrategy("coverage");
+
+    expect(context().expandableNodes.map((node) => node.id)).toEqual([
+      "a",
+      "b",
+      "root",
+    ]);
+    expect(strategy.selectNext(queue(), context())?.nodeId).toBe("a1");
+  });
+
+  test("should rank calls that failed to dial like any other", () => {
+    const strategy = createExplorationStrategy("bfs");
+    const calls = queue();
+    calls[0].dialFailures = 2;
+
+    expect(strategy.selectNext(calls, context())?.nodeId).toBe("c");
+  });
+
+  test("best-first should count a persona variant of a dialed intent as novel", () => {
+    const strategy = createExplorationStrategy("best-first");
+    const repeat = queued("c", "root", "schedule repair visit");
+    const variant: QueuedCall = {
+      ...queued("d", "root", "schedule repair visit"),
+      intent: {
+        ...intent("schedule repair visit"),
+        callerPersona: {
+          id: "angry",
+          description: "a furious landlord",
+          behaviors: ["Threaten to leave a bad review"],
+        },
+      },
+    };
+
+    expect(strategy.selectNext([repeat, variant], context())?.nodeId).toBe(
+      "d"
+    );
+  });
+
+  test("should reject unknown strategies", () => {
+    expect(() =>
+      createExplorationStrategy("random" as unknown as "bfs")
+    ).toThrow("Unknown exploration strategy: random");
+  });
+});
+
+describe("DiscoveryOrchestrator exploration", () => {
+  test("should drop queued calls whose parent cannot take more children", async () => {
+    const startCall = createStartCall();
+    let pathCounter = 0;
+    const analyzer = createAnalyzer(() => ({
+      identifiedPaths: [intent(`follow up number ${++pathCounter}`)],
+      isTerminalState: false,
+      confidence: 0.8,
+    }));
+    const orchestrator = createTestOrchestrator(
+      {
+        maxDepth: 2,
+        explorationStrategy: "bfs",
+      },
+      { responseAnalyzer: analyzer },
+      startCall
+    );
+    const transcript = { text: "Hello", confidence: 1, turns: [] };
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", transcript);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await orchestrator.handleCallCompleted("call_2", transcript);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    // The second node is at the last level, so its path is never dialed
+    expect(startCall).toHaveBeenCalledTimes(2);
+    expect(orchestrator.getDiscoveryState().queueLength).toBe(0);
+    expect(orchestrator.getConversationTree().getAllNodes()).toHaveLength(2);
+  });
+});
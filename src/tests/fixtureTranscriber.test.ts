@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  FixtureTranscriber,
+  GENERATED_FIXTURES_DIR,
+} from "../transcription/fixtureTranscriber.js";
+import { createTranscriber } from "../transcription/createTranscriber.js";
+import { TranscriptionService } from "../transcription/transcriptionService.js";
+
+describe("FixtureTranscriber", () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  test("should return transcripts saved for a recording hash", async () => {
+    const recording = Buffer.from("recording one");
+    const turns = [
+      {
+        speaker: 0,
+        role: "agent" as const,
+        start: 0,
+        end: 1.2,
+        text: "Thanks for calling",
+        confidence: 0.9,
+      },
+    ];
+    await FixtureTranscriber.saveFixture(fixturesDir, recording, {
+      text: "Thanks for calling",
+      confidence: 0.9,
+      turns,
+    });
+
+    const transcriber = new FixtureTranscriber(fixturesDir);
+
+    await expect(transcriber.transcribeAudio(recording)).resolves.toEqual({
+      text: "Thanks for calling",
+      confidence: 0.9,
+      turns,
+    });
+  });
+
+  test("should default turns for undiarized fixture files", async () => {
+    const recording = Buffer.from("legacy recording");
+    await fs.writeFile(
+      path.join(
+        fixturesDir,
+        `${FixtureTranscriber.hashRecording(recording)}.json`
+      ),
+      JSON.stringify({ text: "Legacy", confidence: 1 })
+    );
+
+    const result = await new FixtureTranscriber(fixturesDir).transcribeAudio(
+      recording
+    );
+
+    expect(result.turns).toEqual([]);
+  });
+
+  test("should read fixtures from the generated subdirectory", async () => {
+    const recording = Buffer.from("generated recording");
+    await FixtureTranscriber.saveFixture(
+      path.join(fixturesDir, GENERATED_FIXTURES_DIR),
+      recording,
+      { text: "Generated", confidence: 1, turns: [] }
+    );
+
+    const result = await new FixtureTranscriber(fixturesDir).transcribeAudio(
+      recording
+    );
+
+    expect(result.text).toBe("Generated");
+  });
+
+  test("should prefer in-memory fixtures", async () => {
+    const transcriber = new FixtureTranscriber();
+    const recording = Buffer.from("recording two");
+    transcriber.addFixture(recording, {
+      text: "In memory",
+      confidence: 1,
+      turns: [],
+    });
+
+    const result = await transcriber.transcribeAudio(recording);
+
+    expect(result.text).toBe("In memory");
+  });
+
+  test("should fail for recordings without a fixture", async () => {
+    const transcriber = new FixtureTranscriber(fixturesDir);
+    const recording = Buffer.from("unknown");
+
+    await expect(transcriber.transcribeAudio(recording)).rejects.toThrow(
+      `no fixture for recording ${FixtureTranscriber.hashRecording(recording)}`
+    );
+  });
+});
+
+describe("createTranscriber", () => {
+  test("should select the provider from config", () => {
+    expect(
+      createTranscriber({ provider: "fixture", fixturesDir: "fixtures" })
+    ).toBeInstanceOf(FixtureTranscriber);
+    expect(
+      createTranscriber({ provider: "deepgram", deepgramApiKey: "key" })
+    ).toBeInstanceOf(TranscriptionService);
+  });
+
+  test("should require a Deepgram key for the Deepgram provider", () => {
+    expect(() => createTranscriber({ provider: "deepgram" })).toThrow(
+      "Deepgram API key is required for transcription"
+    );
+  });
+});
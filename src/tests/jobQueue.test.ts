@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeEach, jest } from "@jest/globals";
+import request from "supertest";
+import express from "express";
+import { Job, JobQueue } from "../jobs/jobQueue.js";
+import { JobsHandler } from "../jobs/jobsHandler.js";
+import {
+  CallEventHandler,
+  WebhookHandler,
+  WebhookJob,
+} from "../webhook/index.js";
+import { CallManager } from "../call-manager/client.js";
+import { Transcriber } from "../transcription/transcriber.js";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe("JobQueue", () => {
+  test("should run at most `concurrency` jobs at a time", async () => {
+    const queue = new JobQueue<number>({ concurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let maxRunning = 0;
+    queue.process(async (job) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await gates[job.payload].promise;
+      running--;
+    });
+
+    [0, 1, 2].forEach((index) => queue.enqueue("work", index));
+    expect(queue.getStats()).toMatchObject({ running: 2, queued: 1 });
+
+    gates.forEach((gate) => gate.resolve());
+    await queue.onIdle();
+
+    expect(maxRunning).toBe(2);
+    expect(queue.getStats()).toMatchObject({ completed: 3, running: 0 });
+  });
+
+  test("should retry with backoff and dead-letter jobs that keep failing", async () => {
+    const queue = new JobQueue<string>({ maxAttempts: 3, backoffMs: 5 });
+    const attempts: number[] = [];
+    const deadLetters: Job<string>[] = [];
+    queue.process(
+      async (job) => {
+        attempts.push(Date.now());
+        if (job.payload === "broken" || job.attempts < 2) {
+          throw new Error(`Attempt ${job.attempts} failed`);
+        }
+      },
+      (job) => {
+        deadLetters.push(job);
+      }
+    );
+
+    const flaky = queue.enqueue("work", "flaky");
+    const broken = queue.enqueue("work", "broken");
+    await queue.onIdle();
+
+    expect(flaky).toMatchObject({ status: "completed", attempts: 2 });
+    expect(broken).toMatchObject({
+      status: "dead",
+      attempts: 3,
+      lastError: "Attempt 3 failed",
+    });
+    expect(deadLetters).toEqual([broken]);
+    expect(queue.getDeadLetters()).toEqual([broken]);
+    expect(attempts).toHaveLength(5);
+  });
+
+  test("should only keep the most recent completed jobs", async () => {
+    const queue = new JobQueue<number>({ retainCompleted: 2 });
+    queue.process(async () => undefined);
+
+    const jobs = [1, 2, 3].map((index) => queue.enqueue("work", index));
+    await queue.onIdle();
+
+    expect(queue.getJob(jobs[0].id)).toBeUndefined();
+    expect(queue.getJobs().map((job) => job.payload)).toEqual([2, 3]);
+  });
+});
+
+describe("WebhookHandler with a job queue", () => {
+  let app: express.Express;
+  let jobs: JobQueue<WebhookJob>;
+  let retrieveRecording: jest.Mock<CallManager["retrieveRecording"]>;
+  let handleCallCompleted: jest.Mock<CallEventHandler["handleCallCompleted"]>;
+  let handleCallFailed: jest.Mock<CallEventHandler["handleCallFailed"]>;
+
+  beforeEach(() => {
+    jobs = new JobQueue<WebhookJob>({ maxAttempts: 2, backoffMs: 1 });
+    retrieveRecording = jest.fn<CallManager["retrieveRecording"]>();
+    handleCallCompleted = jest
+      .fn<CallEventHandler["handleCallCompleted"]>()
+      .mockResolvedValue();
+    handleCallFailed = jest
+      .fn<CallEventHandler["handleCallFailed"]>()
+      .mockResolvedValue();
+    const transcriber: Transcriber = {
+      transcribeAudio: async () => ({ text: "Hi", confidence: 1, turns: [] }),
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use(
+      "/webhook",
+      new WebhookHandler(
+        { retrieveRecording } as unknown as CallManager,
+        { handleCallCompleted, handleCallFailed },
+        transcriber,
+        { jobs }
+      ).getRouter()
+    );
+    app.use("/jobs", new JobsHandler(jobs).getRouter());
+  });
+
+  test("should acknowledge the webhook before the recording is processed", async () => {
+    const download = deferred();
+    retrieveRecording.mockImplementation(async () => {
+      await download.promise;
+      return Buffer.from("audio");
+    });
+
+    await request(app)
+      .post("/webhook/callback")
+      .send({ id: "call_1", status: "completed", recording_available: true })
+      .expect(200)
+      .expect({ received: true });
+    expect(handleCallCompleted).not.toHaveBeenCalled();
+
+    const { body } = await request(app)
+      .get("/jobs?status=running")
+      .expect(200);
+    expect(body.stats.running).toBe(1);
+    expect(body.jobs[0].payload).toEqual({
+      type: "process-recording",
+      callId: "call_1",
+    });
+
+    download.resolve();
+    await jobs.onIdle();
+
+    expect(handleCallCompleted).toHaveBeenCalledTimes(1);
+    await request(app)
+      .get(`/jobs/${body.jobs[0].id}`)
+      .expect(200)
+      .expect((response) => expect(response.body.status).toBe("completed"));
+  });
+
+  test("should retry the download and complete the call once it succeeds", async () => {
+    retrieveRecording
+      .mockRejectedValueOnce(new Error("Timed out"))
+      .mockResolvedValue(Buffer.from("audio"));
+
+    await request(app)
+      .post("/webhook/callback")
+      .send({ id: "call_1", status: "completed", recording_available: true })
+      .expect(200);
+    await jobs.onIdle();
+
+    expect(retrieveRecording).toHaveBeenCalledTimes(2);
+    expect(handleCallCompleted).toHaveBeenCalledTimes(1);
+    expect(handleCallFailed).not.toHaveBeenCalled();
+  });
+
+  test("should fail the call once its recording job is dead-lettered", async () => {
+    retrieveRecording.mockRejectedValue(new Error("Not found"));
+
+    await request(app)
+      .post("/webhook/callback")
+      .send({ id: "call_1", status: "completed", recording_available: true })
+      .expect(200);
+    await jobs.onIdle();
+
+    expect(retrieveRecording).toHaveBeenCalledTimes(2);
+    expect(handleCallCompleted).not.toHaveBeenCalled();
+    expect(handleCallFailed).toHaveBeenCalledWith("call_1");
+
+    const { body } = await request(app)
+      .get("/jobs?status=dead")
+      .expect(200);
+    expect(body.jobs).toHaveLength(1);
+    expect(body.jobs[0].lastError).toBe("Not found");
+  });
+
+  test("should reject unknown job ids and statuses", async () => {
+    await request(app).get("/jobs/job_missing").expect(404);
+    await request(app).get("/jobs?status=stuck").expect(400);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import express from "express";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { MockVoiceAgentServer } from "../mock-agent/mockAgentServer.js";
+import { DEFAULT_AGENT_SCRIPT, runScript } from "../mock-agent/agentScript.js";
+import { CallManager } from "../call-manager/client.js";
+import { WebhookHandler } from "../webhook/index.js";
+import { WebhookSignature, captureRawBody } from "../webhook/signature.js";
+import { DiscoveryOrchestrator } from "../orchestrator/discoveryOrchestrator.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { FixtureTranscriber } from "../transcription/fixtureTranscriber.js";
+import {
+  TranscriptionResult,
+  getAgentText,
+} from "../transcription/transcriber.js";
+import { waitFor } from "./testHelpers.js";
+
+describe("runScript", () => {
+  test("should follow transitions matching the caller prompt", () => {
+    const turns = runScript(
+      DEFAULT_AGENT_SCRIPT,
+      "You have an emergency leak and are willing to provide your name and address."
+    );
+
+    expect(turns[0].speaker).toBe("agent");
+    expect(turns.map((turn) => turn.text)).toContain(
+      DEFAULT_AGENT_SCRIPT.states.dispatch.utterance
+    );
+    expect(turns[turns.length - 1].text).toBe(DEFAULT_AGENT_SCRIPT.closing);
+  });
+
+  test("should stay on the greeting when nothing matches", () => {
+    const turns = runScript(DEFAULT_AGENT_SCRIPT, "Say hello");
+
+    expect(turns.filter((turn) => turn.speaker === "caller")).toHaveLength(0);
+  });
+});
+
+describe("MockVoiceAgentServer", () => {
+  let mockAgent: MockVoiceAgentServer;
+  let mockPort: number;
+  let appServer: HttpServer;
+  let orchestrator: DiscoveryOrchestrator;
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), "mock-fixtures-"));
+    mockAgent = new MockVoiceAgentServer({
+      apiToken: "mock_token",
+      eventDelayMs: 10,
+      fixturesDir,
+      webhookSignature: new WebhookSignature({ secret: "mock_secret" }),
+    });
+    mockPort = await mockAgent.start();
+  });
+
+  afterEach(async () => {
+    orchestrator?.stopDiscovery();
+    await mockAgent.stop();
+    await new Promise((resolve) => appServer?.close(resolve));
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  test("should run a discovery call end-to-end without network access", async () => {
+    const callManager = new CallManager(
+      `http://127.0.0.1:${mockPort}/api/rest/exercise`,
+      "mock_token"
+    );
+
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    appServer = await new Promise<HttpServer>((resolve) => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    const appPort = (appServer.address() as AddressInfo).port;
+
+    const analyzedResponses: string[] = [];
+    const analyzer = {
+      analyzeTranscript: async (transcription: TranscriptionResult) => {
+        analyzedResponses.push(getAgentText(transcription));
+        return { identifiedPaths: [], isTerminalState: true, confidence: 1 };
+      },
+    } as unknown as ResponseAnalyzer;
+
+    orchestrator = new DiscoveryOrchestrator(
+      callManager,
+      {
+        phoneNumber: "+15555550100",
+        webhookUrl: `http://127.0.0.1:${appPort}/webhook/callback`,
+        minTimeBetweenCalls: 0,
+      },
+      { responseAnalyzer: analyzer }
+    );
+
+    const webhookHandler = new WebhookHandler(
+      callManager,
+      orchestrator,
+      new FixtureTranscriber(fixturesDir),
+      { signature: new WebhookSignature({ secret: "mock_secret" }) }
+    );
+    app.use("/webhook", webhookHandler.getRouter());
+
+    await orchestrator.startDiscovery();
+    await waitFor(
+      () => orchestrator.getDiscoveryState().completedCallCount > 0,
+      5000
+    );
+
+    const [call] = mockAgent.getCalls();
+    expect(call.prompt).toContain("first call to this business");
+    expect(analyzedResponses[0]).toContain(
+      DEFAULT_AGENT_SCRIPT.states.greeting.utterance
+    );
+
+    expect(analyzedResponses[0]).not.toContain("Caller:");
+
+    const root = orchestrator.getConversationTree().getNode("root");
+    expect(root?.status).toBe("completed");
+    expect(root?.callId).toBe(call.id);
+    expect(root?.transcript?.[0]).toMatchObject({ speaker: 0, role: "agent" });
+  });
+
+  test("should reject start-call requests with the wrong token", async () => {
+    const callManager = new CallManager(
+      `http://127.0.0.1:${mockPort}/api/rest/exercise`,
+      "wrong_token"
+    );
+
+    await expect(
+      callManager.startCall("+15555550100", "prompt", "http://127.0.0.1:1/hook")
+    ).rejects.toThrow("Request failed with status code 401");
+  });
+});
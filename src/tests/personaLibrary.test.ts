@@ -0,0 +1,192 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  PersonaLibrary,
+  UnknownPersonaError,
+  applyPersona,
+} from "../personas/personaLibrary.js";
+import { ConfigValidationError } from "../config/schema.js";
+import { CallerIntent, PromptBuilder } from "../prompts/promptBuilder.js";
+import {
+  createAnalyzer,
+  createStartCall,
+  createTestOrchestrator,
+} from "./testHelpers.js";
+
+const PERSONA_YAML = `
+personas:
+  - id: angry
+    description: a furious landlord
+    behaviors:
+      - Threaten to leave a bad review
+  - id: whisperer
+    description: a caller on a bad line
+    behaviors:
+      - Speak quietly and drop out mid-sentence
+`;
+
+const furnaceVisit: CallerIntent = {
+  persona: "a homeowner",
+  goal: "get the furnace looked at today",
+  steps: ["Say the furnace stopped working"],
+};
+
+describe("PersonaLibrary", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "personas-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should add and override personas from files", async () => {
+    const filePath = path.join(directory, "personas.yaml");
+    await fs.writeFile(filePath, PERSONA_YAML, "utf-8");
+
+    const library = await PersonaLibrary.fromFiles([filePath]);
+
+    expect(library.get("angry").description).toBe("a furious landlord");
+    expect(library.get("whisperer").behaviors).toHaveLength(1);
+    expect(library.has("elderly")).toBe(true);
+    expect(() => library.get("robot")).toThrow(UnknownPersonaError);
+  });
+
+  test("should point at invalid persona definitions", async () => {
+    const filePath = path.join(directory, "personas.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ personas: [{ id: "shy", description: "a shy caller" }] }),
+      "utf-8"
+    );
+
+    const error = await PersonaLibrary.fromFiles([filePath]).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      { path: "personas[0].behaviors", message: "is required" },
+    ]);
+  });
+
+  test("should play the intent's steps as the persona", () => {
+    const persona = new PersonaLibrary().get("interrupter");
+    const prompt = new PromptBuilder().buildSystemPrompt([
+      applyPersona(furnaceVisit, persona),
+    ]);
+
+    expect(prompt).toBe(
+      [
+        "You are a homeowner.",
+        "Play the caller as an impatient caller in a hurry. Throughout the call:",
+        ...persona.behaviors.map((behavior) => `- ${behavior}`),
+        "When the agent answers:",
+        "1. Say the furnace stopped working",
+        "Your goal is to get the furnace looked at today.",
+      ].join("\n")
+    );
+  });
+});
+
+describe("DiscoveryOrchestrator caller personas", () => {
+  test("should try each intent as every persona and keep a branch's persona", async () => {
+    const startCall = createStartCall();
+    const analyzer = createAnalyzer({
+      identifiedPaths: [furnaceVisit],
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+    const library = new PersonaLibrary();
+    const orchestrator = createTestOrchestrator(
+      {
+        explorationStrategy: "bfs",
+        callerPersonas: [library.get("angry"), library.get("elderly")],
+      },
+      { responseAnalyzer: analyzer },
+      startCall
+    );
+    const transcript = { text: "How can I help?", confidence: 1, turns: [] };
+    const tree = orchestrator.getConversationTree();
+    const personaOf = (callId: string) =>
+      tree.getAllNodes().find((node) => node.callId === callId)?.personaId;
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", transcript);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(startCall).toHaveBeenCalledTimes(4);
+    expect(["call_2", "call_3", "call_4"].map(personaOf)).toEqual([
+      undefined,
+      "angry",
+      "elderly",
+    ]);
+
+    await orchestrator.handleCallCompleted("call_3", {
+      ...transcript,
+      text: "Calm down, sir, I can book that for you.",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    // The angry branch only continues as the angry caller
+    expect(startCall).toHaveBeenCalledTimes(5);
+    expect(personaOf("call_5")).toBe("angry");
+    expect(startCall.mock.calls[4][1]).toContain(
+      "Play the caller as an angry customer"
+    );
+  });
+
+  test("should give persona variants their own children slots", async () => {
+    const startCall = createStartCall();
+    const analyzer = createAnalyzer({
+      identifiedPaths: [
+        ["book a furnace repair", "Say the furnace stopped working"],
+        ["ask about water heater prices", "Compare tankless and tank models"],
+        ["cancel a duct cleaning", "Give the booking reference number"],
+        ["complain about a late technician", "Demand a refund for the delay"],
+        ["sign up for the maintenance plan", "Ask what yearly visits include"],
+      ].map(([goal, step]) => ({
+        persona: "a homeowner",
+        goal,
+        steps: [step],
+      })),
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+    const orchestrator = createTestOrchestrator(
+      {
+        explorationStrategy: "bfs",
+        maxConcurrentCalls: 20,
+        callerPersonas: [new PersonaLibrary().get("angry")],
+      },
+      { responseAnalyzer: analyzer },
+      startCall
+    );
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "How can I help?",
+      confidence: 1,
+      turns: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    // Five plain calls and five as the angry caller
+    const nodes = orchestrator.getConversationTree().getAllNodes();
+    const angryNodes = nodes.filter((node) => node.personaId === "angry");
+    expect(startCall).toHaveBeenCalledTimes(11);
+    expect(angryNodes).toHaveLength(5);
+  });
+});
@@ -41,6 +41,7 @@ describe("ProgressVisualizer", () => {
       activeCallCount: 1,
       completedCallCount: 2,
       failedCallCount: 0,
+      timedOutCallCount: 0,
       lastUpdateTimestamp: new Date(),
     };
 
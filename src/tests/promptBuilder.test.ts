@@ -0,0 +1,89 @@
+import { describe, test, expect } from "@jest/globals";
+import { CallerIntent, PromptBuilder } from "../prompts/promptBuilder.js";
+import { ConversationTree } from "../discovery/conversationTree.js";
+
+const acIssue: CallerIntent = {
+  persona: "a homeowner whose AC stopped cooling",
+  goal: "get the AC repaired",
+  steps: ["Say you have an AC issue"],
+};
+
+const giveAddress: CallerIntent = {
+  persona: "a homeowner willing to share details",
+  goal: "see what happens after giving an address",
+  steps: ["Give your address when asked"],
+};
+
+const weekendAvailability: CallerIntent = {
+  persona: "a homeowner who works weekdays",
+  goal: "book a weekend repair visit",
+  steps: ["Ask about weekend availability"],
+  expectedAgentBehavior: "offers a weekend slot",
+};
+
+describe("PromptBuilder", () => {
+  const builder = new PromptBuilder();
+
+  test("should build a plain prompt for a single intent", () => {
+    expect(builder.buildSystemPrompt([acIssue])).toBe(
+      `You are a homeowner whose AC stopped cooling.
+When the agent answers:
+1. Say you have an AC issue
+Your goal is to get the AC repaired.`
+    );
+  });
+
+  test("should replay earlier steps before the current intent's steps", () => {
+    const prompt = builder.buildSystemPrompt([
+      acIssue,
+      giveAddress,
+      weekendAvailability,
+    ]);
+
+    expect(prompt).toContain("You are a homeowner who works weekdays.");
+    expect(prompt).toContain(
+      "1. Say you have an AC issue\n2. Give your address when asked\nThen continue with:\n3. Ask about weekend availability"
+    );
+    expect(prompt).toContain("Your goal is to book a weekend repair visit.");
+    expect(prompt).toContain("Expected agent behavior: offers a weekend slot.");
+  });
+
+  test("should describe a path as a sequence of steps", () => {
+    expect(
+      builder.describePath([acIssue, giveAddress, weekendAvailability])
+    ).toBe(
+      "Say you have an AC issue, then give your address when asked, then ask about weekend availability"
+    );
+  });
+
+  test("should reject an empty path", () => {
+    expect(() => builder.buildSystemPrompt([])).toThrow(
+      "Cannot build a prompt for an empty intent path"
+    );
+  });
+});
+
+describe("ConversationTree intent paths", () => {
+  test("should extend the parent's intent path for each child", () => {
+    const tree = new ConversationTree(5);
+    const root = tree.initializeRoot("Root prompt", "call_1", acIssue);
+    const child = tree.addNode(root.id, "Child prompt", "call_2", {
+      intent: giveAddress,
+    });
+    const grandchild = tree.addNode(child.id, "Grandchild prompt", "call_3", {
+      intent: weekendAvailability,
+    });
+
+    expect(grandchild.intent).toBe(weekendAvailability);
+    expect(grandchild.intentPath).toEqual([
+      acIssue,
+      giveAddress,
+      weekendAvailability,
+    ]);
+
+    const restored = ConversationTree.fromSnapshot(
+      JSON.parse(JSON.stringify(tree.toSnapshot()))
+    );
+    expect(restored.getNode(grandchild.id)?.intentPath).toHaveLength(3);
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { ConversationTree } from "../discovery/conversationTree.js";
+import {
+  RegressionSuite,
+  RegressionSuiteGenerator,
+  loadRegressionSuite,
+} from "../regression/regressionSuite.js";
+import { RegressionRunner } from "../regression/regressionRunner.js";
+import { CallManager } from "../call-manager/client.js";
+import { ConfigValidationError } from "../config/schema.js";
+
+function buildTree(): ConversationTree {
+  const tree = new ConversationTree(3);
+  tree.initializeRoot("You are a homeowner calling a business.", "call_1");
+  tree.updateNodeWithResponse(
+    "root",
+    "Thanks for calling Cool Air. Can I get your full name?"
+  );
+
+  tree.addNode("root", "You want to book an air conditioner tune-up.", "call_2", {
+    nodeId: "booking",
+    intent: { persona: "a homeowner", goal: "book a tune-up", steps: [] },
+  });
+  tree.addNode("root", "You ask about ductless mini splits.", "call_3", {
+    nodeId: "dropped",
+  });
+  tree.updateNodeWithResponse(
+    "booking",
+    "We can send a technician Tuesday. What is your phone number? Goodbye!"
+  );
+  tree.recordAnalysis("booking", {
+    identifiedPaths: [],
+    isTerminalState: true,
+    confidence: 0.9,
+  });
+  tree.markNodeFailed("dropped");
+
+  return tree;
+}
+
+describe("RegressionSuiteGenerator", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "regression-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should turn each completed leaf into a case", () => {
+    const suite = new RegressionSuiteGenerator().generate(buildTree(), {
+      name: "Cool Air",
+      phoneNumber: "+15555550100",
+      sourceRunId: "run_1",
+    });
+
+    expect(suite.cases).toHaveLength(1);
+    expect(suite.cases[0]).toMatchObject({
+      id: "booking",
+      name: "book a tune-up",
+      callerScript: "You want to book an air conditioner tune-up.",
+      sourceCallId: "call_2",
+    });
+    expect(
+      suite.cases[0].expectations.map(({ type, value }) => [type, value])
+    ).toEqual([
+      ["asks_for", "phone"],
+      ["ends_call", "true"],
+      [
+        "similar_to",
+        "We can send a technician Tuesday. What is your phone number? Goodbye!",
+      ],
+    ]);
+  });
+
+  test("should load a saved suite and point at invalid cases", async () => {
+    const generator = new RegressionSuiteGenerator();
+    const suite = generator.generate(buildTree(), {
+      name: "Cool Air",
+      phoneNumber: "+15555550100",
+    });
+    const yamlPath = path.join(directory, "suite.yaml");
+    await generator.save(suite, yamlPath);
+
+    expect(await loadRegressionSuite(yamlPath)).toEqual(
+      JSON.parse(JSON.stringify(suite))
+    );
+
+    const jsonPath = path.join(directory, "broken.json");
+    await generator.save(
+      {
+        ...suite,
+        cases: [{ ...suite.cases[0], expectations: [] }],
+      },
+      jsonPath
+    );
+    const error = await loadRegressionSuite(jsonPath).catch(
+      (caught) => caught
+    );
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      {
+        path: "cases[0].expectations",
+        message: "must have at least 1 item(s)",
+      },
+    ]);
+  });
+});
+
+describe("RegressionRunner", () => {
+  test("should replay each case and grade the new transcripts", async () => {
+    const suite: RegressionSuite = {
+      version: 1,
+      name: "Cool Air",
+      generatedAt: new Date().toISOString(),
+      phoneNumber: "+15555550100",
+      domain: "general_business",
+      similarityThreshold: 0.3,
+      cases: ["booking", "pricing", "hours"].map((id) => ({
+        id,
+        name: id,
+        callerScript: `You ask about ${id}.`,
+        recordedTranscript: "We can send a technician on Tuesday.",
+        expectations: [
+          {
+            type: "asks_for",
+            value: "phone",
+            keywords: ["phone number"],
+            description: "asks for the caller's phone",
+          },
+          {
+            type: "similar_to",
+            value: "We can send a technician on Tuesday.",
+            description: "responds like the recorded call",
+          },
+        ],
+      })),
+    };
+    const responses = [
+      "We can send a technician on Tuesday. What is your phone number?",
+      "We can send a technician on Tuesday.",
+    ];
+
+    let callCounter = 0;
+    // Outcomes arrive through the webhook after the call has been placed
+    const startCall = jest
+      .fn<CallManager["startCall"]>()
+      .mockImplementation(async () => {
+        const callId = `call_${++callCounter}`;
+        const response = responses[callCounter - 1];
+        setTimeout(() => {
+          if (response) {
+            runner.handleCallCompleted(callId, {
+              text: response,
+              confidence: 1,
+              turns: [],
+            });
+          } else {
+            runner.handleCallFailed(callId);
+          }
+        }, 0);
+        return callId;
+      });
+    const runner = new RegressionRunner(
+      { startCall } as unknown as CallManager,
+      {
+        webhookUrl: "https://example.com/webhook/callback",
+        phoneNumber: "+15555550199",
+      }
+    );
+
+    const report = await runner.run(suite);
+
+    expect(startCall).toHaveBeenCalledWith(
+      "+15555550199",
+      "You ask about booking.",
+      "https://example.com/webhook/callback"
+    );
+    expect(report).toMatchObject({ passed: 1, failed: 1, errored: 1 });
+    expect(report.cases.map((result) => result.status)).toEqual([
+      "passed",
+      "failed",
+      "error",
+    ]);
+    expect(report.cases[1].results[0]).toMatchObject({
+      passed: false,
+      detail: "no matching phrase",
+    });
+    expect(report.cases[2]).toMatchObject({
+      callId: "call_3",
+      error: "Call failed",
+    });
+  });
+});
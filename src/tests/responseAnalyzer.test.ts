@@ -1,21 +1,33 @@
 jest.mock("../utils/logger.js");
 
-process.env.OPENAI_API_KEY = "test-api-key";
-
-jest.mock("../utils/openai.js", () => ({
-  generateResponses: jest
-    .fn()
-    .mockResolvedValue(["Generated prompt 1", "Generated prompt 2"]),
-}));
-
 import { describe, test, expect, beforeEach } from "@jest/globals";
 import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { FakeLLMClient } from "../llm/fakeLLMClient.js";
+
+const generatedScenarios = JSON.stringify({
+  scenarios: [
+    {
+      persona: "a homeowner with a broken AC",
+      goal: "book an AC repair",
+      steps: ["Describe the AC problem", "Ask for the earliest appointment"],
+      expectedAgentBehavior: "offers an appointment",
+    },
+    {
+      persona: "a landlord",
+      goal: "ask about maintenance plans",
+      steps: ["Ask about maintenance plans for rental properties"],
+      expectedAgentBehavior: "explains the maintenance plans",
+    },
+  ],
+});
 
 describe("ResponseAnalyzer", () => {
   let analyzer: ResponseAnalyzer;
+  let llmClient: FakeLLMClient;
 
   beforeEach(() => {
-    analyzer = new ResponseAnalyzer();
+    llmClient = new FakeLLMClient(() => generatedScenarios);
+    analyzer = new ResponseAnalyzer(llmClient);
   });
 
   test("should analyze response and generate identified paths", async () => {
@@ -31,8 +43,41 @@ describe("ResponseAnalyzer", () => {
     expect(analysisResult.confidence).toBeGreaterThan(0);
   });
 
+  test("should turn generated scenarios into caller intents", async () => {
+    const analysisResult = await analyzer.analyzeResponse(
+      "Thanks for calling. How can I help?"
+    );
+
+    expect(analysisResult.identifiedPaths).toContainEqual({
+      persona: "a homeowner with a broken AC",
+      goal: "book an AC repair",
+      steps: ["Describe the AC problem", "Ask for the earliest appointment"],
+      expectedAgentBehavior: "offers an appointment",
+    });
+    expect(llmClient.requests).toHaveLength(1);
+  });
+
+  test("should ask for scenarios that continue the caller's path", async () => {
+    await analyzer.analyzeResponse("What is the address of the property?", [
+      {
+        persona: "a homeowner",
+        goal: "get the AC fixed",
+        steps: ["Say your AC stopped cooling"],
+      },
+    ]);
+
+    const userMessage = llmClient.requests[0].messages[1].content;
+    expect(userMessage).toContain(
+      "To reach this point the caller did the following: Say your AC stopped cooling."
+    );
+    expect(userMessage).toContain("do not repeat earlier steps");
+  });
+
   test("should detect terminal state when response includes goodbye", async () => {
     const response = "Thank you for calling. Goodbye!";
+    analyzer = new ResponseAnalyzer(
+      new FakeLLMClient(() => JSON.stringify({ scenarios: [] }))
+    );
 
     const analysisResult = await analyzer.analyzeResponse(response);
 
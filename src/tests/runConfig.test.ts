@@ -0,0 +1,206 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadRunConfig,
+  parseRunConfig,
+  toDiscoveryConfig,
+} from "../config/runConfig.js";
+import { ConfigValidationError } from "../config/schema.js";
+import {
+  createAnalyzer,
+  createStartCall,
+  createTestOrchestrator,
+} from "./testHelpers.js";
+
+const VALID_YAML = `
+target:
+  phoneNumber: "+15555550100"
+personas:
+  - an elderly homeowner
+  - a property manager
+seeds:
+  - goal: book a furnace repair
+    steps:
+      - Say the furnace stopped working
+  - goal: ask about maintenance plans
+    steps:
+      - Ask what a yearly plan includes
+    persona: a new homeowner
+maxDepth: 3
+strategy: coverage
+budget:
+  maxCalls: 40
+outputDir: reports
+`;
+
+function getIssues(config: unknown) {
+  try {
+    parseRunConfig(config);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe("run config", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "run-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should load a YAML config and expand seeds per persona", async () => {
+    const filePath = path.join(directory, "run.yaml");
+    await fs.writeFile(filePath, VALID_YAML, "utf-8");
+
+    const file = await loadRunConfig(filePath);
+    const config = toDiscoveryConfig(file);
+
+    expect(file.outputDir).toBe(path.join(directory, "reports"));
+    expect(config).toEqual({
+      phoneNumber: "+15555550100",
+      maxDepth: 3,
+      explorationStrategy: "coverage",
+      budget: { maxCalls: 40 },
+      seedIntents: [
+        {
+          persona: "an elderly homeowner",
+          goal: "book a furnace repair",
+          steps: ["Say the furnace stopped working"],
+        },
+        {
+          persona: "a property manager",
+          goal: "book a furnace repair",
+          steps: ["Say the furnace stopped working"],
+        },
+        {
+          persona: "a new homeowner",
+          goal: "ask about maintenance plans",
+          steps: ["Ask what a yearly plan includes"],
+        },
+      ],
+    });
+  });
+
+  test("should load JSON configs", async () => {
+    const filePath = path.join(directory, "run.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ target: { phoneNumber: "+15555550100" } }),
+      "utf-8"
+    );
+
+    expect(toDiscoveryConfig(await loadRunConfig(filePath))).toEqual({
+      phoneNumber: "+15555550100",
+    });
+  });
+
+  test("should point each error at the offending key", () => {
+    expect(
+      getIssues({
+        target: { phoneNumber: "" },
+        seeds: [{ goal: "book a repair", steps: ["Ask"] }, { steps: [] }],
+        maxDepth: 2.5,
+        strategy: "random",
+        budget: { maxCalls: -1, maxDollars: 10 },
+        similarityThreshold: "high",
+        concurrency: 3,
+        constructor: "Object",
+      })
+    ).toEqual([
+      { path: "concurrency", message: "is not a known key" },
+      { path: "constructor", message: "is not a known key" },
+      { path: "target.phoneNumber", message: "must be a non-empty string" },
+      { path: "seeds[1].goal", message: "is required" },
+      { path: "seeds[1].steps", message: "must have at least 1 item(s)" },
+      { path: "maxDepth", message: "must be a whole number" },
+      { path: "similarityThreshold", message: "must be a number" },
+      {
+        path: "strategy",
+        message: "must be one of bfs, dfs, best-first, coverage",
+      },
+      { path: "budget.maxDollars", message: "is not a known key" },
+      { path: "budget.maxCalls", message: "must be at least 0" },
+    ]);
+    expect(getIssues([])).toEqual([
+      { path: "(root)", message: "must be a mapping of keys to values" },
+    ]);
+  });
+
+  test("should resolve caller personas from the library", () => {
+    const file = parseRunConfig({
+      target: { phoneNumber: "+15555550100" },
+      callerPersonas: ["angry", "robot"],
+    });
+
+    expect(() => toDiscoveryConfig(file)).toThrow(
+      "callerPersonas[1]: is not a known persona"
+    );
+    expect(
+      toDiscoveryConfig({ ...file, callerPersonas: ["angry"] })
+        .callerPersonas?.map((persona) => persona.id)
+    ).toEqual(["angry"]);
+  });
+
+  test("should report YAML syntax errors with the file name", async () => {
+    const filePath = path.join(directory, "broken.yml");
+    await fs.writeFile(filePath, "target:\n  phoneNumber: [oops\n", "utf-8");
+
+    await expect(loadRunConfig(filePath)).rejects.toThrow(
+      `Invalid run config ${filePath}`
+    );
+  });
+});
+
+describe("DiscoveryOrchestrator seeds", () => {
+  test("should dial the first seed as the root and branch into the rest", async () => {
+    const startCall = createStartCall();
+    const analyzer = createAnalyzer({
+      identifiedPaths: [],
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+    const orchestrator = createTestOrchestrator(
+      {
+        seedIntents: [
+          { persona: "a landlord", goal: "book a furnace repair", steps: [] },
+          {
+            persona: "a landlord",
+            goal: "ask about maintenance plans",
+            steps: [],
+          },
+        ],
+      },
+      { responseAnalyzer: analyzer },
+      startCall
+    );
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "Hello",
+      confidence: 1,
+      turns: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    expect(startCall).toHaveBeenCalledTimes(2);
+    expect(startCall.mock.calls[0][1]).toContain("book a furnace repair");
+    expect(startCall.mock.calls[1][1]).toContain("ask about maintenance plans");
+  });
+});
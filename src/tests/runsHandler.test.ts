@@ -0,0 +1,425 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import express from "express";
+import { RunManager } from "../runs/runManager.js";
+import { RunsHandler } from "../runs/runsHandler.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { CallApiError, CallManager } from "../call-manager/client.js";
+import { WebhookHandler } from "../webhook/index.js";
+import { CallLifecycleTracker } from "../webhook/callLifecycle.js";
+import { Transcriber } from "../transcription/transcriber.js";
+import { StateStore } from "../persistence/stateStore.js";
+import { DiscoverySnapshot } from "../orchestrator/discoveryOrchestrator.js";
+import {
+  createAnalyzer,
+  createStartCall,
+  createTestOrchestrator,
+  waitFor,
+} from "./testHelpers.js";
+
+describe("RunsHandler", () => {
+  let app: express.Express;
+  let runManager: RunManager;
+  let startCall: jest.Mock<CallManager["startCall"]>;
+  let callLifecycles: CallLifecycleTracker;
+
+  const createApp = (maxActiveRuns?: number) => {
+    runManager = new RunManager({
+      webhookBaseUrl: "https://example.com/",
+      maxActiveRuns,
+      createOrchestrator: (config, runId) =>
+        createTestOrchestrator(
+          config,
+          { runId, responseAnalyzer: analyzer },
+          startCall
+        ),
+    });
+
+    callLifecycles = new CallLifecycleTracker();
+    app = express();
+    app.use(express.json());
+    app.use(
+      "/runs",
+      new RunsHandler(runManager, { callLifecycles }).getRouter()
+    );
+  };
+
+  let analyzer: ResponseAnalyzer;
+
+  beforeEach(() => {
+    startCall = createStartCall();
+    analyzer = createAnalyzer({
+      identifiedPaths: [
+        {
+          persona: "a customer with a leak",
+          goal: "get a plumber",
+          steps: ["Say you have a leak"],
+        },
+      ],
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+
+    createApp();
+  });
+
+  afterEach(() => {
+    runManager.stopAll();
+  });
+
+  test("should reject invalid run configs", async () => {
+    const missingPhone = await request(app).post("/runs").send({}).expect(400);
+    expect(missingPhone.body.issues).toEqual([
+      { path: "target", message: "is required" },
+    ]);
+
+    const outOfRange = await request(app)
+      .post("/runs")
+      .send({
+        target: { phoneNumber: "+15555550100" },
+        maxConcurrentCalls: 0,
+        maxDepth: -1,
+        similarityThreshold: 5,
+        budget: { maxCalls: -1 },
+        colour: "blue",
+      })
+      .expect(400);
+    expect(outOfRange.body.issues).toEqual([
+      { path: "colour", message: "is not a known key" },
+      { path: "maxDepth", message: "must be at least 1" },
+      { path: "maxConcurrentCalls", message: "must be at least 1" },
+      { path: "similarityThreshold", message: "must be at most 1" },
+      { path: "budget.maxCalls", message: "must be at least 0" },
+    ]);
+
+    const serverPath = await request(app)
+      .post("/runs")
+      .send({
+        target: { phoneNumber: "+15555550100" },
+        personaFiles: ["/etc/passwd"],
+      })
+      .expect(400);
+    expect(serverPath.body.issues).toEqual([
+      { path: "personaFiles", message: "is only supported in config files" },
+    ]);
+
+    const unknownPersona = await request(app)
+      .post("/runs")
+      .send({
+        target: { phoneNumber: "+15555550100" },
+        callerPersonas: ["pirate"],
+      })
+      .expect(400);
+    expect(unknownPersona.body.issues[0].path).toBe("callerPersonas[0]");
+    expect(startCall).not.toHaveBeenCalled();
+  });
+
+  test("should report failures outside the request as server errors", async () => {
+    startCall.mockRejectedValueOnce(
+      new CallApiError("Failed to initiate call to +15555550100: timeout")
+    );
+    const upstream = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" } })
+      .expect(502);
+    expect(upstream.body.error).toContain("Failed to initiate call");
+
+    startCall.mockRejectedValueOnce(new Error("Disk full"));
+    await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" } })
+      .expect(500);
+    expect(runManager.getRuns()).toEqual([]);
+  });
+
+  test("should start runs with seeds and caller personas", async () => {
+    const response = await request(app)
+      .post("/runs")
+      .send({
+        target: { phoneNumber: "+15555550100" },
+        personas: ["a landlord"],
+        seeds: [{ goal: "book a repair", steps: ["Say the sink leaks"] }],
+        callerPersonas: ["elderly"],
+      })
+      .expect(201);
+
+    const fetched = await request(app)
+      .get(`/runs/${response.body.runId}`)
+      .expect(200);
+    expect(fetched.body.config.seedIntents).toEqual([
+      {
+        persona: "a landlord",
+        goal: "book a repair",
+        steps: ["Say the sink leaks"],
+      },
+    ]);
+    expect(fetched.body.config.callerPersonas).toEqual([
+      expect.objectContaining({ id: "elderly" }),
+    ]);
+  });
+
+  test("should start concurrent runs with run-scoped webhook urls", async () => {
+    const first = await request(app)
+      .post("/runs")
+      .send({
+        target: { phoneNumber: "+15555550100" },
+        maxDepth: 3,
+        budget: { maxCalls: 50 },
+      })
+      .expect(201);
+    const second = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550101" } })
+      .expect(201);
+
+    expect(first.body.status).toBe("running");
+    expect(second.body.status).toBe("running");
+    expect(first.body.runId).not.toBe(second.body.runId);
+    expect(startCall).toHaveBeenCalledWith(
+      "+15555550100",
+      expect.any(String),
+      `https://example.com/webhook/runs/${first.body.runId}/callback`
+    );
+
+    const fetched = await request(app)
+      .get(`/runs/${first.body.runId}`)
+      .expect(200);
+    expect(fetched.body.config.maxDepth).toBe(3);
+    expect(fetched.body.state.budget).toMatchObject({
+      limits: { maxCalls: 50 },
+      usage: { calls: 1 },
+      exhausted: null,
+    });
+    expect(fetched.body.phoneNumber).toBe("+15555550100");
+
+    const list = await request(app).get("/runs").expect(200);
+    expect(list.body.runs).toHaveLength(2);
+  });
+
+  test("should refuse to start runs beyond maxActiveRuns", async () => {
+    createApp(1);
+
+    const first = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" } })
+      .expect(201);
+    await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550101" } })
+      .expect(409);
+
+    await request(app).post(`/runs/${first.body.runId}/stop`).expect(200);
+    await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550101" } })
+      .expect(201);
+  });
+
+  test("should route webhooks to the run that placed the call", async () => {
+    const transcriber: Transcriber = {
+      transcribeAudio: async () => ({
+        text: "We fix leaks.",
+        confidence: 1,
+        turns: [],
+      }),
+    };
+    const webhookCallManager = {
+      retrieveRecording: async () => Buffer.from("audio"),
+    } as unknown as CallManager;
+    app.use(
+      "/webhook",
+      new WebhookHandler(webhookCallManager, runManager, transcriber, {
+        callLifecycles,
+      }).getRouter()
+    );
+
+    const first = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" }, maxConcurrentCalls: 1 })
+      .expect(201);
+    const second = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550101" }, maxConcurrentCalls: 1 })
+      .expect(201);
+    const getRoot = (runId: string) =>
+      runManager.getRun(runId)!.getConversationTree().getNode("root")!;
+
+    await request(app)
+      .post(`/webhook/runs/${second.body.runId}/callback`)
+      .send({
+        id: getRoot(second.body.runId).callId,
+        status: "completed",
+        recording_available: true,
+      })
+      .expect(200);
+    expect(getRoot(second.body.runId).status).toBe("completed");
+    expect(getRoot(first.body.runId).status).toBe("in-progress");
+
+    await request(app)
+      .post("/webhook/callback")
+      .send({
+        id: getRoot(first.body.runId).callId,
+        status: "completed",
+        recording_available: true,
+      })
+      .expect(200);
+    expect(getRoot(first.body.runId).status).toBe("completed");
+
+    await request(app)
+      .post("/webhook/runs/run_missing/callback")
+      .send({ id: "call_1", status: "completed", recording_available: true })
+      .expect(404);
+
+    const secondCallId = getRoot(second.body.runId).callId;
+    const call = await request(app)
+      .get(`/runs/${second.body.runId}/calls/${secondCallId}`)
+      .expect(200);
+    expect(call.body.phase).toBe("completed");
+    expect(call.body.timeline.map((entry: { event: string }) => entry.event))
+      .toEqual(["completed", "recording_processed"]);
+    await request(app)
+      .get(`/runs/${first.body.runId}/calls/${secondCallId}`)
+      .expect(404);
+  });
+
+  test("should hold queued calls while paused and dial them after resuming", async () => {
+    const { body } = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" } })
+      .expect(201);
+    const runId = body.runId;
+
+    const paused = await request(app).post(`/runs/${runId}/pause`).expect(200);
+    expect(paused.body.status).toBe("paused");
+
+    await runManager.handleCallCompleted("call_1", {
+      text: "We fix leaks and clogs.",
+      confidence: 1,
+      turns: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(startCall).toHaveBeenCalledTimes(1);
+    expect(runManager.getRun(runId)?.getDiscoveryState().queueLength).toBe(1);
+
+    const resumed = await request(app).post(`/runs/${runId}/resume`).expect(200);
+    expect(resumed.body.status).toBe("running");
+    await waitFor(() => startCall.mock.calls.length === 2);
+
+    const stopped = await request(app).post(`/runs/${runId}/stop`).expect(200);
+    expect(stopped.body.status).toBe("stopped");
+    await request(app).post(`/runs/${runId}/pause`).expect(409);
+  });
+
+  test("should return the tree and individual nodes with their analysis", async () => {
+    const { body } = await request(app)
+      .post("/runs")
+      .send({ target: { phoneNumber: "+15555550100" } })
+      .expect(201);
+
+    await runManager.handleCallCompleted("call_1", {
+      text: "We fix leaks and clogs.",
+      confidence: 1,
+      turns: [
+        {
+          speaker: 0,
+          role: "agent",
+          start: 0,
+          end: 1,
+          text: "We fix leaks and clogs.",
+          confidence: 1,
+        },
+      ],
+    });
+
+    const tree = await request(app).get(`/runs/${body.runId}/tree`).expect(200);
+    expect(tree.body.nodes[0].id).toBe("root");
+
+    const node = await request(app)
+      .get(`/runs/${body.runId}/nodes/root`)
+      .expect(200);
+    expect(node.body.turns[0].text).toBe("We fix leaks and clogs.");
+    expect(node.body.analysis).toMatchObject({
+      isTerminalState: false,
+      confidence: 0.8,
+    });
+
+    await request(app).get(`/runs/${body.runId}/nodes/missing`).expect(404);
+    await request(app).get("/runs/run_missing").expect(404);
+  });
+});
+
+describe("RunManager", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "run-manager-"));
+  });
+
+  afterEach(async () => {
+    // stopDiscovery saves a last snapshot without waiting for it
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should rebuild derived webhook urls when resuming on a new base url", async () => {
+    const startCall = createStartCall();
+    const stateStore = new StateStore<DiscoverySnapshot>(directory);
+    const createRunManager = (webhookBaseUrl: string) =>
+      new RunManager({
+        webhookBaseUrl,
+        stateStore,
+        createOrchestrator: (config, runId) =>
+          createTestOrchestrator(config, { runId, stateStore }, startCall),
+      });
+
+    const before = createRunManager("https://old.example.com");
+    const derived = await before.startRun({ phoneNumber: "+15555550100" });
+    const explicit = await before.startRun({
+      phoneNumber: "+15555550101",
+      webhookUrl: "https://hooks.example.com/callback",
+    });
+    before.stopAll();
+
+    const after = createRunManager("https://new.example.com");
+    const resumedDerived = await after.resumeRun(derived.getRunId());
+    const resumedExplicit = await after.resumeRun(explicit.getRunId());
+    after.stopAll();
+
+    expect(resumedDerived.getConfig().webhookUrl).toBe(
+      `https://new.example.com/webhook/runs/${derived.getRunId()}/callback`
+    );
+    expect(resumedExplicit.getConfig().webhookUrl).toBe(
+      "https://hooks.example.com/callback"
+    );
+  });
+
+  test("should restore a stopped run once when resumed concurrently", async () => {
+    const startCall = createStartCall();
+    const stateStore = new StateStore<DiscoverySnapshot>(directory);
+    const runManager = new RunManager({
+      webhookBaseUrl: "https://example.com",
+      stateStore,
+      createOrchestrator: (config, runId) =>
+        createTestOrchestrator(config, { runId, stateStore }, startCall),
+    });
+
+    const run = await runManager.startRun({ phoneNumber: "+15555550100" });
+    runManager.stopRun(run.getRunId());
+
+    const [first, second] = await Promise.all([
+      runManager.resumeRun(run.getRunId()),
+      runManager.resumeRun(run.getRunId()),
+    ]);
+    runManager.stopAll();
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(run);
+    expect(runManager.getRun(run.getRunId())).toBe(first);
+    // The first dial, and one re-dial of the call that was in flight
+    expect(startCall).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, test, expect, afterEach, jest } from "@jest/globals";
+import {
+  Embedder,
+  TfIdfEmbedder,
+  cosineSimilarity,
+} from "../discovery/embeddings.js";
+import { SemanticDeduplicator } from "../discovery/semanticDeduplicator.js";
+import { DiscoveryOrchestrator } from "../orchestrator/discoveryOrchestrator.js";
+import { ResponseAnalyzer } from "../analyzer/responseAnalyzer.js";
+import { CallManager } from "../call-manager/client.js";
+import { CallerIntent } from "../prompts/promptBuilder.js";
+
+const servicePrompt = (service: string) =>
+  `You are a customer specifically interested in ${service}.
+When the agent responds:
+1. Ask detailed questions about this service
+2. Inquire about pricing, availability, and process
+Your goal is to fully understand the ${service} offering and requirements.`;
+
+describe("TfIdfEmbedder", () => {
+  test("should score identical text as fully similar", async () => {
+    const embedder = new TfIdfEmbedder();
+    embedder.fit(["Ask about emergency plumbing"]);
+
+    const [a, b] = await embedder.embed([
+      "Ask about emergency plumbing",
+      "ask about EMERGENCY plumbing!",
+    ]);
+
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+
+  test("should keep shared template text from dominating similarity", async () => {
+    const embedder = new TfIdfEmbedder();
+    const prompts = ["ac repair", "heating installation", "drain cleaning"].map(
+      servicePrompt
+    );
+    embedder.fit(prompts);
+
+    const [first, second] = await embedder.embed(prompts);
+
+    expect(cosineSimilarity(first, second)).toBeLessThan(0.85);
+  });
+});
+
+describe("SemanticDeduplicator", () => {
+  test("should match candidates of the same kind above the threshold", async () => {
+    const deduplicator = new SemanticDeduplicator(new TfIdfEmbedder(), 0.8);
+    await deduplicator.add("node_1", "prompt", servicePrompt("ac repair"));
+    await deduplicator.add("node_2", "prompt", servicePrompt("drain cleaning"));
+
+    const match = await deduplicator.findDuplicate(
+      servicePrompt("AC repair") + " Be polite.",
+      "prompt"
+    );
+
+    expect(match?.ownerId).toBe("node_1");
+    expect(match?.similarity).toBeGreaterThanOrEqual(0.8);
+    expect(
+      await deduplicator.findDuplicate(servicePrompt("ac repair"), "response")
+    ).toBeNull();
+    expect(
+      await deduplicator.findDuplicate(
+        servicePrompt("water heater replacement"),
+        "prompt"
+      )
+    ).toBeNull();
+  });
+
+  test("should honor exclusions and removal", async () => {
+    const deduplicator = new SemanticDeduplicator(new TfIdfEmbedder());
+    await deduplicator.add("node_1", "response", "We are open nine to five");
+
+    expect(
+      (await deduplicator.findDuplicate("We are open nine to five", "response"))
+        ?.ownerId
+    ).toBe("node_1");
+    expect(
+      await deduplicator.findDuplicate("We are open nine to five", "response", {
+        excludeOwnerId: "node_1",
+      })
+    ).toBeNull();
+
+    deduplicator.remove("node_1");
+    expect(
+      await deduplicator.findDuplicate("We are open nine to five", "response")
+    ).toBeNull();
+  });
+
+  test("should only match entries in the same scope", async () => {
+    const deduplicator = new SemanticDeduplicator(new TfIdfEmbedder());
+    await deduplicator.add("node_1", "prompt", "Ask about pricing", "parent_a");
+
+    expect(
+      await deduplicator.findDuplicate("Ask about pricing", "prompt", {
+        scope: "parent_b",
+      })
+    ).toBeNull();
+    expect(
+      (
+        await deduplicator.findDuplicate("Ask about pricing", "prompt", {
+          scope: "parent_a",
+        })
+      )?.ownerId
+    ).toBe("node_1");
+  });
+
+  test("should cache vectors from embedders without corpus statistics", async () => {
+    const embed = jest.fn(async (texts: string[]) =>
+      texts.map((text) => [text.length, 1])
+    );
+    const embedder: Embedder = { name: "stub", embed };
+    const deduplicator = new SemanticDeduplicator(embedder, 0.99);
+
+    await deduplicator.add("node_1", "prompt", "abcd");
+    await deduplicator.add("node_2", "prompt", "abcdefghijklmnop");
+    const match = await deduplicator.findDuplicate("wxyz", "prompt");
+
+    expect(match?.ownerId).toBe("node_1");
+    expect(embed).toHaveBeenCalledTimes(3);
+    expect(embed).toHaveBeenLastCalledWith(["wxyz"]);
+  });
+
+  test("should reject thresholds outside (0, 1]", () => {
+    expect(() => new SemanticDeduplicator(new TfIdfEmbedder(), 0)).toThrow(
+      "Similarity threshold must be in (0, 1]"
+    );
+  });
+});
+
+describe("DiscoveryOrchestrator deduplication", () => {
+  let orchestrator: DiscoveryOrchestrator;
+
+  afterEach(() => {
+    orchestrator?.stopDiscovery();
+  });
+
+  const serviceIntent = (service: string) => ({
+    persona: `a customer specifically interested in ${service}`,
+    goal: `fully understand the ${service} offering and requirements`,
+    steps: [
+      `Ask detailed questions about ${service}`,
+      "Inquire about pricing, availability, and process",
+    ],
+  });
+
+  const createOrchestrator = (identifiedPaths: CallerIntent[]) => {
+    let callCounter = 0;
+    const callManager = {
+      startCall: jest
+        .fn<CallManager["startCall"]>()
+        .mockImplementation(async () => `call_${++callCounter}`),
+    } as unknown as CallManager;
+    const analyzer = {
+      analyzeTranscript: async () => ({
+        identifiedPaths,
+        isTerminalState: false,
+        confidence: 1,
+      }),
+    } as unknown as ResponseAnalyzer;
+
+    return new DiscoveryOrchestrator(
+      callManager,
+      {
+        phoneNumber: "+1234567890",
+        webhookUrl: "https://example.com/webhook/callback",
+        minTimeBetweenCalls: 0,
+        maxConcurrentCalls: 1,
+      },
+      { responseAnalyzer: analyzer }
+    );
+  };
+
+  test("should record reworded candidates as collapsed into the queued path", async () => {
+    orchestrator = createOrchestrator([
+      serviceIntent("ac repair"),
+      { ...serviceIntent("AC repair"), goal: "understand the AC repair offering" },
+      serviceIntent("drain cleaning"),
+    ]);
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "Thanks for calling, we do AC repair and drain cleaning.",
+      confidence: 1,
+      turns: [],
+    });
+
+    const root = orchestrator.getConversationTree().getNode("root");
+    expect(root?.collapsedPaths).toHaveLength(1);
+    expect(root?.collapsedPaths?.[0]).toMatchObject({ matchedOn: "prompt" });
+    expect(root?.collapsedPaths?.[0].prompt).toContain(
+      "Your goal is to understand the AC repair offering."
+    );
+    expect(
+      orchestrator.getDiscoveryState().treeSummary.collapsedPaths
+    ).toBe(1);
+  });
+
+  test("should not branch from a call that repeats an earlier agent response", async () => {
+    orchestrator = createOrchestrator([serviceIntent("ac repair")]);
+    await orchestrator.startDiscovery();
+
+    const tree = orchestrator.getConversationTree();
+    const child = tree.addNode("root", "Ask about pricing", "manual_call");
+    const transcription = {
+      text: "Thanks for calling, we only do AC repair.",
+      confidence: 1,
+      turns: [],
+    };
+
+    await orchestrator.handleCallCompleted("call_1", transcription);
+    await orchestrator.handleCallCompleted("manual_call", transcription);
+
+    expect(tree.getNode(child.id)?.collapsedPaths?.[0]).toMatchObject({
+      duplicateOf: "root",
+      matchedOn: "response",
+    });
+  });
+});
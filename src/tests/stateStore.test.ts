@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { StateStore } from "../persistence/stateStore.js";
+import { ConversationTree } from "../discovery/conversationTree.js";
+import {
+  DiscoveryOrchestrator,
+  DiscoverySnapshot,
+} from "../orchestrator/discoveryOrchestrator.js";
+import { CallManager } from "../call-manager/client.js";
+
+describe("StateStore", () => {
+  let directory: string;
+  let store: StateStore<DiscoverySnapshot>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "discovery-state-"));
+    store = new StateStore<DiscoverySnapshot>(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should round-trip a conversation tree through a snapshot", () => {
+    const tree = new ConversationTree(4);
+    const root = tree.initializeRoot("Initial prompt", "call_1");
+    tree.updateNodeWithResponse(root.id, "Agent mentions emergency repair", [
+      "Ask about emergency repair",
+    ]);
+    const child = tree.addNode(root.id, "Ask about emergency repair", "call_2");
+
+    const restored = ConversationTree.fromSnapshot(
+      JSON.parse(JSON.stringify(tree.toSnapshot()))
+    );
+
+    const restoredRoot = restored.getNode("root");
+    expect(restoredRoot?.children.map((node) => node.id)).toEqual([child.id]);
+    expect(restoredRoot?.timestamp).toBeInstanceOf(Date);
+    expect(restored.getNode(child.id)?.exploredThemes).toEqual(
+      new Set(["emergency_service", "repair"])
+    );
+    expect(() =>
+      restored.addNode(root.id, "Ask about emergency repair", "call_3")
+    ).toThrow("Similar conversation path already explored");
+  });
+
+  test("should save, list and load snapshots", async () => {
+    const tree = new ConversationTree();
+    tree.initializeRoot("Initial prompt", "call_1");
+
+    const snapshot = {
+      version: 1,
+      runId: "run_1",
+      savedAt: new Date().toISOString(),
+      tree: tree.toSnapshot(),
+      callQueue: [],
+    } as unknown as DiscoverySnapshot;
+
+    await store.save(snapshot);
+
+    expect(await store.exists("run_1")).toBe(true);
+    expect(await store.listRuns()).toEqual(["run_1"]);
+    expect((await store.load("run_1")).tree.rootId).toBe("root");
+  });
+
+  test("should reject run ids that would escape the store directory", async () => {
+    await expect(store.load("../outside")).rejects.toThrow("Invalid run id");
+  });
+
+  test("should resume a run and re-dial calls that were in flight", async () => {
+    const firstCallManager = {
+      startCall: jest.fn<CallManager["startCall"]>().mockResolvedValue("call_1"),
+    } as unknown as CallManager;
+    const config = {
+      phoneNumber: "+1234567890",
+      webhookUrl: "https://example.com/webhook/callback",
+      minTimeBetweenCalls: 0,
+    };
+
+    const original = new DiscoveryOrchestrator(firstCallManager, config, {
+      runId: "run_resume",
+      stateStore: store,
+    });
+    await original.startDiscovery();
+    original.stopDiscovery();
+
+    const startCall = jest
+      .fn<CallManager["startCall"]>()
+      .mockResolvedValue("call_2");
+    const resumed = new DiscoveryOrchestrator(
+      { startCall } as unknown as CallManager,
+      config,
+      { stateStore: store }
+    );
+
+    await resumed.resumeDiscovery("run_resume");
+    resumed.stopDiscovery();
+
+    const state = resumed.getDiscoveryState();
+    expect(state.runId).toBe("run_resume");
+    expect(state.activeCallCount).toBe(1);
+    expect(startCall).toHaveBeenCalledTimes(1);
+
+    const saved = await store.load("run_resume");
+    const root = saved.tree.nodes.find((node) => node.id === "root");
+    expect(root?.callId).toBe("call_2");
+    expect(root?.retryCount).toBe(1);
+  });
+});
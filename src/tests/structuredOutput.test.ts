@@ -0,0 +1,128 @@
+import { describe, test, expect } from "@jest/globals";
+import { FakeLLMClient } from "../llm/fakeLLMClient.js";
+import {
+  SchemaValidationError,
+  generateStructured,
+} from "../llm/structuredOutput.js";
+import { generateScenarios, parseScenarios } from "../llm/scenarios.js";
+import { createLLMClient } from "../llm/createLLMClient.js";
+import { OpenAIClient } from "../llm/openAIClient.js";
+import { AnthropicClient } from "../llm/anthropicClient.js";
+
+const validScenario = {
+  persona: "a busy parent",
+  goal: "book a weekend appointment",
+  steps: ["Ask about weekend availability"],
+  expectedAgentBehavior: "offers a Saturday slot",
+};
+
+describe("parseScenarios", () => {
+  test("should accept well-formed scenarios", () => {
+    expect(parseScenarios({ scenarios: [validScenario] })).toEqual([
+      validScenario,
+    ]);
+  });
+
+  test("should report every invalid field with its path", () => {
+    expect.assertions(2);
+    try {
+      parseScenarios({
+        scenarios: [validScenario, { persona: "", goal: "x", steps: [] }],
+      });
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect((error as SchemaValidationError).issues).toEqual([
+        "scenarios[1].persona: expected a non-empty string",
+        "scenarios[1].steps: expected a non-empty array of strings",
+        "scenarios[1].expectedAgentBehavior: expected a non-empty string",
+      ]);
+    }
+  });
+});
+
+describe("generateStructured", () => {
+  test("should retry with the validation errors until the output is valid", async () => {
+    const client = new FakeLLMClient([
+      "1. Ask about pricing\n2. Ask about hours",
+      JSON.stringify({ scenarios: [{ persona: "a caller" }] }),
+      "```json\n" + JSON.stringify({ scenarios: [validScenario] }) + "\n```",
+    ]);
+
+    const result = await generateStructured(
+      client,
+      { messages: [{ role: "user", content: "Generate scenarios" }] },
+      parseScenarios
+    );
+
+    expect(result.data).toEqual([validScenario]);
+    expect(result.attempts).toBe(3);
+    expect(result.usage.completionTokens).toBeGreaterThan(0);
+
+    const retryMessages = client.requests[2].messages;
+    expect(retryMessages[retryMessages.length - 1].content).toContain(
+      "scenarios[0].goal: expected a non-empty string"
+    );
+    expect(client.requests.every((request) => request.json)).toBe(true);
+  });
+
+  test("should give up after the maximum number of attempts", async () => {
+    const client = new FakeLLMClient(() => "not json");
+
+    await expect(
+      generateStructured(
+        client,
+        { messages: [{ role: "user", content: "Generate" }] },
+        parseScenarios,
+        2
+      )
+    ).rejects.toThrow("response is not valid JSON");
+    expect(client.requests).toHaveLength(2);
+  });
+});
+
+describe("generateScenarios", () => {
+  test("should fall back to generic scenarios when the model keeps failing", async () => {
+    const client = new FakeLLMClient(() => "{}");
+
+    const { scenarios } = await generateScenarios(client, "Agent said hi");
+
+    expect(scenarios.length).toBeGreaterThan(0);
+    expect(client.requests).toHaveLength(3);
+  });
+
+  test("should cap the number of scenarios", async () => {
+    const client = new FakeLLMClient(() =>
+      JSON.stringify({ scenarios: [validScenario, validScenario] })
+    );
+
+    const { scenarios } = await generateScenarios(client, "Agent said hi", {
+      maxScenarios: 1,
+    });
+
+    expect(scenarios).toHaveLength(1);
+  });
+});
+
+describe("createLLMClient", () => {
+  test("should build the configured provider", () => {
+    expect(createLLMClient({ provider: "openai", apiKey: "key" })).toBeInstanceOf(
+      OpenAIClient
+    );
+    expect(
+      createLLMClient({ provider: "anthropic", apiKey: "key" })
+    ).toBeInstanceOf(AnthropicClient);
+    expect(
+      createLLMClient({
+        provider: "local",
+        baseUrl: "http://localhost:11434/v1",
+        model: "llama3",
+      }).provider
+    ).toBe("local");
+  });
+
+  test("should require a model and base URL for local endpoints", () => {
+    expect(() => createLLMClient({ provider: "local" })).toThrow(
+      "baseUrl and model are required for a local LLM"
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { jest } from "@jest/globals";
+import { CallManager } from "../call-manager/client.js";
+import {
+  AnalysisResult,
+  ResponseAnalyzer,
+} from "../analyzer/responseAnalyzer.js";
+import {
+  DiscoveryConfig,
+  DiscoveryOrchestrator,
+} from "../orchestrator/discoveryOrchestrator.js";
+
+type OrchestratorOptions = ConstructorParameters<
+  typeof DiscoveryOrchestrator
+>[2];
+
+export const TEST_PHONE_NUMBER = "+15555550100";
+export const TEST_WEBHOOK_URL = "https://example.com/webhook/callback";
+
+export async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** A startCall that answers `call_1`, `call_2`, ... */
+export function createStartCall() {
+  let callCounter = 0;
+  return jest
+    .fn<CallManager["startCall"]>()
+    .mockImplementation(async () => `call_${++callCounter}`);
+}
+
+/**
+ * An analyzer that returns the same analysis for every transcript, or the
+ * one `analyze` builds on each call.
+ */
+export function createAnalyzer(
+  analyze: AnalysisResult | (() => AnalysisResult)
+): ResponseAnalyzer {
+  return {
+    analyzeTranscript: async () =>
+      typeof analyze === "function" ? analyze() : analyze,
+  } as unknown as ResponseAnalyzer;
+}
+
+/**
+ * An orchestrator dialing through a fake call manager, without pacing
+ * between calls. `config` is applied over a test phone number and webhook.
+ */
+export function createTestOrchestrator(
+  config: Partial<DiscoveryConfig> = {},
+  options: OrchestratorOptions = {},
+  startCall: CallManager["startCall"] = createStartCall()
+): DiscoveryOrchestrator {
+  return new DiscoveryOrchestrator(
+    { startCall } as unknown as CallManager,
+    {
+      phoneNumber: TEST_PHONE_NUMBER,
+      webhookUrl: TEST_WEBHOOK_URL,
+      minTimeBetweenCalls: 0,
+      ...config,
+    },
+    options
+  );
+}
@@ -0,0 +1,114 @@
+import { describe, test, expect } from "@jest/globals";
+import {
+  ThemeBackend,
+  ThemeClassifier,
+} from "../themes/themeClassifier.js";
+import { LLMThemeBackend } from "../themes/themeBackends.js";
+import { FakeLLMClient } from "../llm/fakeLLMClient.js";
+import {
+  createAnalyzer,
+  createTestOrchestrator,
+} from "./testHelpers.js";
+
+describe("ThemeClassifier", () => {
+  test("should score every theme the text touches", () => {
+    const classifier = new ThemeClassifier();
+
+    expect(
+      classifier.scoreText(
+        "How much does an emergency repair cost? We can come Tuesday at 3pm."
+      )
+    ).toEqual({
+      emergency_service: 0.6,
+      repair: 0.6,
+      pricing: 0.7,
+      scheduling: 0.91,
+    });
+  });
+
+  test("should merge backend scores and skip failing backends", async () => {
+    const backends: ThemeBackend[] = [
+      {
+        name: "fake",
+        score: async () => ({
+          scores: { maintenance: 0.9, repair: 0.2, astrology: 1 },
+          usage: { promptTokens: 10, completionTokens: 4 },
+        }),
+      },
+      {
+        name: "broken",
+        score: async () => {
+          throw new Error("backend unavailable");
+        },
+      },
+    ];
+    const classifier = new ThemeClassifier(undefined, { backends });
+
+    const result = await classifier.classify("We can fix that for you.");
+
+    expect(result.scores).toEqual({ maintenance: 0.9, repair: 0.6 });
+    expect(result.themes).toEqual(new Set(["maintenance", "repair"]));
+    expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 4 });
+  });
+
+  test("should ask the model again when it invents themes", async () => {
+    const llmClient = new FakeLLMClient([
+      JSON.stringify({ themes: { weather: 0.9 } }),
+      JSON.stringify({ themes: { maintenance: 0.8 } }),
+    ]);
+    const backend = new LLMThemeBackend(llmClient);
+
+    const result = await backend.score("We come out twice a year", [
+      { id: "maintenance", keywords: ["maintenance"] },
+    ]);
+
+    expect(result.scores).toEqual({ maintenance: 0.8 });
+    expect(llmClient.requests).toHaveLength(2);
+    expect(llmClient.requests[1].messages.at(-1)?.content).toContain(
+      "themes.weather: not one of the listed topics"
+    );
+  });
+});
+
+describe("DiscoveryOrchestrator themes", () => {
+  test("should store theme confidence on nodes and match run state", async () => {
+    const analyzer = createAnalyzer({
+      identifiedPaths: [
+        {
+          persona: "a new customer",
+          goal: "set up an account",
+          steps: ["Give your name and address"],
+        },
+      ],
+      isTerminalState: false,
+      confidence: 0.8,
+      themeScores: { maintenance: 0.8, quote: 0.3 },
+    });
+    const orchestrator = createTestOrchestrator(
+      {},
+      { responseAnalyzer: analyzer }
+    );
+
+    await orchestrator.startDiscovery();
+    await orchestrator.handleCallCompleted("call_1", {
+      text: "We handle emergency calls around the clock.",
+      confidence: 1,
+      turns: [],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    orchestrator.stopDiscovery();
+
+    const root = orchestrator.getConversationTree().getNode("root");
+    expect(root?.themeScores).toEqual({
+      emergency_service: 0.6,
+      maintenance: 0.8,
+      quote: 0.3,
+    });
+    const state = orchestrator.getDiscoveryState();
+    expect(new Set(state.exploredThemes)).toEqual(root?.exploredThemes);
+    expect(state.activeThemes.sort()).toEqual([
+      "location_info",
+      "personal_info",
+    ]);
+  });
+});
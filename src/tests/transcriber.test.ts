@@ -0,0 +1,140 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import {
+  getAgentText,
+  inferSpeakerRoles,
+} from "../transcription/transcriber.js";
+
+const transcribeFile = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+jest.unstable_mockModule("@deepgram/sdk", () => ({
+  createClient: () => ({ listen: { prerecorded: { transcribeFile } } }),
+}));
+const { TranscriptionService } = await import(
+  "../transcription/transcriptionService.js"
+);
+
+const turn = (speaker: number, text: string, start = 0) => ({
+  speaker,
+  start,
+  end: start + 1,
+  text,
+  confidence: 0.9,
+});
+
+describe("inferSpeakerRoles", () => {
+  test("should treat the first speaker as the agent", () => {
+    const turns = inferSpeakerRoles([
+      turn(1, "Hello, Cool Breeze speaking."),
+      turn(0, "Hi, I have a question about my AC.", 1),
+      turn(1, "Sure, what seems to be the problem?", 2),
+    ]);
+
+    expect(turns.map((t) => t.role)).toEqual(["agent", "caller", "agent"]);
+  });
+
+  test("should prefer the speaker using agent phrases", () => {
+    const turns = inferSpeakerRoles([
+      turn(0, "Hello?"),
+      turn(1, "Thank you for calling Cool Breeze, how can I help you?", 1),
+      turn(0, "My heater is broken.", 2),
+      turn(1, "Can I get your address?", 3),
+    ]);
+
+    expect(turns.map((t) => t.role)).toEqual([
+      "caller",
+      "agent",
+      "caller",
+      "agent",
+    ]);
+  });
+
+  test("should leave roles unknown when only one speaker was detected", () => {
+    const turns = inferSpeakerRoles([turn(0, "Everything in one voice")]);
+
+    expect(turns[0].role).toBe("unknown");
+  });
+});
+
+describe("getAgentText", () => {
+  test("should join only the agent turns", () => {
+    const result = {
+      text: "Agent line one. Caller line. Agent line two.",
+      confidence: 0.9,
+      turns: inferSpeakerRoles([
+        turn(0, "Thank you for calling."),
+        turn(1, "Caller line.", 1),
+        turn(0, "Agent line two.", 2),
+      ]),
+    };
+
+    expect(getAgentText(result)).toBe("Thank you for calling. Agent line two.");
+  });
+
+  test("should fall back to the full text without diarization", () => {
+    const result = { text: "Full transcript", confidence: 0.9, turns: [] };
+
+    expect(getAgentText(result)).toBe("Full transcript");
+  });
+});
+
+describe("TranscriptionService", () => {
+  test("should return diarized turns with agent and caller roles", async () => {
+    transcribeFile.mockResolvedValue({
+      result: {
+        metadata: { duration: 4.1 },
+        results: {
+          channels: [
+            {
+              alternatives: [
+                {
+                  transcript:
+                    "Thank you for calling. How can I help? My AC is broken.",
+                  confidence: 0.9,
+                },
+              ],
+            },
+          ],
+          utterances: [
+            {
+              start: 0,
+              end: 2.5,
+              confidence: 0.92,
+              transcript: "Thank you for calling. How can I help?",
+              speaker: 0,
+            },
+            {
+              start: 2.8,
+              end: 4.1,
+              confidence: 0.88,
+              transcript: "My AC is broken.",
+              speaker: 1,
+            },
+          ],
+        },
+      },
+      error: null,
+    });
+
+    const service = new TranscriptionService("test_api_key");
+    const result = await service.transcribeAudio(Buffer.from("test audio"));
+
+    expect(result.durationSeconds).toBe(4.1);
+    expect(result.turns).toEqual([
+      {
+        speaker: 0,
+        role: "agent",
+        start: 0,
+        end: 2.5,
+        text: "Thank you for calling. How can I help?",
+        confidence: 0.92,
+      },
+      {
+        speaker: 1,
+        role: "caller",
+        start: 2.8,
+        end: 4.1,
+        text: "My AC is broken.",
+        confidence: 0.88,
+      },
+    ]);
+  });
+});
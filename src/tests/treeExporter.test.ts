@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { TreeExporter } from "../export/treeExporter.js";
+import { ConversationTree } from "../discovery/conversationTree.js";
+
+describe("TreeExporter", () => {
+  let exporter: TreeExporter;
+  let tree: ConversationTree;
+  let childId: string;
+
+  beforeEach(() => {
+    exporter = new TreeExporter();
+    tree = new ConversationTree();
+
+    const root = tree.initializeRoot('Ask about "services" <first>', "call_1");
+    tree.updateNodeWithResponse(
+      root.id,
+      "We offer emergency repair and maintenance",
+      ["Ask about emergency repair"]
+    );
+    childId = tree.addNode(root.id, "Ask about emergency repair", "call_2").id;
+  });
+
+  test("should build a JSON report with nodes, transcripts and timings", () => {
+    const report = exporter.buildReport(tree);
+
+    expect(report.summary.totalPaths).toBe(2);
+    expect(report.nodes.map((node) => node.id)).toEqual(["root", childId]);
+
+    const [root, child] = report.nodes;
+    expect(root.transcript).toBe("We offer emergency repair and maintenance");
+    expect(root.children).toEqual([childId]);
+    expect(root.completedAt).not.toBeNull();
+    expect(root.durationMs).toBeGreaterThanOrEqual(0);
+    expect(child.status).toBe("in-progress");
+    expect(child.durationMs).toBeNull();
+  });
+
+  test("should render a Mermaid flowchart with escaped labels", () => {
+    const mermaid = exporter.toMermaid(tree);
+
+    expect(mermaid).toMatch(/^flowchart TD/);
+    expect(mermaid).toContain('n0["[completed] Ask about #quot;services#quot; first"]');
+    expect(mermaid).toContain("n0 --> n1");
+    expect(mermaid).toContain("class n1 in_progress");
+  });
+
+  test("should render a Graphviz DOT digraph", () => {
+    const dot = exporter.toDot(tree);
+
+    expect(dot).toMatch(/^digraph conversation \{/);
+    expect(dot).toContain('[completed] Ask about \\"services\\" <first>');
+    expect(dot).toContain(`"root" -> "${childId}";`);
+  });
+
+  test("should escape HTML in the self-contained report", () => {
+    const html = exporter.toHtml(tree);
+
+    expect(html).toContain("&lt;first&gt;");
+    expect(html).not.toContain("<first>");
+    expect(html).toContain("We offer emergency repair and maintenance");
+  });
+
+  test("should write every format to the output directory", async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "export-"));
+
+    try {
+      const files = await exporter.exportAll(tree, outputDir);
+
+      const written = await fs.readdir(outputDir);
+      expect(written.sort()).toEqual(
+        Object.values(files)
+          .map((file) => path.basename(file))
+          .sort()
+      );
+      const json = JSON.parse(await fs.readFile(files.json, "utf-8"));
+      expect(json.nodes).toHaveLength(2);
+    } finally {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -61,10 +61,12 @@ describe("WebhookHandler", () => {
     };
 
     callManager.retrieveRecording.mockResolvedValue(Buffer.from("audio data"));
-    transcriptionService.transcribeAudio.mockResolvedValue({
+    const transcription = {
       text: "Transcribed text",
       confidence: 0.95,
-    });
+      turns: [],
+    };
+    transcriptionService.transcribeAudio.mockResolvedValue(transcription);
     orchestrator.handleCallCompleted.mockResolvedValue();
 
     await request(app)
@@ -79,7 +81,7 @@ describe("WebhookHandler", () => {
     );
     expect(orchestrator.handleCallCompleted).toHaveBeenCalledWith(
       "call_123",
-      "Transcribed text"
+      transcription
     );
   });
 
@@ -0,0 +1,190 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import request from "supertest";
+import express from "express";
+import {
+  WebhookSignature,
+  WebhookVerificationError,
+  captureRawBody,
+  createWebhookSignature,
+} from "../webhook/signature.js";
+import { CallEventHandler, WebhookHandler } from "../webhook/index.js";
+import { CallManager } from "../call-manager/client.js";
+import { Transcriber } from "../transcription/transcriber.js";
+import logger from "../utils/logger.js";
+
+const BODY = JSON.stringify({
+  id: "call_123",
+  status: "failed",
+  recording_available: false,
+});
+
+describe("WebhookSignature", () => {
+  const now = Date.UTC(2024, 0, 1);
+  const timestamp = now / 1000;
+  let signature: WebhookSignature;
+
+  beforeEach(() => {
+    signature = new WebhookSignature({ secret: "shh", toleranceSeconds: 60 });
+  });
+
+  test("should accept a delivery it signed", () => {
+    const headers = signature.sign(BODY, timestamp);
+
+    expect(headers["x-webhook-signature"]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(() =>
+      signature.verify(Buffer.from(BODY), headers, now)
+    ).not.toThrow();
+  });
+
+  test("should reject missing, forged and tampered signatures", () => {
+    const headers = signature.sign(BODY, timestamp);
+    const forged = new WebhookSignature({ secret: "guess" }).sign(
+      BODY,
+      timestamp
+    );
+
+    expect(() => signature.verify(Buffer.from(BODY), {}, now)).toThrow(
+      "Missing webhook signature headers"
+    );
+    expect(() => signature.verify(Buffer.from(BODY), forged, now)).toThrow(
+      "Invalid webhook signature"
+    );
+    const tampered = Buffer.from(BODY.replace("failed", "completed"));
+    expect(() => signature.verify(tampered, headers, now)).toThrow(
+      WebhookVerificationError
+    );
+    expect(() => signature.verify(undefined, headers, now)).toThrow(
+      "Request body is not available"
+    );
+  });
+
+  test("should reject timestamps outside the tolerance", () => {
+    const stale = signature.sign(BODY, timestamp - 61);
+    const future = signature.sign(BODY, timestamp + 61);
+
+    expect(() => signature.verify(Buffer.from(BODY), stale, now)).toThrow(
+      "Webhook timestamp is outside the allowed tolerance"
+    );
+    expect(() => signature.verify(Buffer.from(BODY), future, now)).toThrow(
+      "Webhook timestamp is outside the allowed tolerance"
+    );
+  });
+
+  test("should reject duplicate deliveries inside the tolerance window", () => {
+    const headers = signature.sign(BODY, timestamp);
+    signature.verify(Buffer.from(BODY), headers, now);
+
+    expect(() =>
+      signature.verify(Buffer.from(BODY), headers, now + 1000)
+    ).toThrow("Duplicate webhook delivery");
+    // A retry is signed again with a new timestamp
+    expect(() =>
+      signature.verify(
+        Buffer.from(BODY),
+        signature.sign(BODY, timestamp + 1),
+        now + 1000
+      )
+    ).not.toThrow();
+  });
+
+  test("should support a custom header and algorithm", () => {
+    const custom = new WebhookSignature({
+      secret: "shh",
+      signatureHeader: "X-Signature",
+      timestampHeader: "X-Signature-Time",
+      algorithm: "sha512",
+    });
+    const headers = custom.sign(BODY, timestamp);
+
+    expect(Object.keys(headers)).toEqual(["x-signature", "x-signature-time"]);
+    expect(() =>
+      custom.verify(Buffer.from(BODY), headers, now)
+    ).not.toThrow();
+    expect(
+      () => new WebhookSignature({ secret: "shh", algorithm: "nope" })
+    ).toThrow("Unsupported webhook signature algorithm: nope");
+  });
+
+  test("should only be configured when a secret is set", () => {
+    expect(createWebhookSignature({})).toBeUndefined();
+    expect(
+      createWebhookSignature({ WEBHOOK_SECRET: "shh" })
+    ).toBeInstanceOf(WebhookSignature);
+  });
+});
+
+describe("WebhookHandler signature verification", () => {
+  let app: express.Express;
+  let handleCallFailed: jest.Mock<CallEventHandler["handleCallFailed"]>;
+  let signer: WebhookSignature;
+
+  beforeEach(() => {
+    handleCallFailed = jest
+      .fn<CallEventHandler["handleCallFailed"]>()
+      .mockResolvedValue();
+    const handler: CallEventHandler = {
+      handleCallCompleted: async () => undefined,
+      handleCallFailed,
+    };
+    signer = new WebhookSignature({ secret: "shh" });
+
+    app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use(
+      "/webhook",
+      new WebhookHandler(
+        {} as CallManager,
+        handler,
+        {} as Transcriber,
+        { signature: new WebhookSignature({ secret: "shh" }) }
+      ).getRouter()
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should process signed deliveries once", async () => {
+    const headers = signer.sign(BODY);
+    const send = () =>
+      request(app)
+        .post("/webhook/callback")
+        .set({ ...headers, "Content-Type": "application/json" })
+        .send(BODY);
+
+    await send().expect(200).expect({ received: true });
+    const repeated = await send().expect(401);
+
+    expect(repeated.body.error).toBe("Duplicate webhook delivery");
+    expect(handleCallFailed).toHaveBeenCalledTimes(1);
+  });
+
+  test("should answer 401 without touching the run for unsigned deliveries", async () => {
+    const response = await request(app)
+      .post("/webhook/callback")
+      .set("Content-Type", "application/json")
+      .send(BODY)
+      .expect(401);
+
+    expect(response.body.error).toBe("Missing webhook signature headers");
+    expect(handleCallFailed).not.toHaveBeenCalled();
+  });
+
+  test("should not log request headers", async () => {
+    const infoSpy = jest.spyOn(logger, "info");
+
+    await request(app)
+      .post("/webhook/callback")
+      .set({
+        ...signer.sign(BODY),
+        "Content-Type": "application/json",
+        Authorization: "Bearer secret-token",
+      })
+      .send(BODY)
+      .expect(200);
+
+    expect(infoSpy).toHaveBeenCalled();
+    expect(JSON.stringify(infoSpy.mock.calls)).not.toContain("secret-token");
+  });
+});
@@ -0,0 +1,156 @@
+import { LLMClient } from "../llm/llmClient.js";
+import { createLLMClientFromEnv } from "../llm/createLLMClient.js";
+import {
+  SchemaValidationError,
+  generateStructured,
+} from "../llm/structuredOutput.js";
+import {
+  Embedder,
+  EmbeddingProvider,
+  cosineSimilarity,
+  createEmbedder,
+} from "../discovery/embeddings.js";
+import { ThemeDefinition } from "../domains/domainPack.js";
+import {
+  ThemeBackend,
+  ThemeBackendResult,
+  ThemeScores,
+} from "./themeClassifier.js";
+
+export const THEME_BACKENDS = ["llm", "embedding"] as const;
+
+export type ThemeBackendName = (typeof THEME_BACKENDS)[number];
+
+/**
+ * Asks the model how strongly the text touches each theme. Catches themes
+ * that are described rather than named.
+ */
+export class LLMThemeBackend implements ThemeBackend {
+  public readonly name = "llm";
+  private readonly client: LLMClient;
+
+  constructor(client: LLMClient) {
+    this.client = client;
+  }
+
+  public async score(
+    text: string,
+    themes: ThemeDefinition[]
+  ): Promise<ThemeBackendResult> {
+    const themeList = themes
+      .map((theme) => `- ${theme.id}: ${theme.keywords.join(", ")}`)
+      .join("\n");
+
+    const { data, usage } = await generateStructured(
+      this.client,
+      {
+        messages: [
+          {
+            role: "system",
+            content:
+              "You tag customer service call text with topics. Respond only with JSON.",
+          },
+          {
+            role: "user",
+            content: `Topics, each with example words:
+${themeList}
+
+Text: "${text}"
+
+Return a JSON object giving a confidence from 0 to 1 for each topic the text touches, and leave out topics it does not:
+{"themes": {"topic_id": 0.8}}`,
+          },
+        ],
+        temperature: 0,
+        maxTokens: 300,
+      },
+      (value) => parseThemeScores(value, themes)
+    );
+
+    return { scores: data, usage };
+  }
+}
+
+/**
+ * Scores each theme by how similar the text is to its keywords. Works with
+ * any embedder, including the offline TF-IDF one.
+ */
+export class EmbeddingThemeBackend implements ThemeBackend {
+  public readonly name = "embedding";
+  private readonly embedder: Embedder;
+
+  constructor(embedder: Embedder) {
+    this.embedder = embedder;
+  }
+
+  public async score(
+    text: string,
+    themes: ThemeDefinition[]
+  ): Promise<ThemeBackendResult> {
+    const themeTexts = themes.map((theme) =>
+      [theme.id.replace(/_/g, " "), ...theme.keywords].join(" ")
+    );
+    this.embedder.fit?.([text, ...themeTexts]);
+    const [textVector, ...themeVectors] = await this.embedder.embed([
+      text,
+      ...themeTexts,
+    ]);
+
+    const scores: ThemeScores = {};
+    themes.forEach((theme, index) => {
+      const similarity = cosineSimilarity(textVector, themeVectors[index]);
+      if (similarity > 0) {
+        scores[theme.id] = similarity;
+      }
+    });
+    return { scores };
+  }
+}
+
+/**
+ * Checks the `{ themes: { id: confidence } }` shape against the taxonomy.
+ */
+export function parseThemeScores(
+  value: unknown,
+  themes: ThemeDefinition[]
+): ThemeScores {
+  const scores = (value as { themes?: unknown } | null)?.themes;
+  if (typeof scores !== "object" || scores === null || Array.isArray(scores)) {
+    throw new SchemaValidationError(["themes: expected an object"]);
+  }
+
+  const known = new Set(themes.map((theme) => theme.id));
+  const issues: string[] = [];
+  for (const [theme, score] of Object.entries(scores)) {
+    if (!known.has(theme)) {
+      issues.push(`themes.${theme}: not one of the listed topics`);
+    } else if (typeof score !== "number" || score < 0 || score > 1) {
+      issues.push(`themes.${theme}: expected a number from 0 to 1`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+  return scores as ThemeScores;
+}
+
+/**
+ * Creates fresh backends for one run, since embedders learn from the text
+ * they see.
+ */
+export function createThemeBackends(
+  names: ThemeBackendName[],
+  embeddingProvider: EmbeddingProvider
+): ThemeBackend[] {
+  return names.map((name) => {
+    switch (name) {
+      case "llm":
+        return new LLMThemeBackend(createLLMClientFromEnv());
+      case "embedding":
+        return new EmbeddingThemeBackend(createEmbedder(embeddingProvider));
+      default:
+        throw new Error(`Unknown theme backend: ${name}`);
+    }
+  });
+}
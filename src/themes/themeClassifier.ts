@@ -0,0 +1,164 @@
+import logger from "../utils/logger.js";
+import { LLMUsage } from "../llm/llmClient.js";
+import { DomainContext } from "../domains/domainContext.js";
+import { ThemeDefinition, containsKeyword } from "../domains/domainPack.js";
+
+/** Confidence from 0 to 1 for each theme the text was tagged with */
+export type ThemeScores = Record<string, number>;
+
+export interface ThemeBackendResult {
+  scores: ThemeScores;
+  /** Tokens spent, for backends that call a model */
+  usage?: LLMUsage;
+}
+
+/**
+ * An extra way of scoring text against the taxonomy, on top of the
+ * classifier's own keyword and pattern rules.
+ */
+export interface ThemeBackend {
+  readonly name: string;
+  score(text: string, themes: ThemeDefinition[]): Promise<ThemeBackendResult>;
+}
+
+/** Supplies the themes to classify against; a DomainContext does */
+export interface ThemeTaxonomy {
+  getThemes(): ThemeDefinition[];
+}
+
+export interface ThemeClassification {
+  scores: ThemeScores;
+  /** Themes scored at or above the classifier's threshold */
+  themes: Set<string>;
+  usage: LLMUsage;
+}
+
+export interface ThemeClassifierOptions {
+  backends?: ThemeBackend[];
+  /** Minimum confidence for a theme to count as present */
+  threshold?: number;
+}
+
+export const DEFAULT_THEME_THRESHOLD = 0.5;
+
+// Each further hit leaves this fraction of the remaining doubt
+const KEYWORD_MISS_RATE = 0.4;
+const PATTERN_MISS_RATE = 0.3;
+
+/**
+ * Tags text with themes from one taxonomy, so the tree, orchestrator and
+ * analyzer all use the same theme ids. Themes are scored independently, and
+ * a theme's confidence is the highest any scorer gives it.
+ *
+ * Keyword and pattern rules run synchronously and are all the tree needs
+ * when it adds paths. Backends such as a model or embeddings only run in
+ * `classify`.
+ */
+export class ThemeClassifier {
+  private readonly taxonomy: ThemeTaxonomy;
+  private readonly backends: ThemeBackend[];
+  private readonly threshold: number;
+  private readonly compiledPatterns = new Map<string, RegExp>();
+
+  constructor(
+    taxonomy: ThemeTaxonomy = new DomainContext(),
+    options: ThemeClassifierOptions = {}
+  ) {
+    this.taxonomy = taxonomy;
+    this.backends = options.backends ?? [];
+    this.threshold = options.threshold ?? DEFAULT_THEME_THRESHOLD;
+  }
+
+  /** Scores the text with keyword and pattern rules only */
+  public scoreText(text: string): ThemeScores {
+    const scores: ThemeScores = {};
+
+    for (const theme of this.taxonomy.getThemes()) {
+      const keywordHits = theme.keywords.filter((keyword) =>
+        containsKeyword(text, keyword)
+      ).length;
+      const patternHits = (theme.patterns ?? []).filter((pattern) =>
+        this.compile(pattern).test(text)
+      ).length;
+      const score = Math.max(
+        1 - KEYWORD_MISS_RATE ** keywordHits,
+        1 - PATTERN_MISS_RATE ** patternHits
+      );
+      if (score > 0) {
+        scores[theme.id] = round(score);
+      }
+    }
+
+    return scores;
+  }
+
+  public extractThemes(text: string): Set<string> {
+    return this.selectThemes(this.scoreText(text));
+  }
+
+  public selectThemes(scores: ThemeScores): Set<string> {
+    return new Set(
+      Object.keys(scores).filter((theme) => scores[theme] >= this.threshold)
+    );
+  }
+
+  /**
+   * Scores the text with the rules and every backend. A backend that fails
+   * is logged and skipped so classification never blocks discovery.
+   */
+  public async classify(text: string): Promise<ThemeClassification> {
+    const themes = this.taxonomy.getThemes();
+    const known = new Set(themes.map((theme) => theme.id));
+    const scores = this.scoreText(text);
+    const usage: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+
+    for (const backend of this.backends) {
+      try {
+        const result = await backend.score(text, themes);
+        usage.promptTokens += result.usage?.promptTokens ?? 0;
+        usage.completionTokens += result.usage?.completionTokens ?? 0;
+
+        for (const [theme, score] of Object.entries(result.scores)) {
+          if (!known.has(theme) || score <= 0) continue;
+          const capped = Math.min(score, 1);
+          scores[theme] = round(Math.max(scores[theme] ?? 0, capped));
+        }
+      } catch (error) {
+        logger.error("Theme backend failed", {
+          backend: backend.name,
+          error: error instanceof Error ? error.message : "Unknown error",
+          textPreview: text.substring(0, 50),
+        });
+      }
+    }
+
+    return { scores, themes: this.selectThemes(scores), usage };
+  }
+
+  private compile(pattern: string): RegExp {
+    let compiled = this.compiledPatterns.get(pattern);
+    if (!compiled) {
+      compiled = new RegExp(pattern, "i");
+      this.compiledPatterns.set(pattern, compiled);
+    }
+    return compiled;
+  }
+}
+
+/**
+ * Keeps the higher confidence for each theme.
+ */
+export function mergeThemeScores(
+  current: ThemeScores,
+  incoming: ThemeScores
+): ThemeScores {
+  const merged = { ...current };
+  for (const [theme, score] of Object.entries(incoming)) {
+    merged[theme] = Math.max(merged[theme] ?? 0, score);
+  }
+  return merged;
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
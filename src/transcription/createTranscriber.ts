@@ -0,0 +1,16 @@
+import { TranscriptionService } from "./transcriptionService.js";
+import { FixtureTranscriber } from "./fixtureTranscriber.js";
+import { Transcriber, TranscriberConfig } from "./transcriber.js";
+
+export function createTranscriber(config: TranscriberConfig): Transcriber {
+  switch (config.provider) {
+    case "deepgram":
+      return new TranscriptionService(config.deepgramApiKey ?? "");
+    case "fixture":
+      return new FixtureTranscriber(config.fixturesDir);
+    default:
+      throw new Error(
+        `Unknown transcription provider: ${(config as TranscriberConfig).provider}`
+      );
+  }
+}
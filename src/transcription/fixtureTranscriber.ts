@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger.js";
+import { Transcriber, TranscriptionResult } from "./transcriber.js";
+
+/**
+ * Offline transcriber that looks recordings up by content hash. Fixtures are
+ * JSON files named `<sha256>.json` holding a TranscriptionResult, so the same
+ * recording always yields the same transcript without calling a vendor.
+ * Fixtures without `turns` are treated as undiarized.
+ *
+ * Fixtures are also read from the `generated` subdirectory, where the mock
+ * agent writes them, so generated ones can be kept out of version control.
+ */
+export const GENERATED_FIXTURES_DIR = "generated";
+
+export class FixtureTranscriber implements Transcriber {
+  private readonly fixturesDir?: string;
+  private readonly fixtures: Map<string, TranscriptionResult> = new Map();
+
+  constructor(fixturesDir?: string) {
+    this.fixturesDir = fixturesDir;
+    logger.info("FixtureTranscriber initialized", { fixturesDir });
+  }
+
+  public static hashRecording(audioBuffer: Buffer): string {
+    return createHash("sha256").update(audioBuffer).digest("hex");
+  }
+
+  /**
+   * Writes a fixture file so a later FixtureTranscriber can read it back.
+   */
+  public static async saveFixture(
+    fixturesDir: string,
+    audioBuffer: Buffer,
+    result: TranscriptionResult
+  ): Promise<string> {
+    const filePath = path.join(
+      fixturesDir,
+      `${FixtureTranscriber.hashRecording(audioBuffer)}.json`
+    );
+    await fs.mkdir(fixturesDir, { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(result, null, 2), "utf-8");
+    return filePath;
+  }
+
+  public addFixture(audioBuffer: Buffer, result: TranscriptionResult): void {
+    this.fixtures.set(FixtureTranscriber.hashRecording(audioBuffer), result);
+  }
+
+  async transcribeAudio(audioBuffer: Buffer): Promise<TranscriptionResult> {
+    const hash = FixtureTranscriber.hashRecording(audioBuffer);
+
+    const result = this.fixtures.get(hash) ?? (await this.loadFixture(hash));
+    if (!result) {
+      logger.error("No transcript fixture for recording", {
+        hash,
+        bufferSize: audioBuffer.length,
+        fixturesDir: this.fixturesDir,
+      });
+      throw new Error(`Transcription failed: no fixture for recording ${hash}`);
+    }
+
+    logger.info("Transcribed recording from fixture", {
+      hash,
+      transcriptLength: result.text.length,
+    });
+
+    return result;
+  }
+
+  private async loadFixture(
+    hash: string
+  ): Promise<TranscriptionResult | undefined> {
+    if (!this.fixturesDir) return undefined;
+
+    for (const directory of [
+      this.fixturesDir,
+      path.join(this.fixturesDir, GENERATED_FIXTURES_DIR),
+    ]) {
+      const result = await this.readFixture(directory, hash);
+      if (result) {
+        this.fixtures.set(hash, result);
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  private async readFixture(
+    directory: string,
+    hash: string
+  ): Promise<TranscriptionResult | undefined> {
+    try {
+      const contents = await fs.readFile(
+        path.join(directory, `${hash}.json`),
+        "utf-8"
+      );
+      const parsed = JSON.parse(contents) as Omit<
+        TranscriptionResult,
+        "turns"
+      > & { turns?: TranscriptionResult["turns"] };
+      return { ...parsed, turns: parsed.turns ?? [] };
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+export type SpeakerRole = "agent" | "caller" | "unknown";
+
+/**
+ * One diarized utterance. `speaker` is the provider's speaker label; `role`
+ * is our inference of which side of the call it belongs to.
+ */
+export interface TranscriptTurn {
+  speaker: number;
+  role: SpeakerRole;
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  confidence: number;
+  turns: TranscriptTurn[];
+  /** Length of the recording in seconds, when the provider reports it */
+  durationSeconds?: number;
+}
+
+/**
+ * Anything that can turn a call recording into text. WebhookHandler depends on
+ * this rather than a specific vendor so providers can be swapped by config.
+ */
+export interface Transcriber {
+  transcribeAudio(audioBuffer: Buffer): Promise<TranscriptionResult>;
+}
+
+export type TranscriptionProvider = "deepgram" | "fixture";
+
+export interface TranscriberConfig {
+  provider: TranscriptionProvider;
+  deepgramApiKey?: string;
+  fixturesDir?: string;
+}
+
+const AGENT_PHRASES = [
+  "thank you for calling",
+  "thanks for calling",
+  "how can i help",
+  "how may i help",
+  "how can i assist",
+  "can i get your",
+  "may i have your",
+  "what is your",
+];
+
+/**
+ * Decides which diarized speaker is the voice agent. The agent answers the
+ * phone, so speaking first counts for a lot; greeting and information-request
+ * phrases break ties when diarization starts mid-sentence.
+ */
+export function inferSpeakerRoles(
+  turns: Array<Omit<TranscriptTurn, "role">>
+): TranscriptTurn[] {
+  const speakers = Array.from(new Set(turns.map((turn) => turn.speaker)));
+  if (speakers.length < 2) {
+    return turns.map((turn) => ({ ...turn, role: "unknown" }));
+  }
+
+  const scores = new Map<number, number>(speakers.map((s) => [s, 0]));
+  scores.set(turns[0].speaker, 2);
+
+  turns.forEach((turn) => {
+    const normalized = turn.text.toLowerCase();
+    const hits = AGENT_PHRASES.filter((phrase) =>
+      normalized.includes(phrase)
+    ).length;
+    scores.set(turn.speaker, scores.get(turn.speaker)! + hits * 3);
+  });
+
+  const agentSpeaker = speakers.reduce((best, speaker) =>
+    scores.get(speaker)! > scores.get(best)! ? speaker : best
+  );
+
+  return turns.map((turn) => ({
+    ...turn,
+    role: turn.speaker === agentSpeaker ? "agent" : "caller",
+  }));
+}
+
+/**
+ * Returns only what the agent said, falling back to the full transcript when
+ * the speakers could not be told apart.
+ */
+export function getAgentText(result: TranscriptionResult): string {
+  const agentTurns = result.turns.filter((turn) => turn.role === "agent");
+  if (agentTurns.length === 0) {
+    return result.text;
+  }
+  return agentTurns.map((turn) => turn.text).join(" ");
+}
+
+/**
+ * Returns how long the recording was, estimated from the last turn when the
+ * provider did not report it.
+ */
+export function getRecordingDuration(result: TranscriptionResult): number {
+  if (result.durationSeconds !== undefined) {
+    return result.durationSeconds;
+  }
+  return result.turns.reduce((end, turn) => Math.max(end, turn.end), 0);
+}
@@ -1,19 +1,23 @@
-import { createClient } from "@deepgram/sdk";
+import { createClient, SyncPrerecordedResponse } from "@deepgram/sdk";
 import logger from "../utils/logger.js";
-
-interface TranscriptionResult {
-  text: string;
-  confidence: number;
-}
+import {
+  Transcriber,
+  TranscriptionResult,
+  TranscriptTurn,
+  inferSpeakerRoles,
+} from "./transcriber.js";
 
 /**
+ * Deepgram-backed Transcriber.
+ *
  * The service is configured to handle English language conversations with
  * specific optimizations for customer service interactions, including:
  * - Smart formatting for numbers, dates, and currency
  * - Punctuation for better readability
- * - Speaker diarization to distinguish between speakers
+ * - Speaker diarization to distinguish between speakers, returned as
+ *   ordered turns labelled with the agent or caller role
  */
-export class TranscriptionService {
+export class TranscriptionService implements Transcriber {
   private deepgramClient;
 
   constructor(apiKey: string) {
@@ -27,7 +31,8 @@ export class TranscriptionService {
 
   /**
    * @param audioBuffer - The audio data to transcribe
-   * @returns A promise containing the transcribed text and confidence score
+   * @returns A promise containing the transcribed text, confidence score and
+   * diarized turns
    * @throws Error if transcription fails
    */
   async transcribeAudio(audioBuffer: Buffer): Promise<TranscriptionResult> {
@@ -43,7 +48,7 @@ export class TranscriptionService {
           {
             model: "nova-2",
             smart_format: true,
-            utterance_split: false,
+            utterances: true,
             punctuate: true,
             diarize: true,
             numerals: true,
@@ -64,16 +69,22 @@ export class TranscriptionService {
         throw new Error("No transcript received from Deepgram");
       }
 
+      const turns = this.extractTurns(result);
+
       logger.info("Successfully transcribed audio", {
         confidenceScore: confidence,
         transcriptLength: transcript.length,
         transcriptPreview: transcript.substring(0, 50),
+        turnCount: turns.length,
+        speakerCount: new Set(turns.map((turn) => turn.speaker)).size,
         timestamp: new Date().toISOString(),
       });
 
       return {
         text: transcript,
         confidence: confidence || 0,
+        turns,
+        durationSeconds: result.metadata?.duration,
       };
     } catch (error) {
       logger.error("Failed to transcribe audio", {
@@ -141,6 +152,8 @@ export class TranscriptionService {
       return {
         text: transcript,
         confidence: confidence || 0,
+        turns: this.extractTurns(result),
+        durationSeconds: result.metadata?.duration,
       };
     } catch (error) {
       logger.error("Failed to transcribe URL audio", {
@@ -156,4 +169,52 @@ export class TranscriptionService {
       );
     }
   }
+
+  /**
+   * Builds ordered speaker turns from Deepgram utterances, or from per-word
+   * speaker labels when utterances were not returned.
+   */
+  private extractTurns(result: SyncPrerecordedResponse): TranscriptTurn[] {
+    const utterances = result.results?.utterances;
+    if (utterances?.length) {
+      return inferSpeakerRoles(
+        utterances.map((utterance) => ({
+          speaker: utterance.speaker ?? 0,
+          start: utterance.start,
+          end: utterance.end,
+          text: utterance.transcript,
+          confidence: utterance.confidence,
+        }))
+      );
+    }
+
+    const words = result.results?.channels[0]?.alternatives[0]?.words ?? [];
+    const turns: Array<Omit<TranscriptTurn, "role">> = [];
+    let wordCount = 0;
+
+    words.forEach((word) => {
+      const speaker = word.speaker ?? 0;
+      const text = word.punctuated_word ?? word.word;
+      const current = turns[turns.length - 1];
+
+      if (current && current.speaker === speaker) {
+        current.text += ` ${text}`;
+        current.end = word.end;
+        current.confidence =
+          (current.confidence * wordCount + word.confidence) / (wordCount + 1);
+        wordCount++;
+      } else {
+        turns.push({
+          speaker,
+          start: word.start,
+          end: word.end,
+          text,
+          confidence: word.confidence,
+        });
+        wordCount = 1;
+      }
+    });
+
+    return inferSpeakerRoles(turns);
+  }
 }
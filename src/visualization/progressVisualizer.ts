@@ -1,4 +1,9 @@
 import { ConversationTree } from "../discovery/conversationTree.js";
+import {
+  DiscoveryEvent,
+  DiscoveryEventBus,
+} from "../events/discoveryEvents.js";
+import { RunReplayer } from "../events/runReplayer.js";
 import logger from "../utils/logger.js";
 import chalk, { Chalk } from "chalk";
 
@@ -11,6 +16,14 @@ interface VisualizationNode {
   children: VisualizationNode[];
 }
 
+interface ProgressState {
+  activeCallCount: number;
+  completedCallCount: number;
+  failedCallCount: number;
+  timedOutCallCount: number;
+  lastUpdateTimestamp: Date;
+}
+
 export class ProgressVisualizer {
   private static readonly TREE_CHARS = {
     vertical: "│",
@@ -30,6 +43,78 @@ export class ProgressVisualizer {
   private static readonly PROMPT_DISPLAY_LENGTH = Number.MAX_SAFE_INTEGER; // Increased from 60
   private static readonly RESPONSE_DISPLAY_LENGTH = Number.MAX_SAFE_INTEGER;
 
+  private readonly runs: Map<string, RunReplayer> = new Map();
+
+  /**
+   * Prints the tree and metrics of every run on the bus as its events
+   * arrive. Returns a function that stops printing.
+   */
+  public subscribe(events: DiscoveryEventBus): () => void {
+    return events.subscribe((event) => this.handleEvent(event));
+  }
+
+  public handleEvent(event: DiscoveryEvent): void {
+    let run = this.runs.get(event.runId);
+    if (!run) {
+      run = new RunReplayer();
+      this.runs.set(event.runId, run);
+    }
+    run.apply(event);
+
+    switch (event.type) {
+      case "CallQueued":
+        this.logConversationEvent(
+          event.payload.parentId,
+          "New Path Discovered",
+          { queuedNodeId: event.payload.nodeId }
+        );
+        break;
+
+      case "PathsIdentified": {
+        this.visualizeTree(run.getTree());
+        this.visualizeProgress(run.getProgress());
+        const node = run.getTree().getNode(event.payload.nodeId);
+        this.logConversationEvent(
+          event.payload.nodeId,
+          "Conversation Completed",
+          {
+            responsePreview: node?.responseReceived.substring(0, 100) ?? "",
+            newPathsIdentified: event.payload.analysis.identifiedPaths.length,
+            collapsedPaths: event.payload.collapsedPaths.length,
+          }
+        );
+        break;
+      }
+
+      case "CallFailed": {
+        const node = run
+          .getTree()
+          .getAllNodes()
+          .find((candidate) => candidate.callId === event.payload.callId);
+        this.logConversationEvent(node?.id ?? "unknown", "Conversation Failed", {
+          callId: event.payload.callId,
+          reason: event.payload.reason,
+        });
+        break;
+      }
+
+      case "CallTimedOut":
+        this.logConversationEvent(
+          event.payload.nodeId,
+          "Conversation Timed Out",
+          {
+            callId: event.payload.callId,
+            durationMs: event.payload.durationMs,
+          }
+        );
+        break;
+
+      case "RunFinished":
+        this.runs.delete(event.runId);
+        break;
+    }
+  }
+
   public visualizeTree(tree: ConversationTree): void {
     console.clear();
 
@@ -51,7 +136,7 @@ export class ProgressVisualizer {
     this.printTreeSummary(tree);
   }
 
-  public visualizeProgress(state: any): void {
+  public visualizeProgress(state: ProgressState): void {
     console.log(chalk.bold("\n=== Discovery Metrics ==="));
 
     console.log(chalk.yellow(`Active Conversations: ${state.activeCallCount}`));
@@ -62,7 +147,12 @@ export class ProgressVisualizer {
 
     console.log(chalk.red(`Failed Attempts: ${state.failedCallCount}`));
 
-    const totalAttempts = state.completedCallCount + state.failedCallCount;
+    console.log(chalk.magenta(`Timed Out: ${state.timedOutCallCount}`));
+
+    const totalAttempts =
+      state.completedCallCount +
+      state.failedCallCount +
+      state.timedOutCallCount;
     const successRate =
       totalAttempts > 0
         ? ((state.completedCallCount / totalAttempts) * 100).toFixed(1)
@@ -83,7 +173,7 @@ export class ProgressVisualizer {
   public logConversationEvent(
     nodeId: string,
     event: string,
-    details: any
+    details: Record<string, unknown>
   ): void {
     const timestamp = new Date().toISOString();
     const eventColor = this.getEventColor(event);
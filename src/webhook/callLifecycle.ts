@@ -0,0 +1,206 @@
+export type CallWebhookStatus =
+  | "initiated"
+  | "in-progress"
+  | "completed"
+  | "failed"
+  | "event_phone_call_connected"
+  | "event_phone_call_ended"
+  | "event_recording";
+
+export type CallPhase =
+  | "dialing"
+  | "in-progress"
+  | "connected"
+  | "ended"
+  | "processing"
+  | "completed"
+  | "failed";
+
+export type CallLifecycleOutcome = "applied" | "duplicate" | "out-of-order";
+
+export interface CallLifecycleDecision {
+  outcome: CallLifecycleOutcome;
+  /** What the webhook handler should do in response to the delivery */
+  action: "none" | "process-recording" | "fail";
+}
+
+export interface CallLifecycleEntry {
+  /** A webhook status, or the result of processing the recording */
+  event: CallWebhookStatus | "recording_processed" | "recording_failed";
+  receivedAt: Date;
+  outcome: CallLifecycleOutcome;
+  /** The call's phase after this entry */
+  phase: CallPhase;
+}
+
+export interface CallLifecycle {
+  callId: string;
+  phase: CallPhase;
+  timeline: CallLifecycleEntry[];
+}
+
+export interface CallLifecycleTrackerOptions {
+  /** How many completed or failed calls to keep timelines for */
+  retainFinished?: number;
+}
+
+const DEFAULT_RETAIN_FINISHED = 100;
+
+// Phases only move forward; processing, completed and failed are final as
+// far as webhooks are concerned
+const PHASE_ORDER: Record<CallPhase, number> = {
+  dialing: 0,
+  "in-progress": 1,
+  connected: 2,
+  ended: 3,
+  processing: 4,
+  completed: 5,
+  failed: 5,
+};
+
+/**
+ * Tracks each call through its webhook lifecycle. The voice agent API may
+ * deliver events more than once or out of order, and reports an available
+ * recording through both `completed` and `event_recording`. Deciding the
+ * action synchronously on arrival guarantees the recording is processed
+ * exactly once and a call is never both completed and failed.
+ *
+ * Only the most recently finished calls are kept, so a delivery for a call
+ * that finished long ago starts a new lifecycle.
+ */
+export class CallLifecycleTracker {
+  private readonly retainFinished: number;
+  private readonly calls: Map<string, CallLifecycle> = new Map();
+  // Completed and failed calls, oldest first
+  private readonly finishedCallIds: Set<string> = new Set();
+
+  constructor(options: CallLifecycleTrackerOptions = {}) {
+    this.retainFinished = options.retainFinished ?? DEFAULT_RETAIN_FINISHED;
+  }
+
+  /**
+   * Records a webhook delivery and decides what to do with it. Duplicate
+   * and out-of-order deliveries call for no action.
+   */
+  public record(
+    callId: string,
+    status: CallWebhookStatus,
+    recordingAvailable: boolean,
+    receivedAt: Date = new Date()
+  ): CallLifecycleDecision {
+    const lifecycle = this.getOrCreate(callId);
+    const target = this.getTargetPhase(status, recordingAvailable);
+    const current = PHASE_ORDER[lifecycle.phase];
+    const isFirst = lifecycle.timeline.length === 0;
+
+    if (
+      !isFirst &&
+      (current >= PHASE_ORDER.processing || PHASE_ORDER[target] <= current)
+    ) {
+      const seen = lifecycle.timeline.some(
+        (entry) => entry.event === status && entry.outcome === "applied"
+      );
+      const outcome = seen ? "duplicate" : "out-of-order";
+      this.append(lifecycle, status, receivedAt, outcome);
+      return { outcome, action: "none" };
+    }
+
+    lifecycle.phase = target;
+    this.append(lifecycle, status, receivedAt, "applied");
+    if (target === "failed") {
+      this.markFinished(callId);
+    }
+
+    const action =
+      target === "processing"
+        ? "process-recording"
+        : target === "failed"
+        ? "fail"
+        : "none";
+    return { outcome: "applied", action };
+  }
+
+  /**
+   * Records the result of processing the recording claimed by `record`.
+   */
+  public recordProcessingResult(
+    callId: string,
+    succeeded: boolean,
+    receivedAt: Date = new Date()
+  ): void {
+    const lifecycle = this.calls.get(callId);
+    if (!lifecycle || lifecycle.phase !== "processing") {
+      throw new Error(`Call ${callId} is not processing a recording`);
+    }
+
+    lifecycle.phase = succeeded ? "completed" : "failed";
+    this.append(
+      lifecycle,
+      succeeded ? "recording_processed" : "recording_failed",
+      receivedAt,
+      "applied"
+    );
+    this.markFinished(callId);
+  }
+
+  public getLifecycle(callId: string): CallLifecycle | undefined {
+    const lifecycle = this.calls.get(callId);
+    return lifecycle
+      ? { ...lifecycle, timeline: [...lifecycle.timeline] }
+      : undefined;
+  }
+
+  private getTargetPhase(
+    status: CallWebhookStatus,
+    recordingAvailable: boolean
+  ): CallPhase {
+    switch (status) {
+      case "initiated":
+        return "dialing";
+      case "in-progress":
+        return "in-progress";
+      case "event_phone_call_connected":
+        return "connected";
+      case "event_phone_call_ended":
+        return "ended";
+      case "completed":
+      case "event_recording":
+        // Without a recording the call has ended but may still get one
+        return recordingAvailable ? "processing" : "ended";
+      case "failed":
+        return "failed";
+    }
+  }
+
+  private getOrCreate(callId: string): CallLifecycle {
+    let lifecycle = this.calls.get(callId);
+    if (!lifecycle) {
+      lifecycle = { callId, phase: "dialing", timeline: [] };
+      this.calls.set(callId, lifecycle);
+    }
+    return lifecycle;
+  }
+
+  private markFinished(callId: string): void {
+    this.finishedCallIds.add(callId);
+    for (const oldest of this.finishedCallIds) {
+      if (this.finishedCallIds.size <= this.retainFinished) break;
+      this.finishedCallIds.delete(oldest);
+      this.calls.delete(oldest);
+    }
+  }
+
+  private append(
+    lifecycle: CallLifecycle,
+    event: CallLifecycleEntry["event"],
+    receivedAt: Date,
+    outcome: CallLifecycleEntry["outcome"]
+  ): void {
+    lifecycle.timeline.push({
+      event,
+      receivedAt,
+      outcome,
+      phase: lifecycle.phase,
+    });
+  }
+}
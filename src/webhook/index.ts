@@ -1,64 +1,132 @@
 import { Router, Request, Response } from "express";
 import { CallManager } from "../call-manager/client.js";
-import { DiscoveryOrchestrator } from "../orchestrator/discoveryOrchestrator.js";
-import { TranscriptionService } from "../transcription/transcriptionService.js";
+import {
+  Transcriber,
+  TranscriptionResult,
+} from "../transcription/transcriber.js";
+import {
+  DiscoveryEventBus,
+  DiscoveryEventPayloads,
+  DiscoveryEventType,
+} from "../events/discoveryEvents.js";
 import logger from "../utils/logger.js";
+import { RawBodyRequest, WebhookSignature } from "./signature.js";
+import { CallLifecycleTracker, CallWebhookStatus } from "./callLifecycle.js";
+import { Job, JobQueue } from "../jobs/jobQueue.js";
 
 interface WebhookPayload {
   id: string;
-  status:
-    | "initiated"
-    | "in-progress"
-    | "completed"
-    | "failed"
-    | "event_phone_call_connected"
-    | "event_phone_call_ended"
-    | "event_recording";
+  status: CallWebhookStatus;
   recording_available: boolean;
 }
 
+/** Work left over from a webhook delivery, done after it is acknowledged */
+export interface WebhookJob {
+  type: "process-recording" | "call-failed";
+  callId: string;
+  /** Set for deliveries to a run-scoped webhook path */
+  runId?: string;
+}
+
+/**
+ * Receives the outcome of calls. Implemented by a single
+ * DiscoveryOrchestrator or by the RunManager, which forwards each call to the
+ * run that placed it.
+ */
+export interface CallEventHandler {
+  handleCallCompleted(
+    callId: string,
+    transcription: TranscriptionResult
+  ): Promise<void>;
+  handleCallFailed(callId: string): Promise<void>;
+  /** Resolves the handler for a run-scoped webhook path, if runs are used */
+  forRun?(runId: string): CallEventHandler | undefined;
+  /** Lets call outcomes be published as events of the run that placed them */
+  getRunIdForCall?(callId: string): string | undefined;
+}
+
+interface WebhookHandlerOptions {
+  events?: DiscoveryEventBus;
+  /** When set, unsigned, stale and repeated deliveries are rejected */
+  signature?: WebhookSignature;
+  /** Shared so call timelines can be served elsewhere, e.g. the runs API */
+  callLifecycles?: CallLifecycleTracker;
+  /**
+   * When set, deliveries are answered as soon as they are recorded and the
+   * recording is processed by the queue's workers
+   */
+  jobs?: JobQueue<WebhookJob>;
+}
+
 export class WebhookHandler {
   private router: Router;
   private callManager: CallManager;
-  private orchestrator: DiscoveryOrchestrator;
-  private transcriptionService: TranscriptionService;
+  private orchestrator: CallEventHandler;
+  private transcriptionService: Transcriber;
+  private events?: DiscoveryEventBus;
+  private signature?: WebhookSignature;
+  private callLifecycles: CallLifecycleTracker;
+  private jobs?: JobQueue<WebhookJob>;
 
   constructor(
     callManager: CallManager,
-    orchestrator: DiscoveryOrchestrator,
-    transcriptionService: TranscriptionService
+    orchestrator: CallEventHandler,
+    transcriptionService: Transcriber,
+    options: WebhookHandlerOptions = {}
   ) {
     this.router = Router();
     this.callManager = callManager;
     this.orchestrator = orchestrator;
     this.transcriptionService = transcriptionService;
+    this.events = options.events;
+    this.signature = options.signature;
+    this.callLifecycles =
+      options.callLifecycles ?? new CallLifecycleTracker();
+    this.jobs = options.jobs;
+    this.jobs?.process(
+      this.processJob.bind(this),
+      this.handleDeadJob.bind(this)
+    );
     this.configureRoutes();
   }
 
   private configureRoutes(): void {
     this.router.post("/callback", this.handleWebhook.bind(this));
+    this.router.post("/runs/:runId/callback", this.handleWebhook.bind(this));
   }
 
   /**
    * Processes incoming webhook notifications from the voice agent API
    */
   protected async handleWebhook(req: Request, res: Response): Promise<void> {
+    if (!this.isVerified(req, res)) return;
+
     try {
       logger.info("Received webhook notification", {
         body: req.body,
-        headers: req.headers,
         timestamp: new Date().toISOString(),
       });
 
       const payload = this.validatePayload(req.body);
 
+      const runId = req.params.runId;
+      const handler = this.resolveHandler(runId);
+      if (!handler) {
+        logger.warn("Received webhook for an unknown run", {
+          runId,
+          callId: payload.id,
+        });
+        res.status(404).json({ error: `Run ${runId} not found` });
+        return;
+      }
+
       logger.info("Processing voice agent event", {
         callId: payload.id,
         status: payload.status,
         hasRecording: payload.recording_available,
       });
 
-      await this.processWebhook(payload);
+      await this.processWebhook(payload, handler, runId);
 
       res.status(200).json({ received: true });
     } catch (error) {
@@ -73,6 +141,28 @@ export class WebhookHandler {
     }
   }
 
+  /**
+   * Sends 401 and returns false when signatures are required and the
+   * delivery is unsigned, stale, forged or a repeat.
+   */
+  private isVerified(req: Request, res: Response): boolean {
+    if (!this.signature) return true;
+
+    try {
+      this.signature.verify((req as RawBodyRequest).rawBody, req.headers);
+      return true;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      logger.warn("Rejected unverified webhook", {
+        reason,
+        path: req.path,
+        ip: req.ip,
+      });
+      res.status(401).json({ error: reason });
+      return false;
+    }
+  }
+
   private validatePayload(body: any): WebhookPayload {
     if (!body?.id || !body?.status) {
       throw new Error("Invalid webhook payload: missing required fields");
@@ -95,69 +185,196 @@ export class WebhookHandler {
     return body as WebhookPayload;
   }
 
-  private async processWebhook(payload: WebhookPayload): Promise<void> {
-    switch (payload.status) {
-      case "completed":
-      case "event_recording":
-        if (payload.recording_available) {
-          await this.handleRecordingAvailable(payload.id);
-        } else {
-          logger.warn("Call completed but recording not available", {
-            callId: payload.id,
-          });
-        }
-        break;
+  private async processWebhook(
+    payload: WebhookPayload,
+    handler: CallEventHandler,
+    runId: string | undefined
+  ): Promise<void> {
+    // Decided before anything is awaited, so concurrent deliveries for the
+    // same call cannot both claim the recording
+    const { outcome, action } = this.callLifecycles.record(
+      payload.id,
+      payload.status,
+      payload.recording_available
+    );
+
+    if (outcome !== "applied") {
+      logger.info("Ignoring webhook for call", {
+        callId: payload.id,
+        status: payload.status,
+        outcome,
+      });
+      return;
+    }
 
-      case "failed":
-        await this.orchestrator.handleCallFailed(payload.id);
+    switch (action) {
+      case "process-recording":
+        await this.dispatch(
+          { type: "process-recording", callId: payload.id, runId },
+          handler
+        );
         break;
 
-      case "initiated":
-      case "in-progress":
-      case "event_phone_call_connected":
-      case "event_phone_call_ended":
-        logger.info("Call status update received", {
+      case "fail":
+        this.publish(handler, payload.id, "CallFailed", {
           callId: payload.id,
-          status: payload.status,
+          reason: "Call failed",
         });
+        await this.dispatch(
+          { type: "call-failed", callId: payload.id, runId },
+          handler
+        );
         break;
 
-      default:
-        logger.warn("Unhandled call status received", {
-          callId: payload.id,
-          status: payload.status,
-        });
+      case "none":
+        if (
+          payload.status === "completed" ||
+          payload.status === "event_recording"
+        ) {
+          logger.warn("Call completed but recording not available", {
+            callId: payload.id,
+          });
+        } else {
+          logger.info("Call status update received", {
+            callId: payload.id,
+            status: payload.status,
+          });
+        }
         break;
     }
   }
 
-  private async handleRecordingAvailable(callId: string): Promise<void> {
+  /**
+   * Queues the work when a job queue is configured, otherwise does it before
+   * the webhook is answered.
+   */
+  private async dispatch(
+    job: WebhookJob,
+    handler: CallEventHandler
+  ): Promise<void> {
+    if (this.jobs) {
+      const queued = this.jobs.enqueue(job.type, job);
+      logger.info("Queued webhook job", {
+        jobId: queued.id,
+        type: job.type,
+        callId: job.callId,
+      });
+      return;
+    }
+
+    if (job.type === "call-failed") {
+      await handler.handleCallFailed(job.callId);
+      return;
+    }
+
     try {
-      logger.info("Processing available recording", { callId });
+      await this.processRecording(job.callId, handler);
+    } catch (error) {
+      await this.failRecording(
+        job.callId,
+        handler,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
 
-      const recordingBuffer = await this.callManager.retrieveRecording(callId);
+  private async processJob(job: Job<WebhookJob>): Promise<void> {
+    const handler = this.resolveHandler(job.payload.runId);
+    if (!handler) {
+      throw new Error(`Run ${job.payload.runId} not found`);
+    }
 
-      const transcriptionResult =
-        await this.transcriptionService.transcribeAudio(recordingBuffer);
+    if (job.payload.type === "call-failed") {
+      await handler.handleCallFailed(job.payload.callId);
+    } else {
+      await this.processRecording(job.payload.callId, handler);
+    }
+  }
 
-      logger.info("Successfully transcribed recording", {
-        callId,
-        confidence: transcriptionResult.confidence,
-        transcriptLength: transcriptionResult.text.length,
-      });
+  /**
+   * A recording that could not be processed after every retry fails the
+   * call, so the run can retry it or move on.
+   */
+  private async handleDeadJob(job: Job<WebhookJob>): Promise<void> {
+    const handler = this.resolveHandler(job.payload.runId);
+    if (job.payload.type !== "process-recording" || !handler) return;
 
-      await this.orchestrator.handleCallCompleted(
-        callId,
-        transcriptionResult.text
-      );
-    } catch (error) {
-      logger.error("Failed to process recording", {
-        error: error instanceof Error ? error.message : "Unknown error",
+    await this.failRecording(
+      job.payload.callId,
+      handler,
+      job.lastError ?? "Unknown error"
+    );
+  }
+
+  private resolveHandler(runId: string | undefined) {
+    return runId ? this.orchestrator.forRun?.(runId) : this.orchestrator;
+  }
+
+  /**
+   * Retrieves, transcribes and hands over the recording. Throws when the
+   * recording could not be retrieved or transcribed.
+   */
+  private async processRecording(
+    callId: string,
+    handler: CallEventHandler
+  ): Promise<void> {
+    logger.info("Processing available recording", { callId });
+
+    const recordingBuffer = await this.callManager.retrieveRecording(callId);
+
+    const transcriptionResult =
+      await this.transcriptionService.transcribeAudio(recordingBuffer);
+
+    logger.info("Successfully transcribed recording", {
+      callId,
+      confidence: transcriptionResult.confidence,
+      transcriptLength: transcriptionResult.text.length,
+      turnCount: transcriptionResult.turns.length,
+    });
+
+    this.publish(handler, callId, "CallCompleted", {
+      callId,
+      text: transcriptionResult.text,
+      turns: transcriptionResult.turns,
+      confidence: transcriptionResult.confidence,
+    });
+    await handler.handleCallCompleted(callId, transcriptionResult);
+    this.callLifecycles.recordProcessingResult(callId, true);
+  }
+
+  private async failRecording(
+    callId: string,
+    handler: CallEventHandler,
+    reason: string
+  ): Promise<void> {
+    logger.error("Failed to process recording", { error: reason, callId });
+
+    this.publish(handler, callId, "CallFailed", {
+      callId,
+      reason: `Recording could not be processed: ${reason}`,
+    });
+    this.callLifecycles.recordProcessingResult(callId, false);
+    await handler.handleCallFailed(callId);
+  }
+
+  private publish<K extends DiscoveryEventType>(
+    handler: CallEventHandler,
+    callId: string,
+    type: K,
+    payload: DiscoveryEventPayloads[K]
+  ): void {
+    if (!this.events) return;
+
+    const runId = handler.getRunIdForCall?.(callId);
+    if (!runId) {
+      logger.warn("Not publishing event for a call of an unknown run", {
         callId,
+        type,
       });
-
-      await this.orchestrator.handleCallFailed(callId);
+      return;
     }
+
+    this.events.publish(runId, type, payload);
   }
 
   public getRouter(): Router {
@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "http";
+
+export interface WebhookSignatureOptions {
+  secret: string;
+  signatureHeader?: string;
+  timestampHeader?: string;
+  /** Any HMAC digest supported by node's crypto, e.g. sha256 or sha512 */
+  algorithm?: string;
+  toleranceSeconds?: number;
+}
+
+export interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+const DEFAULT_SIGNATURE_HEADER = "x-webhook-signature";
+const DEFAULT_TIMESTAMP_HEADER = "x-webhook-timestamp";
+const DEFAULT_ALGORITHM = "sha256";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * `verify` option for express.json() that keeps the exact bytes of the body,
+ * since re-serializing the parsed JSON would not reproduce the signed payload.
+ */
+export function captureRawBody(
+  req: IncomingMessage,
+  res: ServerResponse,
+  buffer: Buffer
+): void {
+  (req as RawBodyRequest).rawBody = buffer;
+}
+
+/**
+ * Signs and verifies webhook deliveries with an HMAC over
+ * `<timestamp>.<raw body>`. The timestamp header holds unix seconds.
+ * Deliveries outside the tolerance window are rejected, and so are repeats
+ * of a signature already seen inside it, which makes captured requests
+ * useless for replay.
+ */
+export class WebhookSignature {
+  private readonly secret: string;
+  private readonly signatureHeader: string;
+  private readonly timestampHeader: string;
+  private readonly algorithm: string;
+  private readonly toleranceSeconds: number;
+  // Signature -> time after which its timestamp is no longer accepted
+  private readonly seenSignatures: Map<string, number> = new Map();
+
+  constructor(options: WebhookSignatureOptions) {
+    if (!options.secret) {
+      throw new Error("Webhook signature secret must not be empty");
+    }
+
+    this.secret = options.secret;
+    this.signatureHeader = (
+      options.signatureHeader ?? DEFAULT_SIGNATURE_HEADER
+    ).toLowerCase();
+    this.timestampHeader = (
+      options.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER
+    ).toLowerCase();
+    this.algorithm = options.algorithm ?? DEFAULT_ALGORITHM;
+    this.toleranceSeconds =
+      options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+
+    if (!crypto.getHashes().includes(this.algorithm)) {
+      throw new Error(
+        `Unsupported webhook signature algorithm: ${this.algorithm}`
+      );
+    }
+  }
+
+  /**
+   * Returns the headers to send along with `body`.
+   */
+  public sign(
+    body: string | Buffer,
+    timestamp: number = Math.floor(Date.now() / 1000)
+  ): Record<string, string> {
+    return {
+      [this.signatureHeader]: `${this.algorithm}=${this.computeSignature(
+        String(timestamp),
+        body
+      )}`,
+      [this.timestampHeader]: String(timestamp),
+    };
+  }
+
+  public verify(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+    now: number = Date.now()
+  ): void {
+    if (!rawBody) {
+      throw new WebhookVerificationError("Request body is not available");
+    }
+
+    const signatureValue = this.getHeader(headers, this.signatureHeader);
+    const timestampValue = this.getHeader(headers, this.timestampHeader);
+    if (!signatureValue || !timestampValue) {
+      throw new WebhookVerificationError("Missing webhook signature headers");
+    }
+
+    const timestamp = Number(timestampValue);
+    if (!Number.isInteger(timestamp)) {
+      throw new WebhookVerificationError("Invalid webhook timestamp");
+    }
+    if (Math.abs(now / 1000 - timestamp) > this.toleranceSeconds) {
+      throw new WebhookVerificationError(
+        "Webhook timestamp is outside the allowed tolerance"
+      );
+    }
+
+    // Accept both "<hex>" and "<algorithm>=<hex>"
+    const prefix = `${this.algorithm}=`;
+    const signature = signatureValue.startsWith(prefix)
+      ? signatureValue.slice(prefix.length)
+      : signatureValue;
+    const expected = this.computeSignature(timestampValue, rawBody);
+    const received = Buffer.from(signature, "hex");
+    if (
+      received.length !== expected.length / 2 ||
+      !crypto.timingSafeEqual(received, Buffer.from(expected, "hex"))
+    ) {
+      throw new WebhookVerificationError("Invalid webhook signature");
+    }
+
+    this.pruneSeenSignatures(now);
+    if (this.seenSignatures.has(expected)) {
+      throw new WebhookVerificationError("Duplicate webhook delivery");
+    }
+    this.seenSignatures.set(
+      expected,
+      (timestamp + this.toleranceSeconds) * 1000
+    );
+  }
+
+  private computeSignature(timestamp: string, body: string | Buffer): string {
+    return crypto
+      .createHmac(this.algorithm, this.secret)
+      .update(`${timestamp}.`)
+      .update(body)
+      .digest("hex");
+  }
+
+  private getHeader(
+    headers: IncomingHttpHeaders,
+    name: string
+  ): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private pruneSeenSignatures(now: number): void {
+    this.seenSignatures.forEach((expiresAt, signature) => {
+      if (expiresAt < now) {
+        this.seenSignatures.delete(signature);
+      }
+    });
+  }
+}
+
+/**
+ * Builds the signature settings from WEBHOOK_SECRET and friends, or returns
+ * undefined when no secret is configured.
+ */
+export function createWebhookSignature(
+  env: NodeJS.ProcessEnv = process.env
+): WebhookSignature | undefined {
+  if (!env.WEBHOOK_SECRET) {
+    return undefined;
+  }
+
+  return new WebhookSignature({
+    secret: env.WEBHOOK_SECRET,
+    signatureHeader: env.WEBHOOK_SIGNATURE_HEADER,
+    timestampHeader: env.WEBHOOK_TIMESTAMP_HEADER,
+    algorithm: env.WEBHOOK_SIGNATURE_ALGORITHM,
+    toleranceSeconds: env.WEBHOOK_TOLERANCE_SECONDS
+      ? Number(env.WEBHOOK_TOLERANCE_SECONDS)
+      : undefined,
+  });
+}